@@ -0,0 +1,78 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { decimalSeparator, formatAmountInput, groupSeparator, hasValidGrouping, parseAmountInput } from './services/i18n';
+
+// Amounts are compared by value so "1500" and "1500." (typing the decimals) are the same; empty counts as zero
+const sameAmount = (a: string, b: string) => Number(a || 0) === Number(b || 0);
+
+// The characters typed or pasted into `before` to give `after`
+function insertedText(before: string, after: string): string {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+    return after.slice(start, after.length - end);
+}
+
+interface AmountInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+    // Plain decimal string ("1500000.5"); numbers can be passed as String(value)
+    value: string;
+    onChange: (value: string) => void;
+}
+
+/**
+ * Text input for amounts in the active locale. Thousands are grouped as the
+ * operator types; text that is not an amount (letters, a second decimal
+ * separator, a group separator out of place) is ignored, and the caret stays
+ * after the same digit.
+ */
+const AmountInput: React.FC<AmountInputProps> = ({ value, onChange, ...inputProps }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    // What is being typed, which may run ahead of `value` (e.g. a trailing decimal separator)
+    const [text, setText] = useState(value);
+    const [previousValue, setPreviousValue] = useState(value);
+    if (value !== previousValue) {
+        setPreviousValue(value);
+        if (!sameAmount(value, text)) setText(value);
+    }
+    // Digits and decimal separator before the caret, restored after regrouping
+    const caretRef = useRef<number | null>(null);
+
+    const display = formatAmountInput(text);
+
+    useLayoutEffect(() => {
+        const input = inputRef.current;
+        if (caretRef.current === null || !input || document.activeElement !== input) return;
+        let remaining = caretRef.current;
+        let position = 0;
+        while (position < display.length && remaining > 0) {
+            if (/\d/.test(display[position]) || display[position] === decimalSeparator()) remaining--;
+            position++;
+        }
+        input.setSelectionRange(position, position);
+        caretRef.current = null;
+    }, [display]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        // The separators already shown were placed by the input itself; only entered ones are checked
+        if (insertedText(display, e.target.value).includes(groupSeparator()) && !hasValidGrouping(e.target.value)) return;
+        const parsed = parseAmountInput(e.target.value);
+        if (parsed === null) return;
+        const beforeCaret = e.target.value.slice(0, e.target.selectionStart ?? e.target.value.length);
+        caretRef.current = beforeCaret.split('').filter(c => /\d/.test(c) || c === decimalSeparator()).length;
+        setText(parsed);
+        onChange(parsed);
+    };
+
+    return (
+        <input
+            {...inputProps}
+            ref={inputRef}
+            type="text"
+            inputMode="decimal"
+            value={display}
+            onChange={handleChange}
+        />
+    );
+};
+
+export default AmountInput;
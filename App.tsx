@@ -1,53 +1,269 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Calculator from './Calculator';
 import History from './History';
+import Settings from './Settings';
+import Clients from './Clients';
+import Dashboard from './Dashboard';
+import RateHistory from './RateHistory';
+import RecordDetail from './RecordDetail';
+import LanguageSwitcher from './LanguageSwitcher';
+import SyncIndicator from './SyncIndicator';
+import { loadHistory, loadClients, saveClient, deleteClient } from './services/storageService';
+import { saveRecord, deleteRecord, restoreRecord, importRecords, requestSync, resolveConflict, startSync, type SyncStatus } from './services/syncService';
+import type { CommissionRuleSet } from './services/commissionService';
+import type { RateDirection } from './services/currencyPairs';
+import type { Currency } from './services/money';
+import type { SyncConflict } from './services/syncService';
+import { recordAttachments, revokeAttachmentUrls, toAttachment, type PendingAttachment } from './services/attachments';
+import { currentRoute, historyUrl, navigate, recordUrl, routeUrl, type Route } from './services/router';
+import { getLocale, setLocale, t, type Locale } from './services/i18n';
 
 // --- Type Definition ---
+export interface Attachment {
+    id: string;
+    name: string;
+    // MIME type and size in bytes of the stored file
+    type: string;
+    size: number;
+    // Part of the settlement this file covers, when known
+    monto?: number;
+    // Object URL of the stored file; empty when only the name is known (e.g. imported rows)
+    url: string;
+    // Hex SHA-256 of the file contents, used to catch the same receipt on two records
+    sha256?: string;
+}
+
+// Lifecycle of the paid-out side of a liquidation; see services/payments.ts
+export type RecordStatus = 'pendiente' | 'pagado' | 'conciliado' | 'anulado';
+
+// A PIX, bank or wallet transfer paying (part of) the target total to the client
+export interface Payment {
+    id: string;
+    fecha: string;
+    // In the record's target currency
+    monto: number;
+    // PIX end-to-end id or transfer reference
+    referencia?: string;
+    // Proof of the transfer; its file is stored with the record's attachments
+    comprobante?: Attachment;
+}
+
 export interface LiquidationRecord {
     id: string;
     fecha: string;
-    valorCop: number;
-    comisionCop: number;
-    liquidoCop: number;
-    tasaBrlCop: number;
-    totalBrl: number;
-    comprobanteUrl: string;
-    comprobanteName: string;
+    // Money is received in monedaOrigen and paid out in monedaDestino; see services/currencyPairs.ts
+    monedaOrigen: Currency;
+    monedaDestino: Currency;
+    // Whether the target total is líquido / tasa or líquido * tasa
+    direccionTasa: RateDirection;
+    valorOrigen: number;
+    // Amount received per channel id; empty for records registered before the breakdown was kept
+    montosPorCanal: Record<string, number>;
+    comisionOrigen: number;
+    liquidoOrigen: number;
+    // Quoted as the market quotes the pair, e.g. COP per BRL for both COP → BRL and BRL → COP
+    tasa: number;
+    totalDestino: number;
+    // Receipts backing the settlement; usually one per transfer
+    comprobantes: Attachment[];
+    // Transaction reference(s) read from the receipts
+    referencia?: string;
+    estado: RecordStatus;
+    // Target-currency payments so far, oldest first; the balance is totalDestino minus their sum
+    pagos: Payment[];
+    // Set when the record was moved to the trash; records are never removed
+    eliminadoEn?: string;
+    // Where the rate came from; absent on records created before rate providers existed
+    tasaFuente?: string;
+    tasaFecha?: string;
+    // Quoted rate that the operator replaced with a manual override
+    tasaCotizada?: number;
+    // Snapshot of the commission rules applied, so later rule changes never alter this record
+    reglaComision: CommissionRuleSet;
+    porcentajeComision: number;
+    clienteId?: string;
+    // Set by the sync server when two devices changed the record at once; see services/syncService.ts
+    conflicto?: SyncConflict;
+}
+
+export interface Client {
+    id: string;
+    nombre: string;
+    documento: string;
+    // Where the BRL side is paid: a PIX key and/or Brazilian bank account details
+    pixKey?: string;
+    banco?: string;
+    agencia?: string;
+    cuenta?: string;
+    // Commission rule set preselected in the calculator for this client
+    reglaComisionId?: string;
 }
 
 const App: React.FC = () => {
-    const [page, setPage] = useState<'calculator' | 'history'>('calculator');
+    const [route, setRoute] = useState<Route>(currentRoute);
     const [history, setHistory] = useState<LiquidationRecord[]>([]);
+    const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+    const [clients, setClients] = useState<Client[]>([]);
+    // Mirrors the i18n module's locale; changing it re-renders every page in the new language
+    const [locale, setLocaleState] = useState<Locale>(getLocale);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'disabled', pending: 0 });
+    // Last history URL visited, so leaving a record page returns to the same filters
+    const lastHistoryUrlRef = useRef(historyUrl());
+    if (route.page === 'history') {
+        lastHistoryUrlRef.current = routeUrl(route);
+    }
+
+    // Back/forward and navigate() both land here
+    useEffect(() => {
+        const handlePopState = () => setRoute(currentRoute());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const handleLocaleChange = (nextLocale: Locale) => {
+        setLocale(nextLocale);
+        setLocaleState(nextLocale);
+    };
+
+    const navigateToHistory = () => navigate(historyUrl());
+    const navigateToRecord = (recordId: string) => navigate(recordUrl(recordId));
+    const navigateToCalculator = () => navigate(routeUrl({ page: 'calculator' }));
+    const navigateToSettings = () => navigate(routeUrl({ page: 'settings' }));
+    const navigateToClients = () => navigate(routeUrl({ page: 'clients' }));
+    const navigateToDashboard = () => navigate(routeUrl({ page: 'dashboard' }));
+    const navigateToRates = () => navigate(routeUrl({ page: 'rates' }));
+
+    // The history holds trashed records too; every view except the trash works on the active ones
+    const activeHistory = useMemo(() => history.filter(record => !record.eliminadoEn), [history]);
+    const trashedHistory = useMemo(() => history.filter(record => record.eliminadoEn), [history]);
+
+    // Keep the latest history reachable from the unmount cleanup below
+    const historyRef = useRef<LiquidationRecord[]>(history);
+    historyRef.current = history;
+
+    // Rehydrate the persisted history once on startup
+    useEffect(() => {
+        let cancelled = false;
+        loadHistory()
+            .then(storedHistory => {
+                if (cancelled) {
+                    storedHistory.forEach(record => revokeAttachmentUrls(recordAttachments(record)));
+                    return;
+                }
+                setHistory(prevHistory => {
+                    const loadedIds = new Set(storedHistory.map(r => r.id));
+                    return [...prevHistory.filter(r => !loadedIds.has(r.id)), ...storedHistory];
+                });
+                setIsHistoryLoaded(true);
+            })
+            .catch(err => {
+                setIsHistoryLoaded(true);
+                alert(err instanceof Error ? err.message : t('app.loadHistoryFailed'));
+            });
+        loadClients()
+            .then(storedClients => {
+                if (!cancelled) {
+                    setClients(storedClients);
+                }
+            })
+            .catch(err => {
+                alert(err instanceof Error ? err.message : t('storage.loadClients'));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
 
-    const navigateToHistory = () => setPage('history');
-    const navigateToCalculator = () => setPage('calculator');
+    // Reloads the history from storage after something other than this page changed it
+    const reloadHistory = async () => {
+        const storedHistory = await loadHistory();
+        historyRef.current.forEach(record => revokeAttachmentUrls(recordAttachments(record)));
+        setHistory(storedHistory);
+    };
+
+    // Records changed on the other devices arrive through the sync server
+    useEffect(() => {
+        if (!isHistoryLoaded) return;
+        return startSync(setSyncStatus, () => {
+            reloadHistory().catch(err => console.error('Error reloading synced history:', err));
+        });
+    }, [isHistoryLoaded]);
 
-    const handleAddToHistory = (newRecordData: Omit<LiquidationRecord, 'id' | 'comprobanteUrl'> & { file: File }) => {
+    // The pending attachments' object URLs are handed over to the new record
+    const handleAddToHistory = async (newRecordData: Omit<LiquidationRecord, 'id' | 'comprobantes' | 'estado' | 'pagos'> & { attachments: PendingAttachment[] }) => {
+        const { attachments, ...recordData } = newRecordData;
         const newRecord: LiquidationRecord = {
             id: `${Date.now()}-${Math.random()}`,
-            ...newRecordData,
-            comprobanteUrl: URL.createObjectURL(newRecordData.file),
-            comprobanteName: newRecordData.file.name,
+            ...recordData,
+            comprobantes: attachments.map(toAttachment),
+            // The target side is paid after registering, often in parts
+            estado: 'pendiente',
+            pagos: [],
         };
 
+        try {
+            await saveRecord(newRecord, Object.fromEntries(attachments.map(a => [a.id, a.file])));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('app.registerFailed'));
+            return false;
+        }
+
         setHistory(prevHistory => [newRecord, ...prevHistory]);
         
-        alert('Liquidación registrada con éxito.');
+        alert(t('app.registered'));
+        return true;
     };
 
-    const handleDeleteRecord = (recordId: string) => {
-        setHistory(prevHistory => {
-            const recordToDelete = prevHistory.find(r => r.id === recordId);
-            if (recordToDelete) {
-                // Revoke the object URL to prevent memory leaks
-                URL.revokeObjectURL(recordToDelete.comprobanteUrl);
-            }
-            return prevHistory.filter(record => record.id !== recordId);
-        });
+    // Deleting moves the record to the trash; its attachments stay available for a restore
+    const handleDeleteRecord = async (recordId: string, reason?: string) => {
+        let eliminadoEn: string;
+        try {
+            eliminadoEn = await deleteRecord(recordId, reason);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('app.deleteFailed'));
+            return;
+        }
+
+        setHistory(prevHistory =>
+            prevHistory.map(record => (record.id === recordId ? { ...record, eliminadoEn } : record))
+        );
     };
 
-    const handleUpdateRecord = (updatedRecord: LiquidationRecord) => {
+    const handleRestoreRecord = async (recordId: string) => {
+        try {
+            await restoreRecord(recordId);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('storage.restoreRecord'));
+            return;
+        }
+
+        setHistory(prevHistory =>
+            prevHistory.map(record => (record.id === recordId ? { ...record, eliminadoEn: undefined } : record))
+        );
+    };
+
+    // newFiles holds the files of attachments added in the edit, keyed by attachment id
+    const handleUpdateRecord = async (updatedRecord: LiquidationRecord, newFiles: Record<string, File> = {}, reason?: string) => {
+        const previousRecord = historyRef.current.find(r => r.id === updatedRecord.id);
+        try {
+            await saveRecord(updatedRecord, newFiles, reason);
+        } catch (err) {
+            revokeAttachmentUrls(recordAttachments(updatedRecord).filter(a => a.id in newFiles));
+            alert(err instanceof Error ? err.message : t('app.updateFailed'));
+            return;
+        }
+
+        // Removed attachments are gone from storage, so their object URLs are no longer needed
+        if (previousRecord) {
+            const keptIds = new Set(recordAttachments(updatedRecord).map(a => a.id));
+            revokeAttachmentUrls(recordAttachments(previousRecord).filter(a => !keptIds.has(a.id)));
+        }
+
         setHistory(prevHistory => 
             prevHistory.map(record => 
                 record.id === updatedRecord.id ? updatedRecord : record
@@ -55,26 +271,147 @@ const App: React.FC = () => {
         );
     };
 
+    // Resolves to whether the records were saved, so the import dialog can stay open on failure
+    const handleImportRecords = async (importedRecords: LiquidationRecord[]): Promise<boolean> => {
+        try {
+            await importRecords(importedRecords);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('app.importFailed'));
+            return false;
+        }
+
+        setHistory(prevHistory => [...prevHistory, ...importedRecords]);
+        alert(t('app.imported', { count: importedRecords.length }));
+        return true;
+    };
+
+    // Reloads everything from storage after a backup restore changed it underneath us
+    const handleBackupRestored = async () => {
+        const [, storedClients] = await Promise.all([reloadHistory(), loadClients()]);
+        setClients(storedClients);
+        void requestSync();
+    };
+
+    const handleResolveConflict = async (recordId: string) => {
+        try {
+            await resolveConflict(recordId);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('sync.conflict.resolveFailed'));
+            return;
+        }
+
+        setHistory(prevHistory =>
+            prevHistory.map(record => (record.id === recordId ? { ...record, conflicto: undefined } : record))
+        );
+    };
+
+    const handleSaveClient = async (client: Client) => {
+        try {
+            await saveClient(client);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('app.saveClientFailed'));
+            return;
+        }
+
+        setClients(prevClients => {
+            const others = prevClients.filter(c => c.id !== client.id);
+            return [...others, client].sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'));
+        });
+    };
+
+    const handleDeleteClient = async (clientId: string) => {
+        if (historyRef.current.some(record => record.clienteId === clientId)) {
+            alert(t('app.clientHasRecords'));
+            return;
+        }
+        try {
+            await deleteClient(clientId);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('app.deleteClientFailed'));
+            return;
+        }
+
+        setClients(prevClients => prevClients.filter(c => c.id !== clientId));
+    };
+
     // Clean up all object URLs when the component unmounts
     useEffect(() => {
         return () => {
-            history.forEach(record => URL.revokeObjectURL(record.comprobanteUrl));
+            historyRef.current.forEach(record => revokeAttachmentUrls(recordAttachments(record)));
         };
-    }, [history]);
+    }, []);
 
     return (
         <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
-            {page === 'calculator' ? (
+            <div className="flex justify-end items-center gap-4 px-4 pt-3">
+                <SyncIndicator status={syncStatus} />
+                <LanguageSwitcher locale={locale} onChange={handleLocaleChange} />
+            </div>
+            {route.page === 'calculator' && (
                 <Calculator 
                     onAddToHistory={handleAddToHistory} 
                     onNavigateToHistory={navigateToHistory} 
+                    onNavigateToSettings={navigateToSettings}
+                    onNavigateToClients={navigateToClients}
+                    onNavigateToDashboard={navigateToDashboard}
+                    onNavigateToRates={navigateToRates}
+                    onNavigateToRecord={navigateToRecord}
+                    clients={clients}
+                    records={activeHistory}
                 />
-            ) : (
+            )}
+            {route.page === 'history' && (
                 <History 
-                    records={history} 
+                    records={activeHistory} 
+                    trashedRecords={trashedHistory}
+                    clients={clients}
                     onNavigateToCalculator={navigateToCalculator}
                     onDeleteRecord={handleDeleteRecord}
+                    onRestoreRecord={handleRestoreRecord}
+                    onUpdateRecord={handleUpdateRecord}
+                    onImportRecords={handleImportRecords}
+                    filters={route.filters}
+                    sort={route.sort}
+                    // Typing in a filter rewrites the current entry instead of piling up history
+                    onQueryChange={(filters, sort) => navigate(historyUrl(filters, sort), { replace: true })}
+                    onOpenRecord={navigateToRecord}
+                    onEditRecord={(recordId) => navigate(recordUrl(recordId, true))}
+                />
+            )}
+            {route.page === 'record' && (
+                <RecordDetail
+                    key={route.recordId}
+                    record={history.find(record => record.id === route.recordId)}
+                    isLoading={!isHistoryLoaded}
+                    records={activeHistory}
+                    clients={clients}
+                    editing={route.editing}
+                    // The edit URL takes the place of the record's own entry and gives it back on close,
+                    // so Back never reopens the dialog
+                    onEdit={() => navigate(recordUrl(route.recordId, true), { replace: true })}
+                    onCloseEdit={() => navigate(recordUrl(route.recordId), { replace: true })}
                     onUpdateRecord={handleUpdateRecord}
+                    onResolveConflict={() => handleResolveConflict(route.recordId)}
+                    onNavigateToHistory={() => navigate(lastHistoryUrlRef.current)}
+                    onOpenRecord={navigateToRecord}
+                />
+            )}
+            {route.page === 'dashboard' && (
+                <Dashboard records={activeHistory} onNavigateToCalculator={navigateToCalculator} />
+            )}
+            {route.page === 'rates' && (
+                <RateHistory onNavigateToCalculator={navigateToCalculator} />
+            )}
+            {route.page === 'settings' && (
+                <Settings onNavigateToCalculator={navigateToCalculator} onBackupRestored={handleBackupRestored} />
+            )}
+            {route.page === 'clients' && (
+                <Clients
+                    clients={clients}
+                    records={activeHistory}
+                    onNavigateToCalculator={navigateToCalculator}
+                    onSaveClient={handleSaveClient}
+                    onDeleteClient={handleDeleteClient}
                 />
             )}
         </div>
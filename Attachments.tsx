@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import type { Attachment } from './App';
+import { ACCEPTED_ATTACHMENT_TYPES, formatFileSize, isImageAttachment, isPdfAttachment } from './services/attachments';
+import { t } from './services/i18n';
+
+// --- Dropzone ---
+
+interface AttachmentDropzoneProps {
+    id: string;
+    onFiles: (files: File[]) => void;
+}
+
+export const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({ id, onFiles }) => {
+    const [isDragging, setIsDragging] = useState(false);
+
+    const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const files = Array.from(e.dataTransfer.files).filter(file => isImageAttachment(file) || isPdfAttachment(file));
+        if (files.length < e.dataTransfer.files.length) {
+            alert(t('attachments.onlyImagesAndPdf'));
+        }
+        if (files.length > 0) {
+            onFiles(files);
+        }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        // Allow picking the same file again after removing it
+        e.target.value = '';
+        if (files.length > 0) {
+            onFiles(files);
+        }
+    };
+
+    return (
+        <label
+            htmlFor={id}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center gap-1 p-4 border-2 border-dashed rounded-lg cursor-pointer text-sm text-center transition-colors ${isDragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-gray-300 dark:border-gray-600 hover:border-blue-400'}`}
+        >
+            <span className="font-semibold text-blue-700 dark:text-blue-300">{t('attachments.dropHere')}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{t('attachments.dropHint')}</span>
+            <input id={id} type="file" multiple accept={ACCEPTED_ATTACHMENT_TYPES} onChange={handleChange} className="sr-only" />
+        </label>
+    );
+};
+
+// --- Attachment List ---
+
+interface AttachmentListProps {
+    attachments: Attachment[];
+    onOpen: (id: string) => void;
+    onRemove?: (id: string) => void;
+    onMontoChange?: (id: string, monto: number | undefined) => void;
+    renderActions?: (attachment: Attachment) => React.ReactNode;
+}
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onOpen, onRemove, onMontoChange, renderActions }) => (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {attachments.map(attachment => (
+            <li key={attachment.id} className="flex flex-wrap items-center gap-3 p-2 text-sm">
+                <button
+                    type="button"
+                    onClick={() => onOpen(attachment.id)}
+                    disabled={!attachment.url}
+                    className="flex items-center gap-2 min-w-0 flex-1 text-left disabled:cursor-default"
+                    title={attachment.name}
+                >
+                    {attachment.url && isImageAttachment(attachment) ? (
+                        <img src={attachment.url} alt="" className="w-10 h-10 object-cover rounded" />
+                    ) : (
+                        <span className="w-10 h-10 flex items-center justify-center rounded bg-gray-200 dark:bg-gray-700 text-xs font-semibold text-gray-600 dark:text-gray-300">
+                            {isPdfAttachment(attachment) ? 'PDF' : 'ARCH'}
+                        </span>
+                    )}
+                    <span className="min-w-0">
+                        <span className={`block truncate ${attachment.url ? 'text-blue-600 dark:text-blue-400 underline' : 'text-gray-700 dark:text-gray-300'}`}>{attachment.name}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{attachment.size > 0 ? formatFileSize(attachment.size) : t('attachments.noFile')}</span>
+                    </span>
+                </button>
+                {onMontoChange ? (
+                    <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder={t('attachments.amountPlaceholder')}
+                        aria-label={t('attachments.amountOf', { name: attachment.name })}
+                        value={attachment.monto ?? ''}
+                        onChange={(e) => onMontoChange(attachment.id, parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined)}
+                        className="w-32 bg-gray-100 dark:bg-gray-700 rounded-md p-1.5 text-right font-mono text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                ) : attachment.monto !== undefined && (
+                    <span className="font-mono text-gray-600 dark:text-gray-300">{attachment.monto.toFixed(2)}</span>
+                )}
+                {renderActions?.(attachment)}
+                {onRemove && (
+                    <button type="button" onClick={() => onRemove(attachment.id)} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 font-medium">
+                        Quitar
+                    </button>
+                )}
+            </li>
+        ))}
+    </ul>
+);
+
+// --- Lightbox ---
+
+interface AttachmentLightboxProps {
+    // Only attachments with a file; entries without a URL cannot be shown
+    attachments: Attachment[];
+    index: number;
+    onIndexChange: (index: number) => void;
+    onClose: () => void;
+}
+
+export const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({ attachments, index, onIndexChange, onClose }) => {
+    const attachment = attachments[index];
+    const hasPrevious = index > 0;
+    const hasNext = index < attachments.length - 1;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            if (e.key === 'ArrowLeft' && hasPrevious) onIndexChange(index - 1);
+            if (e.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [index, hasPrevious, hasNext, onIndexChange, onClose]);
+
+    if (!attachment) return null;
+
+    const navButtonClassName = "px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white font-semibold disabled:opacity-30 disabled:cursor-not-allowed";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex flex-col p-4 z-[60]" aria-modal="true" role="dialog" onClick={onClose}>
+            <header className="flex items-center gap-3 text-white text-sm mb-3" onClick={(e) => e.stopPropagation()}>
+                <span className="truncate flex-1" title={attachment.name}>
+                    {attachment.name}{attachments.length > 1 && ` ${t('attachments.position', { index: index + 1, count: attachments.length })}`}
+                </span>
+                <a href={attachment.url} download={attachment.name} className="underline hover:text-blue-300">{t('attachments.download')}</a>
+                <button type="button" onClick={onClose} className={navButtonClassName} aria-label={t('common.close')}>✕</button>
+            </header>
+            <main className="flex-1 flex items-center justify-center gap-3 min-h-0" onClick={(e) => e.stopPropagation()}>
+                <button type="button" onClick={() => onIndexChange(index - 1)} disabled={!hasPrevious} className={navButtonClassName} aria-label={t('attachments.previous')}>‹</button>
+                <div className="flex-1 h-full flex items-center justify-center min-w-0">
+                    {isPdfAttachment(attachment) ? (
+                        <iframe src={attachment.url} title={attachment.name} className="w-full h-full bg-white rounded" />
+                    ) : isImageAttachment(attachment) ? (
+                        <img src={attachment.url} alt={attachment.name} className="max-w-full max-h-full object-contain" />
+                    ) : (
+                        <p className="text-white">{t('attachments.noPreview')}</p>
+                    )}
+                </div>
+                <button type="button" onClick={() => onIndexChange(index + 1)} disabled={!hasNext} className={navButtonClassName} aria-label={t('attachments.next')}>›</button>
+            </main>
+        </div>
+    );
+};
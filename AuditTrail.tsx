@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import type { LiquidationRecord } from './App';
+import { auditActionLabel, auditFieldLabel, formatAuditValue, type AuditEntry } from './services/auditLog';
+import { formatDateTime, t } from './services/i18n';
+import { loadAuditLog } from './services/storageService';
+
+// --- Change History Modal ---
+interface AuditTrailModalProps {
+    record: LiquidationRecord;
+    clientName: (clientId?: string) => string;
+    onClose: () => void;
+}
+
+const actionBadgeClassName: Record<AuditEntry['action'], string> = {
+    create: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    update: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    delete: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    restore: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+};
+
+const AuditTrailModal: React.FC<AuditTrailModalProps> = ({ record, clientName, onClose }) => {
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+    useEffect(() => {
+        loadAuditLog(record.id)
+            .then(log => setEntries([...log].reverse()))
+            .catch(err => {
+                alert(err instanceof Error ? err.message : t('audit.loadFailed'));
+                setEntries([]);
+            });
+    }, [record.id]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center p-4 z-50" aria-modal="true" role="dialog" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
+                <header className="p-5 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{t('audit.title')}</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {t('payments.settlementOf', { date: record.fecha })}{record.clienteId ? ` · ${clientName(record.clienteId)}` : ''}
+                    </p>
+                </header>
+                <main className="p-6 max-h-[70vh] overflow-y-auto">
+                    {entries === null ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{t('audit.loading')}</p>
+                    ) : entries.length === 0 ? (
+                        // Records saved before the audit trail existed have no entries
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{t('audit.empty')}</p>
+                    ) : (
+                        <ol className="space-y-4">
+                            {entries.map(entry => (
+                                <li key={entry.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${actionBadgeClassName[entry.action]}`}>
+                                            {auditActionLabel(entry.action)}
+                                        </span>
+                                        <span className="text-gray-600 dark:text-gray-300">{formatDateTime(entry.at)}</span>
+                                    </div>
+                                    {entry.reason && (
+                                        <p className="mt-2 text-sm text-gray-700 dark:text-gray-200"><span className="font-semibold">{t('audit.reason')}</span> {entry.reason}</p>
+                                    )}
+                                    {entry.action === 'update' && entry.changes.length > 0 && (
+                                        <table className="mt-2 w-full text-sm">
+                                            <thead>
+                                                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                                                    <th className="py-1 pr-4">{t('audit.field')}</th>
+                                                    <th className="py-1 pr-4">{t('audit.before')}</th>
+                                                    <th className="py-1">{t('audit.after')}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="text-gray-700 dark:text-gray-200">
+                                                {entry.changes.map(change => (
+                                                    <tr key={change.field} className="align-top">
+                                                        <td className="py-1 pr-4 font-medium">{auditFieldLabel(change.field)}</td>
+                                                        <td className="py-1 pr-4 font-mono text-red-700 dark:text-red-300 break-all">{formatAuditValue(change.field, change.before, clientName)}</td>
+                                                        <td className="py-1 font-mono text-green-700 dark:text-green-300 break-all">{formatAuditValue(change.field, change.after, clientName)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </main>
+                <footer className="flex justify-end p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default AuditTrailModal;
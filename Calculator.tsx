@@ -1,33 +1,44 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { fetchBrlCopRate } from './services/exchangeRateService';
-import type { LiquidationRecord } from './App';
+import { fetchRate, saveManualRate, type RateQuote } from './services/exchangeRateService';
+import { loadRateValidationConfig, validateManualRate, validateRateQuote } from './services/rateValidation';
+import { findRateForDate, logRateQuote, rateLogDate, type RateLogEntry } from './services/rateHistory';
+import { loadRateLog } from './services/storageService';
+import { describeRuleSet, loadActiveRuleSetId, loadRuleSets, saveActiveRuleSetId, withChannelDefaults } from './services/commissionService';
+import { getActiveChannels, loadChannels } from './services/channelService';
+import { CURRENCY_PAIRS, DEFAULT_PAIR, findPairById, formatCurrency, marketOf, pairLabel, pairOf, rateDirection, type CurrencyPair } from './services/currencyPairs';
+import { calculateLiquidation } from './services/liquidationCalculator';
+import { fromCents, toCents } from './services/money';
+import { matchReceiptChannel, readReceipt, type ReceiptData } from './services/receiptReader';
+import {
+    createPendingAttachments,
+    findDuplicateReceipts,
+    indexReceiptHashes,
+    revokeAttachmentUrls,
+    toAttachment,
+    type PendingAttachment,
+} from './services/attachments';
+import { AttachmentDropzone, AttachmentLightbox, AttachmentList } from './Attachments';
+import type { Client, LiquidationRecord } from './App';
+import AmountInput from './AmountInput';
+import { formatAmountInput, formatDateTime, formatNumber, formatTime, t } from './services/i18n';
 
 // --- Helper Functions and Components ---
 
-const formatCurrency = (value: number, currencyCode: 'COP' | 'BRL') => {
-    const locale = currencyCode === 'COP' ? 'es-CO' : 'pt-BR';
-    return new Intl.NumberFormat(locale, {
-        style: 'currency',
-        currency: currencyCode,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-    }).format(value);
-};
-
 const Spinner: React.FC = () => (
     <div role="status" className="flex justify-center items-center space-x-2">
         <div className="w-3 h-3 rounded-full animate-pulse bg-blue-800 dark:bg-blue-200"></div>
         <div className="w-3 h-3 rounded-full animate-pulse bg-blue-800 dark:bg-blue-200" style={{ animationDelay: '0.1s' }}></div>
         <div className="w-3 h-3 rounded-full animate-pulse bg-blue-800 dark:bg-blue-200" style={{ animationDelay: '0.2s' }}></div>
-        <span className="sr-only">Loading...</span>
+        <span className="sr-only">{t('common.loading')}</span>
     </div>
 );
 
 interface CurrencyInputRowProps {
     label: string;
+    // Plain decimal string; see AmountInput
     value: string;
-    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onChange: (value: string) => void;
     currencySymbol: string;
 }
 
@@ -36,14 +47,12 @@ const CurrencyInputRow: React.FC<CurrencyInputRowProps> = ({ label, value, onCha
         <span className="text-gray-600 dark:text-gray-300 text-lg">{label}</span>
         <div className="relative">
             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">{currencySymbol}</span>
-            <input
-                type="text"
-                inputMode="decimal"
+            <AmountInput
                 value={value}
                 onChange={onChange}
-                placeholder="0.00"
+                placeholder={formatAmountInput('0.00')}
                 className="w-44 text-right bg-gray-100 dark:bg-gray-700 focus:bg-white dark:focus:bg-gray-600 rounded-md py-2 pl-8 pr-3 text-lg text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 transition-all"
-                aria-label={`${label} input`}
+                aria-label={t('calculator.amountInput', { label })}
             />
         </div>
     </div>
@@ -76,103 +85,296 @@ const ResultRow: React.FC<ResultRowProps> = ({ label, value, formula, boldLabel
 // --- Calculator Component ---
 
 interface CalculatorProps {
-    onAddToHistory: (recordData: Omit<LiquidationRecord, 'id' | 'comprobanteUrl'> & { file: File }) => void;
+    // Resolves to whether the record was saved; on success the attachments' object URLs belong to the record
+    onAddToHistory: (recordData: Omit<LiquidationRecord, 'id' | 'comprobantes' | 'estado' | 'pagos'> & { attachments: PendingAttachment[] }) => Promise<boolean>;
     onNavigateToHistory: () => void;
+    onNavigateToSettings: () => void;
+    onNavigateToClients: () => void;
+    onNavigateToDashboard: () => void;
+    onNavigateToRates: () => void;
+    // Opens the history on a given record
+    onNavigateToRecord: (recordId: string) => void;
+    clients: Client[];
+    records: LiquidationRecord[];
 }
 
-const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHistory }) => {
-    const [nequi, setNequi] = useState('');
-    const [bancolombia, setBancolombia] = useState('');
-    const [daviplata, setDaviplata] = useState('');
+const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHistory, onNavigateToSettings, onNavigateToClients, onNavigateToDashboard, onNavigateToRates, onNavigateToRecord, clients, records }) => {
+    const [channels] = useState(loadChannels);
+    const activeChannels = useMemo(() => getActiveChannels(channels), [channels]);
+    const [pairId, setPairId] = useState(DEFAULT_PAIR.id);
+    const pair = findPairById(pairId) ?? DEFAULT_PAIR;
+    const market = marketOf(pair);
+    // The payment channels are COP accounts; money received in another currency is typed as one amount
+    const usesChannels = pair.source === 'COP';
+    const [amounts, setAmounts] = useState<Record<string, string>>({});
+    const [sourceAmount, setSourceAmount] = useState('');
     const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-    const [comprobanteFile, setComprobanteFile] = useState<File | null>(null);
+    const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+    // What the receipt reader found, per attachment id
+    const [receiptData, setReceiptData] = useState<Record<string, ReceiptData>>({});
+    const [readingAttachmentId, setReadingAttachmentId] = useState<string | null>(null);
+    const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+    const [clientId, setClientId] = useState('');
+    const [ruleSets] = useState(loadRuleSets);
+    const [ruleSetId, setRuleSetId] = useState(loadActiveRuleSetId);
+    const selectedRuleSet = ruleSets.find(rs => rs.id === ruleSetId) ?? ruleSets[0];
+    const ruleSet = useMemo(() => withChannelDefaults(selectedRuleSet, channels), [selectedRuleSet, channels]);
 
-    const [brlCopRate, setBrlCopRate] = useState<number | null>(null);
+    const [rateQuote, setRateQuote] = useState<RateQuote | null>(null);
+    const [rateLog, setRateLog] = useState<RateLogEntry[]>([]);
+    // Use the live quote even though the selected date is in the past
+    const [preferLiveRate, setPreferLiveRate] = useState(false);
+    const [overrideInput, setOverrideInput] = useState('');
+    const [rateConfirmed, setRateConfirmed] = useState(false);
     const [isLoadingRate, setIsLoadingRate] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
-    
-    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Pending files not registered yet still own their object URLs
+    const attachmentsRef = useRef(attachments);
+    attachmentsRef.current = attachments;
+    useEffect(() => () => revokeAttachmentUrls(attachmentsRef.current), []);
+
+    // Answers for a market the operator already switched away from are dropped
+    const marketRef = useRef(market);
+    marketRef.current = market;
+
+    const getRate = async (target: CurrencyPair) => {
+        const isCurrent = () => marketOf(target) === marketRef.current;
+        try {
+            setError(null);
+            setIsLoadingRate(true);
+            const quote = await fetchRate(target);
+            const logged = await logRateQuote(quote);
+            setRateLog(prev => [...prev, ...logged]);
+            if (!isCurrent()) return;
+            setRateQuote(quote);
+            setRateConfirmed(false);
+        } catch (err) {
+            if (!isCurrent()) return;
+            const errorMessage = err instanceof Error ? err.message : t('common.unknownError');
+            setError(errorMessage);
+            setRateQuote(null);
+        } finally {
+            if (isCurrent()) setIsLoadingRate(false);
+        }
+    };
 
     useEffect(() => {
-        const getRate = async () => {
-            try {
-                setError(null);
-                setIsLoadingRate(true);
-                const rate = await fetchBrlCopRate();
-                setBrlCopRate(rate);
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-                setError(errorMessage);
-                setBrlCopRate(0);
-            } finally {
-                setIsLoadingRate(false);
-            }
-        };
-        getRate();
+        // The log only feeds date-aware proposals; without it the live quote is used
+        loadRateLog().then(entries => setRateLog(prev => [...entries, ...prev])).catch(() => undefined);
     }, []);
 
-    const handleInputChange = (setter: React.Dispatch<React.SetStateAction<string>>) => (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { value } = e.target;
-        if (/^\d*\.?\d*$/.test(value)) {
-            setter(value);
+    // COP → BRL and BRL → COP share the BRL/COP quote, so switching between them keeps it
+    useEffect(() => {
+        setRateQuote(null);
+        setOverrideInput('');
+        getRate(pair);
+    }, [market]);
+
+    // A stale or failed quote is fetched again as soon as connectivity returns
+    const needsRateRetry = !isLoadingRate && (error !== null || rateQuote?.stale === true);
+    useEffect(() => {
+        if (!needsRateRetry) return;
+        const handleOnline = () => getRate(pair);
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [needsRateRetry, market]);
+
+    // A valid manual override always wins over the fetched quote
+    const overrideRate = parseFloat(overrideInput) > 0 ? parseFloat(overrideInput) : null;
+    // A past date gets the rate logged for that day (or the nearest one) instead of today's quote
+    const today = new Date().toISOString().split('T')[0];
+    const dateRate = useMemo(
+        () => (selectedDate !== today ? findRateForDate(rateLog, selectedDate, market) : null),
+        [rateLog, selectedDate, today, market]
+    );
+    useEffect(() => setPreferLiveRate(false), [selectedDate]);
+    const activeQuote = useMemo<RateQuote | null>(
+        () => (dateRate && !preferLiveRate ? { ...dateRate.entry, market } : rateQuote),
+        [dateRate, preferLiveRate, rateQuote, market]
+    );
+    // A confirmation only covers the quote or manual rate it was given for
+    useEffect(() => setRateConfirmed(false), [activeQuote, overrideRate]);
+    const rate = overrideRate ?? activeQuote?.rate ?? null;
+
+    // Records are newest first; only rates of the same market are comparable
+    const lastAcceptedRate = useMemo(
+        () => records.find(record => marketOf(pairOf(record)) === market)?.tasa ?? null,
+        [records, market]
+    );
+
+    // A manual rate goes through the same band and deviation checks as a fetched one
+    const rateIssues = useMemo(() => {
+        const config = loadRateValidationConfig();
+        if (overrideRate !== null) return validateManualRate(overrideRate, market, lastAcceptedRate, config);
+        return activeQuote ? validateRateQuote(activeQuote, lastAcceptedRate, config) : [];
+    }, [overrideRate, activeQuote, lastAcceptedRate, market]);
+    // Suspicious rates block registration until confirmed, or until a fetched quote is replaced by a valid override
+    const isRateBlocked = rateIssues.length > 0 && !rateConfirmed;
+
+    const handleAmountChange = (channelId: string) => (value: string) =>
+        setAmounts(prev => ({ ...prev, [channelId]: value }));
+
+    // Only active channels count; amounts typed before a channel was archived are ignored
+    const activeAmounts = useMemo(
+        () => Object.fromEntries(activeChannels.map(channel => [channel.id, amounts[channel.id] ?? ''])),
+        [activeChannels, amounts]
+    );
+
+    const { saldoMovimiento, comision, porcentajeComision, liquido, totalDestino } = useMemo(
+        () => usesChannels
+            ? calculateLiquidation({ ruleSet, amounts: activeAmounts, rate, pair })
+            : calculateLiquidation({ ruleSet, total: sourceAmount, rate, pair }),
+        [usesChannels, activeAmounts, sourceAmount, rate, pair, ruleSet]
+    );
+
+    const handlePairChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setPairId(e.target.value);
+    };
+
+    const handleRuleSetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setRuleSetId(e.target.value);
+        saveActiveRuleSetId(e.target.value);
+    };
+
+    const handleClientChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setClientId(e.target.value);
+        // Preselect the client's agreed commission without changing the global default
+        const client = clients.find(c => c.id === e.target.value);
+        if (client?.reglaComisionId && ruleSets.some(rs => rs.id === client.reglaComisionId)) {
+            setRuleSetId(client.reglaComisionId);
         }
     };
-    
-    const { saldoMovimiento, comision, liquidoCOP, totalBRL } = useMemo(() => {
-        const nequiValue = parseFloat(nequi) || 0;
-        const bancolombiaValue = parseFloat(bancolombia) || 0;
-        const daviplataValue = parseFloat(daviplata) || 0;
-        const saldo = nequiValue + bancolombiaValue + daviplataValue;
-        const com = saldo * 0.10;
-        const liquido = saldo - com;
-        const brl = brlCopRate && brlCopRate > 0 ? liquido / brlCopRate : 0;
-        return { saldoMovimiento: saldo, comision: com, liquidoCOP: liquido, totalBRL: brl };
-    }, [nequi, bancolombia, daviplata, brlCopRate]);
-
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setComprobanteFile(e.target.files[0]);
-        } else {
-            setComprobanteFile(null);
+
+    const handleAddFiles = async (files: File[]) => {
+        const added = await createPendingAttachments(files);
+        // The same file twice on one liquidation is always a mistake
+        const knownHashes = new Set(attachments.map(a => a.sha256).filter(Boolean));
+        const repeated = added.filter(a => a.sha256 && knownHashes.has(a.sha256));
+        if (repeated.length > 0) {
+            revokeAttachmentUrls(repeated);
+            alert(t('calculator.fileAlreadyAttached', { files: repeated.map(a => a.file.name).join(', ') }));
         }
+        setAttachments(prev => [...prev, ...added.filter(a => !repeated.includes(a))]);
     };
 
-    const handleRegisterClick = () => {
-        if (liquidoCOP <= 0 || !brlCopRate || !comprobanteFile) {
-            alert("Para registrar, asegúrese de que el 'Líquido COP' sea mayor a cero y que haya adjuntado un comprobante.");
+    const duplicateReceipts = useMemo(
+        () => findDuplicateReceipts(attachments.map(toAttachment), indexReceiptHashes(records)),
+        [attachments, records]
+    );
+
+    const handleRemoveAttachment = (id: string) => {
+        revokeAttachmentUrls(attachments.filter(a => a.id === id));
+        setAttachments(prev => prev.filter(a => a.id !== id));
+        setReceiptData(({ [id]: _removed, ...rest }) => rest);
+    };
+
+    const handleAttachmentMontoChange = (id: string, monto: number | undefined) => {
+        setAttachments(prev => prev.map(a => (a.id === id ? { ...a, monto } : a)));
+    };
+
+    const handleReadReceipt = async (attachment: PendingAttachment) => {
+        setReadingAttachmentId(attachment.id);
+        try {
+            const data = await readReceipt(attachment.file);
+            setReceiptData(prev => ({ ...prev, [attachment.id]: data }));
+            if (data.date) {
+                setSelectedDate(data.date);
+            }
+            if (data.amount !== null) {
+                handleAttachmentMontoChange(attachment.id, data.amount);
+                // Only prefill an empty channel; otherwise the mismatch warning speaks
+                const channel = matchReceiptChannel(activeChannels, data.channel) ?? activeChannels[0];
+                if (!usesChannels) {
+                    if (!(parseFloat(sourceAmount) > 0)) setSourceAmount(String(data.amount));
+                } else if (channel && !(parseFloat(activeAmounts[channel.id]) > 0)) {
+                    setAmounts(prev => ({ ...prev, [channel.id]: String(data.amount) }));
+                }
+            }
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('receipts.readFailed'));
+        } finally {
+            setReadingAttachmentId(null);
+        }
+    };
+
+    // Only comparable once every attachment carries its amount
+    const attachmentsTotal = attachments.length > 0 && attachments.every(a => a.monto !== undefined)
+        ? fromCents(attachments.reduce<bigint>((sum, a) => sum + toCents(a.monto!), 0n))
+        : null;
+    const receiptMismatch = attachmentsTotal !== null && saldoMovimiento > 0 && toCents(saldoMovimiento) !== toCents(attachmentsTotal);
+
+    const handleRegisterClick = async () => {
+        if (liquido <= 0 || !rate || attachments.length === 0) {
+            alert(t('calculator.registerMissing', { currency: pair.source }));
+            return;
+        }
+        if (isRateBlocked) {
+            alert(t('calculator.confirmRateFirst'));
+            return;
+        }
+        if (duplicateReceipts.length > 0 && !window.confirm(
+            `${t(duplicateReceipts.length === 1 ? 'calculator.duplicateConfirmOne' : 'calculator.duplicateConfirmMany')}\n` +
+            duplicateReceipts.map(d => `- ${t('receipts.duplicateLine', { name: d.name, date: d.record.fecha, amount: formatCurrency(d.record.valorOrigen, d.record.monedaOrigen) })}`).join('\n') +
+            `\n\n${t('calculator.duplicateConfirmQuestion')}`
+        )) {
             return;
         }
 
-        onAddToHistory({
+        const references = attachments.map(a => receiptData[a.id]?.reference).filter(Boolean);
+        const saved = await onAddToHistory({
             fecha: selectedDate,
-            valorCop: saldoMovimiento,
-            comisionCop: comision,
-            liquidoCop: liquidoCOP,
-            tasaBrlCop: brlCopRate,
-            totalBrl: totalBRL,
-            file: comprobanteFile,
-            comprobanteName: comprobanteFile.name
+            monedaOrigen: pair.source,
+            monedaDestino: pair.target,
+            direccionTasa: rateDirection(pair),
+            valorOrigen: saldoMovimiento,
+            montosPorCanal: usesChannels
+                ? Object.fromEntries(Object.entries(activeAmounts).map(([channelId, value]) => [channelId, fromCents(toCents(value))]))
+                : {},
+            comisionOrigen: comision,
+            liquidoOrigen: liquido,
+            tasa: rate,
+            totalDestino,
+            attachments,
+            referencia: references.length > 0 ? references.join(', ') : undefined,
+            tasaFuente: overrideRate !== null ? 'Manual' : activeQuote?.provider,
+            tasaFecha: overrideRate !== null ? new Date().toISOString() : activeQuote?.fetchedAt,
+            tasaCotizada: overrideRate !== null ? activeQuote?.rate : undefined,
+            reglaComision: ruleSet,
+            porcentajeComision,
+            clienteId: clientId || undefined,
         });
+        if (!saved) return;
 
-        setNequi('');
-        setBancolombia('');
-        setDaviplata('');
-        setComprobanteFile(null);
-        if (fileInputRef.current) {
-            fileInputRef.current.value = '';
+        if (overrideRate !== null) {
+            saveManualRate(overrideRate, market);
         }
+
+        setAmounts({});
+        setSourceAmount('');
+        // The URLs now belong to the registered record, so they are not revoked here
+        setAttachments([]);
+        setReceiptData({});
     };
     
     return (
         <div className="flex flex-col items-center justify-start p-4 pt-8 pb-12">
+            {lightboxIndex !== null && (
+                <AttachmentLightbox
+                    attachments={attachments.map(toAttachment)}
+                    index={lightboxIndex}
+                    onIndexChange={setLightboxIndex}
+                    onClose={() => setLightboxIndex(null)}
+                />
+            )}
             <div className="w-full max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl overflow-hidden">
                 <header className="bg-slate-200 dark:bg-slate-700 p-5 flex flex-wrap justify-center sm:justify-between items-center gap-4">
                     <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 tracking-wider">
-                        LIQUIDACION
+                        {t('calculator.title')}
                     </h1>
                     <input
                         type="date"
-                        aria-label="Fecha de liquidación"
+                        aria-label={t('calculator.date')}
                         value={selectedDate}
                         onChange={(e) => setSelectedDate(e.target.value)}
                         className="bg-gray-100 dark:bg-gray-700 focus:bg-white dark:focus:bg-gray-600 rounded-md p-2 text-lg text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 transition-all"
@@ -180,26 +382,79 @@ const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHis
                 </header>
 
                 <main className="p-6 space-y-2">
-                    <CurrencyInputRow label="Nequi" value={nequi} onChange={handleInputChange(setNequi)} currencySymbol="$" />
-                    <CurrencyInputRow label="Bancolombia" value={bancolombia} onChange={handleInputChange(setBancolombia)} currencySymbol="$" />
-                    <CurrencyInputRow label="Daviplata" value={daviplata} onChange={handleInputChange(setDaviplata)} currencySymbol="$" />
+                    <div className="flex justify-between items-center py-3">
+                        <label htmlFor="client-picker" className="text-gray-600 dark:text-gray-300 text-lg">{t('common.client')}</label>
+                        <select
+                            id="client-picker"
+                            value={clientId}
+                            onChange={handleClientChange}
+                            className="w-44 bg-gray-100 dark:bg-gray-700 focus:bg-white dark:focus:bg-gray-600 rounded-md py-2 px-3 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 transition-all"
+                        >
+                            <option value="">{t('common.noClient')}</option>
+                            {clients.map(client => <option key={client.id} value={client.id}>{client.nombre}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex justify-between items-center py-3">
+                        <label htmlFor="pair-picker" className="text-gray-600 dark:text-gray-300 text-lg">{t('calculator.operation')}</label>
+                        <select
+                            id="pair-picker"
+                            value={pair.id}
+                            onChange={handlePairChange}
+                            className="w-44 bg-gray-100 dark:bg-gray-700 focus:bg-white dark:focus:bg-gray-600 rounded-md py-2 px-3 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 transition-all"
+                        >
+                            {CURRENCY_PAIRS.map(p => <option key={p.id} value={p.id}>{pairLabel(p)}</option>)}
+                        </select>
+                    </div>
+                    {!usesChannels && (
+                        <CurrencyInputRow
+                            label={t('calculator.receivedAmount', { currency: pair.source })}
+                            value={sourceAmount}
+                            onChange={setSourceAmount}
+                            currencySymbol={pair.source === 'BRL' ? 'R$' : '$'}
+                        />
+                    )}
+                    {usesChannels && activeChannels.map(channel => (
+                        <CurrencyInputRow
+                            key={channel.id}
+                            label={channel.label}
+                            value={amounts[channel.id] ?? ''}
+                            onChange={handleAmountChange(channel.id)}
+                            currencySymbol="$"
+                        />
+                    ))}
+                    {usesChannels && activeChannels.length === 0 && (
+                        <p className="py-3 text-center text-sm text-gray-500 dark:text-gray-400">
+                            {t('calculator.noActiveChannels')}
+                        </p>
+                    )}
                 </main>
 
                 <hr className="border-gray-200 dark:border-gray-700" />
                 
                 <section className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                      <ResultRow
-                        label="Saldo Movimiento"
-                        value={formatCurrency(saldoMovimiento, 'COP')}
-                        formula="=Nequi+Bancolombia+Daviplata"
+                        label={t('calculator.balance')}
+                        value={formatCurrency(saldoMovimiento, pair.source)}
+                        formula={usesChannels ? `=${activeChannels.map(channel => channel.label).join('+')}` : undefined}
                         boldLabel
                         labelClassName="text-gray-800 dark:text-gray-100"
                         valueClassName="text-blue-600 dark:text-blue-400"
                     />
+                    <div className="flex justify-between items-center py-3 px-6">
+                        <label htmlFor="rule-set" className="text-sm text-gray-600 dark:text-gray-300">{t('calculator.ruleSet')}</label>
+                        <select
+                            id="rule-set"
+                            value={ruleSet.id}
+                            onChange={handleRuleSetChange}
+                            className="bg-gray-100 dark:bg-gray-700 rounded-md py-1 px-2 text-sm text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {ruleSets.map(rs => <option key={rs.id} value={rs.id}>{rs.name}</option>)}
+                        </select>
+                    </div>
                      <ResultRow
-                        label="Comision 10%"
-                        value={formatCurrency(comision, 'COP')}
-                        formula="=Saldo Movimiento * 10%"
+                        label={t('calculator.commission', { percent: formatNumber(porcentajeComision > 0 ? Number(porcentajeComision.toFixed(2)) : ruleSet.percent) })}
+                        value={formatCurrency(comision, pair.source)}
+                        formula={describeRuleSet(ruleSet)}
                         labelClassName="text-gray-600 dark:text-gray-300"
                         valueClassName="text-red-600 dark:text-red-400"
                     />
@@ -207,9 +462,9 @@ const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHis
 
                 <section className="bg-amber-300 dark:bg-amber-500">
                      <ResultRow
-                        label="Liquido"
-                        value={formatCurrency(liquidoCOP, 'COP')}
-                        formula="=Saldo Movimiento - Comision"
+                        label={t('calculator.net')}
+                        value={formatCurrency(liquido, pair.source)}
+                        formula={t('calculator.netFormula')}
                         boldLabel
                         containerClassName="text-black"
                     />
@@ -219,35 +474,90 @@ const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHis
                     <div className="flex flex-col gap-4">
                         <div>
                             <label htmlFor="comprobante-input" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                                Comprobante <span className="text-red-500 font-bold">*</span>
+                                {t('common.receipts')} <span className="text-red-500 font-bold">*</span>
                             </label>
-                            <div className="flex items-center gap-4">
-                                <input
-                                    ref={fileInputRef}
-                                    id="comprobante-input"
-                                    type="file"
-                                    accept="image/*,.pdf"
-                                    onChange={handleFileChange}
-                                    className="block w-full text-sm text-gray-500 dark:text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-100 dark:file:bg-blue-900 file:text-blue-700 dark:file:text-blue-300 hover:file:bg-blue-200 dark:hover:file:bg-blue-800 cursor-pointer"
-                                />
-                                {comprobanteFile && <span className="text-sm text-gray-500 truncate">{comprobanteFile.name}</span>}
-                            </div>
+                            <AttachmentDropzone id="comprobante-input" onFiles={handleAddFiles} />
+                            {attachments.length > 0 && (
+                                <div className="mt-3">
+                                    <AttachmentList
+                                        attachments={attachments.map(toAttachment)}
+                                        onOpen={(id) => setLightboxIndex(attachments.findIndex(a => a.id === id))}
+                                        onRemove={handleRemoveAttachment}
+                                        onMontoChange={handleAttachmentMontoChange}
+                                        renderActions={(attachment) => {
+                                            const data = receiptData[attachment.id];
+                                            return (
+                                                <>
+                                                    {data && (
+                                                        <span className="basis-full order-last text-xs text-gray-500 dark:text-gray-400">
+                                                            {data.amount !== null ? formatCurrency(data.amount, pair.source) : t('calculator.amountUnreadable')}
+                                                            {data.date && ` · ${data.date}`}
+                                                            {data.channel && ` · ${data.channel}`}
+                                                            {data.reference && ` · ${t('common.referenceShort', { reference: data.reference })}`}
+                                                            {` (${data.reader})`}
+                                                        </span>
+                                                    )}
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => handleReadReceipt(attachments.find(a => a.id === attachment.id)!)}
+                                                        disabled={readingAttachmentId !== null}
+                                                        className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium disabled:opacity-50"
+                                                    >
+                                                        {readingAttachmentId === attachment.id ? t('calculator.reading') : t('calculator.readData')}
+                                                    </button>
+                                                </>
+                                            );
+                                        }}
+                                    />
+                                    {attachmentsTotal !== null && attachments.length > 1 && (
+                                        <p className="mt-2 text-sm text-right text-gray-600 dark:text-gray-300">
+                                            {t('calculator.receiptsTotal')} <span className="font-mono">{formatCurrency(attachmentsTotal, pair.source)}</span>
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                            {duplicateReceipts.length > 0 && (
+                                <div role="alert" className="mt-2 p-3 rounded-lg bg-red-100 dark:bg-red-900/50 text-sm text-red-800 dark:text-red-200">
+                                    <p className="font-bold">{t('calculator.duplicateWarning')}</p>
+                                    <ul className="mt-1 space-y-1">
+                                        {duplicateReceipts.map(d => (
+                                            <li key={`${d.name}-${d.record.id}`}>
+                                                {t('receipts.duplicateLine', { name: d.name, date: d.record.fecha, amount: formatCurrency(d.record.valorOrigen, d.record.monedaOrigen) })}{' '}
+                                                <button type="button" onClick={() => onNavigateToRecord(d.record.id)} className="underline font-semibold hover:text-red-900 dark:hover:text-red-100">
+                                                    {t('common.viewRecord')}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            {receiptMismatch && (
+                                <div role="alert" className="mt-2 p-3 rounded-lg bg-yellow-100 dark:bg-yellow-900/50 text-sm text-yellow-800 dark:text-yellow-200">
+                                    {t('calculator.mismatch', { typed: formatCurrency(saldoMovimiento, pair.source), receipts: formatCurrency(attachmentsTotal!, pair.source) })}
+                                </div>
+                            )}
                         </div>
                          <div className="flex flex-col sm:flex-row gap-3">
                             <button
                                 onClick={handleRegisterClick}
-                                disabled={liquidoCOP <= 0 || isLoadingRate || !comprobanteFile}
+                                disabled={liquido <= 0 || isLoadingRate || !rate || isRateBlocked || attachments.length === 0}
                                 className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg text-lg transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
                             >
-                                {isLoadingRate ? 'Cargando Tasa...' : 'Registrar Liquidación'}
+                                {isLoadingRate ? t('calculator.loadingRate') : t('calculator.register')}
                             </button>
                              <button
                                 onClick={onNavigateToHistory}
                                 className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg text-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
                             >
-                                Ver Historial
+                                {t('nav.history')}
                             </button>
                         </div>
+                        <div className="flex justify-center gap-6 text-sm font-medium">
+                            <button onClick={onNavigateToDashboard} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('nav.dashboard')}</button>
+                            <button onClick={onNavigateToRates} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('nav.rates')}</button>
+                            <button onClick={onNavigateToClients} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('nav.clients')}</button>
+                            <button onClick={onNavigateToSettings} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('nav.settings')}</button>
+                        </div>
                     </div>
                 </section>
                 
@@ -256,31 +566,103 @@ const Calculator: React.FC<CalculatorProps> = ({ onAddToHistory, onNavigateToHis
                         {isLoadingRate && (
                             <div className="flex items-center justify-center text-sm font-medium text-blue-800 dark:text-blue-200">
                                 <Spinner />
-                                <span className="ml-3">Obteniendo tasa de cambio BRL/COP...</span>
+                                <span className="ml-3">{t('calculator.fetchingRate', { market })}</span>
                             </div>
                         )}
                         {error && <p className="text-sm font-semibold text-red-700 dark:text-red-300">{error}</p>}
-                        {brlCopRate && !isLoadingRate && !error &&(
-                             <div className="flex items-center justify-center gap-3">
+                        {rate && !isLoadingRate && (
+                             <div className="flex flex-wrap items-center justify-center gap-3">
                                 <p className="text-sm text-blue-900 dark:text-blue-100">
-                                    Tasa de cambio: <strong>1 BRL ≈ {formatCurrency(brlCopRate, 'COP')}</strong>
+                                    {t('calculator.rate')} <strong>1 {pair.base} ≈ {formatCurrency(rate, pair.quote)}</strong>
                                 </p>
+                                <span className="px-2 py-1 text-xs font-medium text-blue-900 dark:text-blue-100 bg-blue-100 dark:bg-blue-900 rounded-md" title={activeQuote ? t('calculator.fetchedAt', { date: formatDateTime(activeQuote.fetchedAt) }) : undefined}>
+                                    {overrideRate !== null ? t('common.manual') : activeQuote?.provider}
+                                </span>
+                                {overrideRate === null && activeQuote?.stale && (
+                                    <span
+                                        className="px-2 py-1 text-xs font-semibold text-yellow-900 bg-yellow-200 dark:text-yellow-100 dark:bg-yellow-700 rounded-md"
+                                        title={t('calculator.staleTitle')}
+                                    >
+                                        {t('calculator.stale', { date: formatDateTime(activeQuote.fetchedAt) })}
+                                    </span>
+                                )}
                                 <a
-                                    href="https://www.google.com/finance/quote/BRL-COP"
+                                    href={`https://www.google.com/finance/quote/${pair.base}-${pair.quote}`}
                                     target="_blank"
                                     rel="noopener noreferrer"
-                                    aria-label="Ver fuente de la tasa de cambio en Google Finance"
+                                    aria-label={t('calculator.sourceLink')}
                                     className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-blue-200 dark:focus:ring-offset-blue-800 focus:ring-blue-500 transition-colors"
                                 >
-                                    Fuente
+                                    {t('calculator.source')}
                                 </a>
                              </div>
                         )}
+                        {!isLoadingRate && selectedDate !== today && overrideRate === null && (
+                            <div role="status" className="mt-2 p-3 text-left text-sm bg-yellow-50 dark:bg-yellow-900/40 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-900 dark:text-yellow-100">
+                                {!dateRate ? (
+                                    <p>{t('calculator.noLoggedRates', { date: selectedDate })}</p>
+                                ) : preferLiveRate ? (
+                                    <p>
+                                        {t('calculator.usingLiveRate', { date: selectedDate })}{' '}
+                                        <button type="button" onClick={() => setPreferLiveRate(false)} className="font-semibold underline">
+                                            {t('calculator.useLoggedRate', { rate: formatNumber(dateRate.entry.rate, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}
+                                        </button>
+                                    </p>
+                                ) : (
+                                    <p>
+                                        {dateRate.exact
+                                            ? t('calculator.proposedExact', { date: selectedDate, provider: dateRate.entry.provider, time: formatTime(dateRate.entry.fetchedAt) })
+                                            : t('calculator.proposedNearest', { date: selectedDate, nearest: rateLogDate(dateRate.entry), provider: dateRate.entry.provider })}{' '}
+                                        {rateQuote && (
+                                            <button type="button" onClick={() => setPreferLiveRate(true)} className="font-semibold underline">
+                                                {t('calculator.useLiveRate', { rate: formatNumber(rateQuote.rate, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}
+                                            </button>
+                                        )}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {!isLoadingRate && rateIssues.length > 0 && (
+                            <div role="alert" className="mt-2 p-3 text-left bg-red-50 dark:bg-red-900/40 border border-red-300 dark:border-red-700 rounded-md">
+                                <p className="text-sm font-semibold text-red-700 dark:text-red-300">{overrideRate !== null ? t('calculator.manualRateFailedValidation') : t('calculator.rateFailedValidation')}</p>
+                                <ul className="list-disc list-inside text-xs text-red-700 dark:text-red-300 mt-1">
+                                    {rateIssues.map(reason => <li key={reason}>{reason}</li>)}
+                                </ul>
+                                <label className="flex items-center gap-2 mt-2 text-xs font-medium text-red-800 dark:text-red-200">
+                                    <input
+                                        type="checkbox"
+                                        checked={rateConfirmed}
+                                        onChange={(e) => setRateConfirmed(e.target.checked)}
+                                    />
+                                    {t('calculator.confirmRate')}
+                                </label>
+                            </div>
+                        )}
+                        {!isLoadingRate && (
+                            <div className="flex items-center justify-center gap-2 mt-2">
+                                <label htmlFor="override-rate" className="text-xs font-medium text-blue-900 dark:text-blue-100">{t('calculator.manualRate')}</label>
+                                <AmountInput
+                                    id="override-rate"
+                                    value={overrideInput}
+                                    onChange={setOverrideInput}
+                                    placeholder={formatAmountInput(activeQuote ? activeQuote.rate.toFixed(2) : '0.00')}
+                                    className="w-28 text-right bg-white dark:bg-gray-700 rounded-md py-1 px-2 text-sm text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                {overrideInput && (
+                                    <button
+                                        onClick={() => setOverrideInput('')}
+                                        className="text-xs font-medium text-blue-700 dark:text-blue-300 underline"
+                                    >
+                                        {t('common.remove')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
                      <ResultRow
-                        label="TOTAL BRL"
-                        value={formatCurrency(totalBRL, 'BRL')}
-                        formula="=Liquido / Tasa BRL-COP"
+                        label={t('calculator.total', { currency: pair.target })}
+                        value={formatCurrency(totalDestino, pair.target)}
+                        formula={t('calculator.totalFormula', { operator: rateDirection(pair) === 'divide' ? '/' : '×', base: pair.base, quote: pair.quote })}
                         boldLabel
                         containerClassName="text-black"
                     />
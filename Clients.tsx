@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { Client, LiquidationRecord } from './App';
+import { loadRuleSets } from './services/commissionService';
+import { t } from './services/i18n';
+
+const inputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+const emptyClient = (): Client => ({ id: `${Date.now()}-${Math.random()}`, nombre: '', documento: '' });
+
+// --- Client Form Component ---
+interface ClientFormProps {
+    client: Client;
+    onSave: (client: Client) => void;
+    onCancel: () => void;
+}
+
+const ClientForm: React.FC<ClientFormProps> = ({ client, onSave, onCancel }) => {
+    const [formData, setFormData] = useState<Client>(client);
+    const [ruleSets] = useState(loadRuleSets);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        // Optional fields are dropped rather than stored as empty strings
+        setFormData(prev => ({ ...prev, [name]: value === '' && name !== 'nombre' && name !== 'documento' ? undefined : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!formData.nombre.trim()) {
+            alert(t('clients.nameRequired'));
+            return;
+        }
+        onSave({ ...formData, nombre: formData.nombre.trim(), documento: formData.documento.trim() });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="nombre" className={labelClassName}>{t('clients.name')} <span className="text-red-500 font-bold">*</span></label>
+                    <input id="nombre" name="nombre" type="text" value={formData.nombre} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="documento" className={labelClassName}>{t('clients.document')}</label>
+                    <input id="documento" name="documento" type="text" value={formData.documento} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="pixKey" className={labelClassName}>{t('clients.pixKey')}</label>
+                    <input id="pixKey" name="pixKey" type="text" value={formData.pixKey ?? ''} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="reglaComisionId" className={labelClassName}>{t('clients.defaultRule')}</label>
+                    <select id="reglaComisionId" name="reglaComisionId" value={formData.reglaComisionId ?? ''} onChange={handleChange} className={inputClassName}>
+                        <option value="">{t('clients.activeRule')}</option>
+                        {ruleSets.map(rs => <option key={rs.id} value={rs.id}>{rs.name}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="banco" className={labelClassName}>{t('clients.bank')}</label>
+                    <input id="banco" name="banco" type="text" value={formData.banco ?? ''} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="agencia" className={labelClassName}>{t('clients.branch')}</label>
+                    <input id="agencia" name="agencia" type="text" value={formData.agencia ?? ''} onChange={handleChange} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="cuenta" className={labelClassName}>{t('clients.account')}</label>
+                    <input id="cuenta" name="cuenta" type="text" value={formData.cuenta ?? ''} onChange={handleChange} className={inputClassName} />
+                </div>
+            </div>
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">{t('common.cancel')}</button>
+                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500">{t('clients.save')}</button>
+            </div>
+        </form>
+    );
+};
+
+// --- Clients Page Component ---
+interface ClientsProps {
+    clients: Client[];
+    records: LiquidationRecord[];
+    onNavigateToCalculator: () => void;
+    onSaveClient: (client: Client) => void;
+    onDeleteClient: (clientId: string) => void;
+}
+
+const Clients: React.FC<ClientsProps> = ({ clients, records, onNavigateToCalculator, onSaveClient, onDeleteClient }) => {
+    const [editingClient, setEditingClient] = useState<Client | null>(null);
+
+    const handleSave = (client: Client) => {
+        onSaveClient(client);
+        setEditingClient(null);
+    };
+
+    const handleDeleteClick = (client: Client) => {
+        if (window.confirm(t('clients.confirmDelete', { name: client.nombre }))) {
+            onDeleteClient(client.id);
+        }
+    };
+
+    const recordCount = (clientId: string) => records.filter(r => r.clienteId === clientId).length;
+
+    return (
+        <div className="w-full max-w-5xl mx-auto p-4 sm:p-6 lg:p-8">
+            <header className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
+                    {t('nav.clients')}
+                </h1>
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => setEditingClient(emptyClient())}
+                        className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                    >
+                        {t('clients.add')}
+                    </button>
+                    <button
+                        onClick={onNavigateToCalculator}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                    >
+                        {t('common.backToCalculator')}
+                    </button>
+                </div>
+            </header>
+
+            {editingClient && (
+                <ClientForm key={editingClient.id} client={editingClient} onSave={handleSave} onCancel={() => setEditingClient(null)} />
+            )}
+
+            <div className="shadow-lg rounded-xl overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                {[t('clients.name'), t('clients.col.document'), t('clients.col.payout'), t('clients.col.settlements'), t('history.col.actions')].map(header => (
+                                    <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                        {header}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {clients.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                                        {t('clients.empty')}
+                                    </td>
+                                </tr>
+                            ) : (
+                                clients.map(client => (
+                                    <tr key={client.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{client.nombre}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300">{client.documento}</td>
+                                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-300">
+                                            {client.pixKey && <span className="block">PIX: {client.pixKey}</span>}
+                                            {client.banco && <span className="block">{client.banco} {client.agencia} / {client.cuenta}</span>}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{recordCount(client.id)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                                            <button onClick={() => setEditingClient(client)} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('common.edit')}</button>
+                                            <button onClick={() => handleDeleteClick(client)} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300">{t('common.delete')}</button>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Clients;
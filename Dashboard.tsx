@@ -0,0 +1,238 @@
+import React, { useState, useMemo } from 'react';
+import type { LiquidationRecord } from './App';
+import { CURRENCY_PAIRS, DEFAULT_PAIR, formatCurrency, marketOf, pairLabel, pairOf, type CurrencyPair } from './services/currencyPairs';
+import { formatNumber, t } from './services/i18n';
+import { formatPeriod, summarizeAll, summarizeByPeriod, type Granularity, type PeriodSummary } from './services/periodSummary';
+
+// --- Helper Functions ---
+
+const formatRate = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+
+// --- Rate Chart Component ---
+interface RateChartProps {
+    records: LiquidationRecord[];
+    pair: CurrencyPair;
+}
+
+// Plots the rate of every liquidation, oldest first, as a plain SVG line
+const RateChart: React.FC<RateChartProps> = ({ records, pair }) => {
+    const points = useMemo(
+        () => [...records].reverse().sort((a, b) => a.fecha.localeCompare(b.fecha)),
+        [records]
+    );
+
+    if (points.length < 2) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400">{t('dashboard.rateChartTooFew')}</p>;
+    }
+
+    const rates = points.map(p => p.tasa);
+    const minRate = Math.min(...rates);
+    const maxRate = Math.max(...rates);
+    const span = maxRate - minRate || 1;
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (index: number) => CHART_PADDING.left + (index / (points.length - 1)) * plotWidth;
+    const y = (rate: number) => CHART_PADDING.top + (1 - (rate - minRate) / span) * plotHeight;
+    const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.tasa).toFixed(1)}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto text-gray-500 dark:text-gray-400" role="img" aria-label={t('dashboard.rateOverTime', { market: marketOf(pair) })}>
+            <line x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={CHART_HEIGHT - CHART_PADDING.bottom} stroke="currentColor" strokeOpacity={0.3} />
+            <line x1={CHART_PADDING.left} y1={CHART_HEIGHT - CHART_PADDING.bottom} x2={CHART_WIDTH - CHART_PADDING.right} y2={CHART_HEIGHT - CHART_PADDING.bottom} stroke="currentColor" strokeOpacity={0.3} />
+            <text x={CHART_PADDING.left - 8} y={y(maxRate) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatRate(maxRate)}</text>
+            <text x={CHART_PADDING.left - 8} y={y(minRate) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatRate(minRate)}</text>
+            <text x={x(0)} y={CHART_HEIGHT - 8} textAnchor="start" fontSize={11} fill="currentColor">{points[0].fecha}</text>
+            <text x={x(points.length - 1)} y={CHART_HEIGHT - 8} textAnchor="end" fontSize={11} fill="currentColor">{points[points.length - 1].fecha}</text>
+            <path d={path} fill="none" stroke="#4f46e5" strokeWidth={2} />
+            {points.map((p, i) => (
+                <circle key={p.id} cx={x(i)} cy={y(p.tasa)} r={3} fill="#4f46e5">
+                    <title>{`${p.fecha}: ${formatRate(p.tasa)}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+// --- Volume Chart Component ---
+interface VolumeChartProps {
+    summaries: PeriodSummary[];
+    granularity: Granularity;
+    pair: CurrencyPair;
+}
+
+// One bar per period for the amount received, with the commission share drawn inside it
+const VolumeChart: React.FC<VolumeChartProps> = ({ summaries, granularity, pair }) => {
+    if (summaries.length === 0) {
+        return null;
+    }
+
+    const maxValue = Math.max(...summaries.map(s => s.valorOrigen)) || 1;
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const slot = plotWidth / summaries.length;
+    const barWidth = Math.max(2, slot * 0.7);
+    const height = (value: number) => (value / maxValue) * plotHeight;
+    const baseline = CHART_HEIGHT - CHART_PADDING.bottom;
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto text-gray-500 dark:text-gray-400" role="img" aria-label={t('dashboard.volumeChart')}>
+            <line x1={CHART_PADDING.left} y1={baseline} x2={CHART_WIDTH - CHART_PADDING.right} y2={baseline} stroke="currentColor" strokeOpacity={0.3} />
+            <text x={CHART_PADDING.left - 8} y={CHART_PADDING.top + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatCurrency(maxValue, pair.source).replace(/[.,]\d+(?=\D*$)/, '')}</text>
+            <text x={CHART_PADDING.left - 8} y={baseline + 4} textAnchor="end" fontSize={11} fill="currentColor">0</text>
+            {summaries.map((s, i) => {
+                const left = CHART_PADDING.left + i * slot + (slot - barWidth) / 2;
+                return (
+                    <g key={s.period}>
+                        <title>{t('dashboard.volumeTooltip', { period: formatPeriod(s.period, granularity), amount: formatCurrency(s.valorOrigen, pair.source), commission: formatCurrency(s.comisionOrigen, pair.source) })}</title>
+                        <rect x={left} y={baseline - height(s.valorOrigen)} width={barWidth} height={height(s.valorOrigen)} fill="#14b8a6" />
+                        <rect x={left} y={baseline - height(s.comisionOrigen)} width={barWidth} height={height(s.comisionOrigen)} fill="#f59e0b" />
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+// --- Dashboard Page Component ---
+interface DashboardProps {
+    records: LiquidationRecord[];
+    onNavigateToCalculator: () => void;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ records, onNavigateToCalculator }) => {
+    const [granularity, setGranularity] = useState<Granularity>('month');
+    const [pairId, setPairId] = useState(DEFAULT_PAIR.id);
+
+    // Amounts in different currencies cannot be added up, so the summary covers one pair at a time
+    const usedPairs = useMemo(() => {
+        const ids = new Set(records.map(record => pairOf(record).id));
+        return CURRENCY_PAIRS.filter(p => ids.has(p.id));
+    }, [records]);
+    const pair = usedPairs.find(p => p.id === pairId) ?? usedPairs[0] ?? DEFAULT_PAIR;
+    const pairRecords = useMemo(() => records.filter(record => pairOf(record).id === pair.id), [records, pair]);
+
+    const summaries = useMemo(() => summarizeByPeriod(pairRecords, granularity), [pairRecords, granularity]);
+    const overall = useMemo(() => summarizeAll(pairRecords), [pairRecords]);
+
+    const cards = overall ? [
+        { label: t('dashboard.received'), value: formatCurrency(overall.valorOrigen, pair.source) },
+        { label: t('dashboard.commission'), value: formatCurrency(overall.comisionOrigen, pair.source) },
+        { label: t('dashboard.net'), value: formatCurrency(overall.liquidoOrigen, pair.source) },
+        { label: t('dashboard.total', { currency: pair.target }), value: formatCurrency(overall.totalDestino, pair.target) },
+        { label: t('dashboard.weightedAverage'), value: formatRate(overall.weightedRate) },
+    ] : [];
+
+    return (
+        <div className="w-full max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+            <header className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
+                    {t('dashboard.title')}
+                </h1>
+                <button
+                    onClick={onNavigateToCalculator}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                >
+                    {t('common.backToCalculator')}
+                </button>
+            </header>
+
+            {records.length === 0 ? (
+                <div className="p-12 bg-white dark:bg-gray-800/50 rounded-xl shadow-md text-center text-sm text-gray-500 dark:text-gray-400">
+                    {t('history.emptyAll')}
+                </div>
+            ) : (
+                <>
+                    {usedPairs.length > 1 && (
+                        <div className="flex items-center gap-3 mb-6">
+                            <label htmlFor="dashboardPair" className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('dashboard.pair')}</label>
+                            <select
+                                id="dashboardPair"
+                                value={pair.id}
+                                onChange={(e) => setPairId(e.target.value)}
+                                className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-2 text-sm text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {usedPairs.map(p => <option key={p.id} value={p.id}>{pairLabel(p)}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <section className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+                        {cards.map(card => (
+                            <div key={card.label} className="p-4 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{card.label}</p>
+                                <p className="mt-1 text-lg font-bold font-mono text-gray-800 dark:text-gray-100">{card.value}</p>
+                            </div>
+                        ))}
+                    </section>
+
+                    <section className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                        <div className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                            <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">{t('dashboard.rateOverTime', { market: marketOf(pair) })}</h2>
+                            <RateChart records={pairRecords} pair={pair} />
+                        </div>
+                        <div className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                            <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-1">{t('dashboard.volume')}</h2>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                                <span className="inline-block w-3 h-3 align-middle bg-teal-500 mr-1"></span>{t('dashboard.amountLegend', { currency: pair.source })}
+                                <span className="inline-block w-3 h-3 align-middle bg-amber-500 ml-4 mr-1"></span>{t('dashboard.commissionLegend', { currency: pair.source })}
+                            </p>
+                            <VolumeChart summaries={summaries} granularity={granularity} pair={pair} />
+                        </div>
+                    </section>
+
+                    <section className="shadow-lg rounded-xl overflow-hidden">
+                        <div className="flex justify-between items-center gap-4 px-6 py-4 bg-white dark:bg-gray-800">
+                            <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('dashboard.periodTotals')}</h2>
+                            <div className="inline-flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600" role="group">
+                                {GRANULARITIES.map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setGranularity(option)}
+                                        aria-pressed={granularity === option}
+                                        className={`px-3 py-1.5 text-sm font-medium transition-colors ${granularity === option ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+                                    >
+                                        {t(`dashboard.granularity.${option}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800">
+                                <thead className="bg-gray-50 dark:bg-gray-700">
+                                    <tr>
+                                        {[t('dashboard.col.period'), t('history.col.records'), t('history.col.amountIn', { currency: pair.source }), t('history.col.commissionIn', { currency: pair.source }), t('history.col.netIn', { currency: pair.source }), t('history.col.totalIn', { currency: pair.target }), t('dashboard.col.averageRate'), t('dashboard.col.weightedRate')].map(header => (
+                                            <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                                {header}
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {[...summaries].reverse().map(s => (
+                                        <tr key={s.period} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">{formatPeriod(s.period, granularity)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{s.count}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatCurrency(s.valorOrigen, pair.source)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600 dark:text-red-400 font-mono">{formatCurrency(s.comisionOrigen, pair.source)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatCurrency(s.liquidoOrigen, pair.source)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-green-600 dark:text-green-400 font-mono">{formatCurrency(s.totalDestino, pair.target)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatRate(s.averageRate)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatRate(s.weightedRate)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default Dashboard;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Attachment, Client, LiquidationRecord } from './App';
+import AmountInput from './AmountInput';
+import { calculateLiquidation } from './services/liquidationCalculator';
+import { formatCurrency, marketOf, pairLabel, pairOf } from './services/currencyPairs';
+import { channelsUsedIn, getActiveChannels, type PaymentChannel } from './services/channelService';
+import { fromCents, toCents } from './services/money';
+import { AttachmentDropzone, AttachmentLightbox, AttachmentList } from './Attachments';
+import { formatNumber, t } from './services/i18n';
+import { statusAfterPayments } from './services/payments';
+import {
+    createPendingAttachments,
+    findDuplicateReceipts,
+    revokeAttachmentUrls,
+    toAttachment,
+    type PendingAttachment,
+} from './services/attachments';
+
+// --- Edit Modal Component ---
+interface EditModalProps {
+    record: LiquidationRecord;
+    channels: PaymentChannel[];
+    clients: Client[];
+    // newFiles holds the files of attachments added in this edit, keyed by attachment id
+    onSave: (updatedRecord: LiquidationRecord, newFiles: Record<string, File>, reason: string) => void;
+    onCancel: () => void;
+    // Attachment hashes of all records, to warn about receipts already used elsewhere
+    hashIndex: Map<string, LiquidationRecord[]>;
+    onShowRecord: (recordId: string) => void;
+}
+
+const EditModal: React.FC<EditModalProps> = ({ record, channels, clients, onSave, onCancel, hashIndex, onShowRecord }) => {
+    const [formData, setFormData] = useState<LiquidationRecord>(record);
+    const [newAttachments, setNewAttachments] = useState<PendingAttachment[]>([]);
+    const [lightbox, setLightbox] = useState<{ attachments: Attachment[]; index: number } | null>(null);
+    const [reason, setReason] = useState('');
+    // The pair is fixed once registered; editing only corrects amounts and the rate
+    const pair = pairOf(record);
+
+    // Active channels plus any archived or unknown channel the record already uses
+    const editableChannels = useMemo(() => {
+        const used = channelsUsedIn(channels, [record.montosPorCanal]);
+        return [
+            ...channels.filter(channel => !channel.archived || used.some(u => u.id === channel.id)),
+            ...used.filter(u => !channels.some(channel => channel.id === u.id)),
+        ];
+    }, [channels, record.montosPorCanal]);
+
+    useEffect(() => {
+        // Recompute with the rule set stored on the record, not the current settings.
+        // Unchanged amounts keep their original commission.
+        const amountUnchanged = formData.valorOrigen === record.valorOrigen
+            && Object.keys({ ...formData.montosPorCanal, ...record.montosPorCanal })
+                .every(id => formData.montosPorCanal[id] === record.montosPorCanal[id]);
+        const hasBreakdown = Object.keys(formData.montosPorCanal).length > 0;
+        const { comision, porcentajeComision, liquido, totalDestino } = calculateLiquidation({
+            ruleSet: formData.reglaComision,
+            amounts: hasBreakdown ? formData.montosPorCanal : undefined,
+            total: hasBreakdown ? undefined : formData.valorOrigen || 0,
+            comision: amountUnchanged ? record.comisionOrigen : undefined,
+            rate: formData.tasa,
+            pair,
+        });
+        setFormData(d => ({
+            ...d,
+            comisionOrigen: comision,
+            porcentajeComision: amountUnchanged ? record.porcentajeComision : porcentajeComision,
+            liquidoOrigen: liquido,
+            totalDestino,
+        }));
+    }, [formData.valorOrigen, formData.montosPorCanal, formData.tasa, formData.reglaComision, record, pair]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    // Amount inputs hand over plain decimal strings, whatever the locale shows
+    const handleAmountChange = (name: 'valorOrigen' | 'tasa') => (value: string) => {
+        setFormData(prev => ({ ...prev, [name]: parseFloat(value) || 0 }));
+    };
+
+    // With a breakdown the total is always the sum of the channel amounts
+    const setChannelAmounts = (montosPorCanal: Record<string, number>) => {
+        const totalCents = Object.values(montosPorCanal).reduce<bigint>((sum, value) => sum + toCents(value ?? 0), 0n);
+        setFormData(prev => ({ ...prev, montosPorCanal, valorOrigen: fromCents(totalCents) }));
+    };
+
+    const handleChannelChange = (channelId: string) => (value: string) => {
+        setChannelAmounts({ ...formData.montosPorCanal, [channelId]: parseFloat(value) || 0 });
+    };
+
+    const handleAddBreakdown = () => {
+        // Start the breakdown with the whole current total on the first channel
+        const [firstChannel] = getActiveChannels(channels);
+        if (firstChannel) {
+            setChannelAmounts({ [firstChannel.id]: formData.valorOrigen });
+        }
+    };
+    
+    const duplicateReceipts = useMemo(
+        () => findDuplicateReceipts(formData.comprobantes, hashIndex, record.id),
+        [formData.comprobantes, hashIndex, record.id]
+    );
+
+    const handleAddFiles = async (files: File[]) => {
+        const added = await createPendingAttachments(files);
+        setNewAttachments(prev => [...prev, ...added]);
+        setFormData(prev => ({ ...prev, comprobantes: [...prev.comprobantes, ...added.map(toAttachment)] }));
+    };
+
+    const handleRemoveAttachment = (id: string) => {
+        // A file added in this edit was never saved, so its URL can go right away.
+        // URLs of saved attachments are revoked by the parent once the change is persisted.
+        revokeAttachmentUrls(newAttachments.filter(a => a.id === id));
+        setNewAttachments(prev => prev.filter(a => a.id !== id));
+        setFormData(prev => ({ ...prev, comprobantes: prev.comprobantes.filter(a => a.id !== id) }));
+    };
+
+    const handleAttachmentMontoChange = (id: string, monto: number | undefined) => {
+        setFormData(prev => ({ ...prev, comprobantes: prev.comprobantes.map(a => (a.id === id ? { ...a, monto } : a)) }));
+    };
+
+    const handleOpenAttachment = (id: string) => {
+        const viewable = formData.comprobantes.filter(a => a.url);
+        setLightbox({ attachments: viewable, index: viewable.findIndex(a => a.id === id) });
+    };
+    
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Saved attachments were already accepted once; only files added now need confirming
+        const newIds = new Set(newAttachments.map(a => a.id));
+        const newDuplicates = findDuplicateReceipts(formData.comprobantes.filter(a => newIds.has(a.id)), hashIndex, record.id);
+        if (newDuplicates.length > 0 && !window.confirm(
+            `${t('edit.duplicateConfirm')}\n` +
+            newDuplicates.map(d => `- ${t('receipts.duplicateLine', { name: d.name, date: d.record.fecha, amount: formatCurrency(d.record.valorOrigen, d.record.monedaOrigen) })}`).join('\n') +
+            `\n\n${t('edit.duplicateConfirmQuestion')}`
+        )) {
+            return;
+        }
+        // A new amount or rate changes the total the payments have to cover
+        onSave({ ...formData, estado: statusAfterPayments(formData) }, Object.fromEntries(newAttachments.map(a => [a.id, a.file])), reason);
+    };
+
+    const handleCancel = () => {
+        // Files added but cancelled were never saved, so their URLs must be revoked
+        revokeAttachmentUrls(newAttachments);
+        onCancel();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center p-4 z-50 transition-opacity" aria-modal="true" role="dialog">
+            {lightbox && (
+                <AttachmentLightbox
+                    attachments={lightbox.attachments}
+                    index={lightbox.index}
+                    onIndexChange={(index) => setLightbox({ ...lightbox, index })}
+                    onClose={() => setLightbox(null)}
+                />
+            )}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg transform transition-all" >
+                <form onSubmit={handleSave}>
+                    <header className="p-5 border-b border-gray-200 dark:border-gray-700">
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{t('edit.title')}</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{pairLabel(pair)}</p>
+                    </header>
+                    <main className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="fecha" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.date')}</label>
+                                <input type="date" id="fecha" name="fecha" value={formData.fecha} onChange={handleChange} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
+                            </div>
+                            <div>
+                                <label htmlFor="tasa" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('edit.rate', { market: marketOf(pair) })}</label>
+                                <AmountInput id="tasa" value={String(formData.tasa)} onChange={handleAmountChange('tasa')} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="clienteId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.client')}</label>
+                            <select id="clienteId" value={formData.clienteId ?? ''} onChange={(e) => setFormData(prev => ({ ...prev, clienteId: e.target.value || undefined }))} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500">
+                                <option value="">{t('common.noClient')}</option>
+                                {clients.map(client => <option key={client.id} value={client.id}>{client.nombre}</option>)}
+                            </select>
+                        </div>
+                        {Object.keys(formData.montosPorCanal).length > 0 ? (
+                            <div>
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                    {editableChannels.map(channel => (
+                                        <div key={channel.id}>
+                                            <label htmlFor={`canal-${channel.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">{channel.label}</label>
+                                            <AmountInput id={`canal-${channel.id}`} value={String(formData.montosPorCanal[channel.id] ?? 0)} onChange={handleChannelChange(channel.id)} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="flex justify-between mt-2 text-sm font-semibold text-gray-700 dark:text-gray-300"><span>{t('edit.sourceTotal', { currency: pair.source })}:</span> <span className="font-mono">{formatCurrency(formData.valorOrigen, pair.source)}</span></p>
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="valorOrigen" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('edit.sourceTotal', { currency: pair.source })}</label>
+                                <AmountInput id="valorOrigen" value={String(formData.valorOrigen)} onChange={handleAmountChange('valorOrigen')} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
+                                {/* The payment channels are COP accounts */}
+                                {pair.source === 'COP' && (
+                                    <span className="text-xs text-gray-500 dark:text-gray-400 mt-1 block">
+                                        {t('edit.noBreakdown')}{' '}
+                                        <button type="button" onClick={handleAddBreakdown} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 underline">{t('edit.addBreakdown')}</button>
+                                    </span>
+                                )}
+                            </div>
+                        )}
+                        <div className="space-y-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                            <p className="flex justify-between"><span>{t('edit.commission', { rule: formData.reglaComision.name, percent: formatNumber(Number(formData.porcentajeComision.toFixed(2))) })}</span> <span className="font-mono">{formatCurrency(formData.comisionOrigen, pair.source)}</span></p>
+                            <p className="flex justify-between font-semibold"><span>{t('edit.net', { currency: pair.source })}</span> <span className="font-mono">{formatCurrency(formData.liquidoOrigen, pair.source)}</span></p>
+                            <p className="flex justify-between font-bold text-blue-600 dark:text-blue-400"><span>{t('edit.total', { currency: pair.target })}</span> <span className="font-mono">{formatCurrency(formData.totalDestino, pair.target)}</span></p>
+                        </div>
+                        <div className="space-y-2">
+                             <label htmlFor="comprobante" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.receipts')}</label>
+                             {formData.comprobantes.length > 0 && (
+                                 <AttachmentList
+                                     attachments={formData.comprobantes}
+                                     onOpen={handleOpenAttachment}
+                                     onRemove={handleRemoveAttachment}
+                                     onMontoChange={handleAttachmentMontoChange}
+                                 />
+                             )}
+                             <AttachmentDropzone id="comprobante" onFiles={handleAddFiles} />
+                             {duplicateReceipts.length > 0 && (
+                                 <div role="alert" className="p-3 rounded-lg bg-red-100 dark:bg-red-900/50 text-sm text-red-800 dark:text-red-200">
+                                     <p className="font-bold">{t('edit.duplicateWarning')}</p>
+                                     <ul className="mt-1 space-y-1">
+                                         {duplicateReceipts.map(d => (
+                                             <li key={`${d.name}-${d.record.id}`}>
+                                                 {t('receipts.duplicateLine', { name: d.name, date: d.record.fecha, amount: formatCurrency(d.record.valorOrigen, d.record.monedaOrigen) })}{' '}
+                                                 <button type="button" onClick={() => { handleCancel(); onShowRecord(d.record.id); }} className="underline font-semibold hover:text-red-900 dark:hover:text-red-100">
+                                                     {t('common.viewRecord')}
+                                                 </button>
+                                             </li>
+                                         ))}
+                                     </ul>
+                                 </div>
+                             )}
+                        </div>
+                        <div>
+                            <label htmlFor="motivoCambio" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('edit.reason')}</label>
+                            <input type="text" id="motivoCambio" value={reason} onChange={(e) => setReason(e.target.value)} placeholder={t('edit.reasonPlaceholder')} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 mt-1 block">{t('edit.reasonHint')}</span>
+                        </div>
+                    </main>
+                    <footer className="flex justify-end gap-3 p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
+                        <button type="button" onClick={handleCancel} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">{t('common.cancel')}</button>
+                        <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500">{t('edit.saveChanges')}</button>
+                    </footer>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default EditModal;
@@ -1,256 +1,578 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import type { LiquidationRecord } from './App';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Attachment, Client, LiquidationRecord, RecordStatus } from './App';
+import { CURRENCY_PAIRS, DEFAULT_PAIR, formatCurrency, marketOf, pairLabel, pairOf, type CurrencyPair } from './services/currencyPairs';
+import { channelsUsedIn, loadChannels } from './services/channelService';
+import { fromCents, toCents, type Currency } from './services/money';
+import ImportModal from './ImportModal';
+import AuditTrailModal from './AuditTrail';
+import PaymentsModal from './PaymentsModal';
+import { loadAuditLog } from './services/storageService';
+import { formatDateTime, t } from './services/i18n';
+import { AttachmentLightbox } from './Attachments';
+import { attachmentNames, findDuplicateReceipts, indexReceiptHashes } from './services/attachments';
+import {
+    EMPTY_FILTERS,
+    applyFilters,
+    hasActiveFilters,
+    sortRecords,
+    type HistoryFilters,
+    type SortKey,
+    type SortState,
+} from './services/historyFilters';
+import { RECORD_STATUSES, outstandingBalance, paidTotal, statusLabel } from './services/payments';
+import {
+    buildAuditTable,
+    buildExportTable,
+    buildStatementHtml,
+    downloadBlob,
+    loadCsvOptions,
+    openStatement,
+    saveCsvOptions,
+    toCsv,
+    toXlsx,
+    type CsvOptions,
+    type ExportTable,
+} from './services/exportService';
 
 // --- Helper Functions ---
-const formatCurrency = (value: number, currencyCode: 'COP' | 'BRL') => {
-    const locale = currencyCode === 'COP' ? 'es-CO' : 'pt-BR';
-    return new Intl.NumberFormat(locale, {
-        style: 'currency',
-        currency: currencyCode,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-    }).format(value);
-};
-
 
-// --- Edit Modal Component ---
-interface EditModalProps {
-    record: LiquidationRecord;
-    onSave: (updatedRecord: LiquidationRecord) => void;
-    onCancel: () => void;
-}
+// Sums a money field exactly, in integer cents. Only meaningful within one currency pair.
+const sumField = (records: LiquidationRecord[], field: 'valorOrigen' | 'comisionOrigen' | 'liquidoOrigen' | 'totalDestino') =>
+    fromCents(records.reduce<bigint>((sum, record) => sum + toCents(record[field]), 0n));
 
-const EditModal: React.FC<EditModalProps> = ({ record, onSave, onCancel }) => {
-    const [formData, setFormData] = useState<LiquidationRecord>(record);
-    const [newFile, setNewFile] = useState<{ file: File, url: string } | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+const sumBy = (records: LiquidationRecord[], amountOf: (record: LiquidationRecord) => number) =>
+    fromCents(records.reduce<bigint>((sum, record) => sum + toCents(amountOf(record)), 0n));
 
-    useEffect(() => {
-        const valorCop = formData.valorCop || 0;
-        const tasaBrlCop = formData.tasaBrlCop || 0;
+export const statusBadgeClassName: Record<RecordStatus, string> = {
+    pendiente: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    pagado: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    conciliado: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    anulado: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
 
-        const comisionCop = valorCop * 0.10;
-        const liquidoCop = valorCop - comisionCop;
-        const totalBrl = tasaBrlCop > 0 ? liquidoCop / tasaBrlCop : 0;
+// --- Filter Bar Component ---
+const filterInputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 border border-transparent focus:border-blue-500";
+const filterLabelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
 
-        setFormData(d => ({ ...d, comisionCop, liquidoCop, totalBrl }));
-    }, [formData.valorCop, formData.tasaBrlCop]);
+interface HistoryFilterBarProps {
+    filters: HistoryFilters;
+    clients: Client[];
+    // Currency pairs present in the history; the pair filter only shows when there is a choice
+    pairs: CurrencyPair[];
+    onChange: (filters: HistoryFilters) => void;
+}
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({ filters, clients, pairs, onChange }) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
-        setFormData(prev => ({
-            ...prev,
-            [name]: name === 'valorCop' || name === 'tasaBrlCop' ? parseFloat(value) || 0 : value
-        }));
-    };
-    
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const newUrl = URL.createObjectURL(file);
-            if (newFile) {
-                // Revoke previous new file URL if user changes file multiple times
-                URL.revokeObjectURL(newFile.url);
-            }
-            setNewFile({ file, url: newUrl });
-            setFormData(prev => ({ ...prev, comprobanteUrl: newUrl, comprobanteName: file.name }));
-        }
-    };
-    
-    const handleSave = (e: React.FormEvent) => {
-        e.preventDefault();
-        // If a new file was chosen, the old URL from the original record needs to be revoked
-        if (newFile) {
-            URL.revokeObjectURL(record.comprobanteUrl);
-        }
-        onSave(formData);
-    };
-
-    const handleCancel = () => {
-        // If a new file was chosen but cancelled, its URL must be revoked
-        if (newFile) {
-            URL.revokeObjectURL(newFile.url);
-        }
-        onCancel();
+        onChange({ ...filters, [name]: value });
     };
 
     return (
-        <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center p-4 z-50 transition-opacity" aria-modal="true" role="dialog">
-            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg transform transition-all" >
-                <form onSubmit={handleSave}>
-                    <header className="p-5 border-b border-gray-200 dark:border-gray-700">
-                        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Editar Registro</h2>
-                    </header>
-                    <main className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                            <div>
-                                <label htmlFor="fecha" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Fecha</label>
-                                <input type="date" id="fecha" name="fecha" value={formData.fecha} onChange={handleChange} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
-                            </div>
-                            <div>
-                                <label htmlFor="tasaBrlCop" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tasa BRL/COP</label>
-                                <input type="number" step="0.01" id="tasaBrlCop" name="tasaBrlCop" value={formData.tasaBrlCop} onChange={handleChange} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
-                            </div>
-                        </div>
-                        <div>
-                            <label htmlFor="valorCop" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Valor COP (Total)</label>
-                            <input type="number" step="0.01" id="valorCop" name="valorCop" value={formData.valorCop} onChange={handleChange} className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"/>
-                        </div>
-                        <div className="space-y-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
-                            <p className="flex justify-between"><span>Comisión (10%):</span> <span className="font-mono">{formatCurrency(formData.comisionCop, 'COP')}</span></p>
-                            <p className="flex justify-between font-semibold"><span>Líquido COP:</span> <span className="font-mono">{formatCurrency(formData.liquidoCop, 'COP')}</span></p>
-                            <p className="flex justify-between font-bold text-blue-600 dark:text-blue-400"><span>Total BRL:</span> <span className="font-mono">{formatCurrency(formData.totalBrl, 'BRL')}</span></p>
-                        </div>
-                        <div>
-                             <label htmlFor="comprobante" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Cambiar Comprobante (Opcional)</label>
-                             <input ref={fileInputRef} id="comprobante" type="file" accept="image/*,.pdf" onChange={handleFileChange} className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:font-semibold file:bg-blue-100 dark:file:bg-blue-900 file:text-blue-700 dark:file:text-blue-300 hover:file:bg-blue-200 dark:hover:file:bg-blue-800 cursor-pointer"/>
-                             <span className="text-xs text-gray-500 dark:text-gray-400 mt-1 block">Actual: {formData.comprobanteName}</span>
-                        </div>
-                    </main>
-                    <footer className="flex justify-end gap-3 p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
-                        <button type="button" onClick={handleCancel} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">Cancelar</button>
-                        <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500">Guardar Cambios</button>
-                    </footer>
-                </form>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+                <label htmlFor="startDate" className={filterLabelClassName}>{t('history.filter.startDate')}</label>
+                <input type="date" id="startDate" name="startDate" value={filters.startDate} onChange={handleChange} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="endDate" className={filterLabelClassName}>{t('history.filter.endDate')}</label>
+                <input type="date" id="endDate" name="endDate" value={filters.endDate} onChange={handleChange} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="clientId" className={filterLabelClassName}>{t('common.client')}</label>
+                <select id="clientId" name="clientId" value={filters.clientId} onChange={handleChange} className={filterInputClassName}>
+                    <option value="">{t('history.filter.allClients')}</option>
+                    {clients.map(client => <option key={client.id} value={client.id}>{client.nombre}</option>)}
+                </select>
+            </div>
+            <div>
+                <label htmlFor="status" className={filterLabelClassName}>{t('history.filter.status')}</label>
+                <select id="status" name="status" value={filters.status} onChange={handleChange} className={filterInputClassName}>
+                    <option value="">{t('history.filter.allStatuses')}</option>
+                    {RECORD_STATUSES.map(status => <option key={status} value={status}>{statusLabel(status)}</option>)}
+                </select>
+            </div>
+            {pairs.length > 1 && (
+                <div>
+                    <label htmlFor="pair" className={filterLabelClassName}>{t('history.filter.pair')}</label>
+                    <select id="pair" name="pair" value={filters.pair} onChange={handleChange} className={filterInputClassName}>
+                        <option value="">{t('history.filter.allPairs')}</option>
+                        {pairs.map(pair => <option key={pair.id} value={pair.id}>{pairLabel(pair)}</option>)}
+                    </select>
+                </div>
+            )}
+            <div>
+                <label htmlFor="receiptText" className={filterLabelClassName}>{t('history.filter.receipt')}</label>
+                <input type="search" id="receiptText" name="receiptText" value={filters.receiptText} onChange={handleChange} placeholder={t('history.filter.receiptPlaceholder')} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="minAmount" className={filterLabelClassName}>{t('history.filter.minAmount')}</label>
+                <input type="number" step="0.01" id="minAmount" name="minAmount" value={filters.minAmount} onChange={handleChange} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="maxAmount" className={filterLabelClassName}>{t('history.filter.maxAmount')}</label>
+                <input type="number" step="0.01" id="maxAmount" name="maxAmount" value={filters.maxAmount} onChange={handleChange} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="minRate" className={filterLabelClassName}>{t('history.filter.minRate')}</label>
+                <input type="number" step="0.01" id="minRate" name="minRate" value={filters.minRate} onChange={handleChange} className={filterInputClassName} />
+            </div>
+            <div>
+                <label htmlFor="maxRate" className={filterLabelClassName}>{t('history.filter.maxRate')}</label>
+                <input type="number" step="0.01" id="maxRate" name="maxRate" value={filters.maxRate} onChange={handleChange} className={filterInputClassName} />
             </div>
         </div>
     );
 };
 
+const PAGE_SIZES = [25, 50, 100];
+
 // --- History Page Component ---
 interface HistoryProps {
     records: LiquidationRecord[];
+    // Soft-deleted records, shown only in the trash
+    trashedRecords: LiquidationRecord[];
+    clients: Client[];
     onNavigateToCalculator: () => void;
-    onDeleteRecord: (id: string) => void;
-    onUpdateRecord: (record: LiquidationRecord) => void;
+    onDeleteRecord: (id: string, reason?: string) => void;
+    onRestoreRecord: (id: string) => void;
+    onUpdateRecord: (record: LiquidationRecord, newFiles: Record<string, File>, reason?: string) => void;
+    onImportRecords: (records: LiquidationRecord[]) => Promise<boolean>;
+    // Filters and sort live in the URL's query string, so they survive back/forward and can be bookmarked
+    filters: HistoryFilters;
+    sort: SortState;
+    onQueryChange: (filters: HistoryFilters, sort: SortState) => void;
+    onOpenRecord: (recordId: string) => void;
+    onEditRecord: (recordId: string) => void;
 }
 
-const History: React.FC<HistoryProps> = ({ records, onNavigateToCalculator, onDeleteRecord, onUpdateRecord }) => {
+const History: React.FC<HistoryProps> = ({ records, trashedRecords, clients, onNavigateToCalculator, onDeleteRecord, onRestoreRecord, onUpdateRecord, onImportRecords, filters, sort, onQueryChange, onOpenRecord, onEditRecord }) => {
+
+    const [lightbox, setLightbox] = useState<{ attachments: Attachment[]; index: number } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+    const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+    const [channels] = useState(loadChannels);
+    const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx' | 'statement'>('csv');
+    const [csvOptions, setCsvOptions] = useState<CsvOptions>(loadCsvOptions);
+    const [focusedId, setFocusedId] = useState<string | null>(null);
+    const [auditRecord, setAuditRecord] = useState<LiquidationRecord | null>(null);
+    const [paymentsRecord, setPaymentsRecord] = useState<LiquidationRecord | null>(null);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
+    const [includeAudit, setIncludeAudit] = useState(false);
+    const clientFilter = filters.clientId;
+
+    const clientName = useCallback(
+        (clientId?: string) => clients.find(c => c.id === clientId)?.nombre ?? '',
+        [clients]
+    );
+
+    // The filtered, sorted set drives the table, the totals and every export
+    const visibleRecords = useMemo(
+        () => sortRecords(applyFilters(records, filters), sort, clientName),
+        [records, filters, sort, clientName]
+    );
+
+    const pageCount = Math.max(1, Math.ceil(visibleRecords.length / pageSize));
+    const currentPage = Math.min(pageIndex, pageCount - 1);
+    const pagedRecords = visibleRecords.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+    // Other records holding the same receipt file, per record id
+    const hashIndex = useMemo(() => indexReceiptHashes(records), [records]);
+    const duplicatesByRecord = useMemo(() => new Map(records.map(record => [
+        record.id,
+        [...new Set(findDuplicateReceipts(record.comprobantes, hashIndex, record.id).map(d => d.record))],
+    ])), [records, hashIndex]);
+
+    const focusRecord = (recordId: string) => {
+        let list = visibleRecords;
+        if (!list.some(r => r.id === recordId)) {
+            // The filters hide the record; clear them so it can be shown
+            onQueryChange(EMPTY_FILTERS, sort);
+            list = sortRecords(records, sort, clientName);
+        }
+        const index = list.findIndex(r => r.id === recordId);
+        if (index === -1) return;
+        setPageIndex(Math.floor(index / pageSize));
+        setFocusedId(recordId);
+    };
+
+    useEffect(() => {
+        if (focusedId) {
+            document.getElementById(`record-${focusedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [focusedId, currentPage]);
+
+    const handleFiltersChange = (nextFilters: HistoryFilters) => {
+        onQueryChange(nextFilters, sort);
+        setPageIndex(0);
+    };
+
+    const handleSortClick = (key: SortKey) => {
+        onQueryChange(filters, { key, direction: sort.key === key && sort.direction === 'desc' ? 'asc' : 'desc' });
+        setPageIndex(0);
+    };
+
+    // Amounts in different currencies are never added up: every total below is kept per pair
+    const usedPairs = useMemo(() => CURRENCY_PAIRS.filter(pair => records.some(record => pairOf(record).id === pair.id)), [records]);
+    const showPairColumn = usedPairs.length > 1;
 
-    const [editingRecord, setEditingRecord] = useState<LiquidationRecord | null>(null);
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
+    // Cumulative líquido and target total per record, oldest first, for the selected client
+    const runningTotals = useMemo(() => {
+        const totals = new Map<string, { origen: bigint; destino: bigint }>();
+        if (!clientFilter) return totals;
+        const byPair = new Map<string, { origen: bigint; destino: bigint }>();
+        [...visibleRecords].reverse()
+            .sort((a, b) => a.fecha.localeCompare(b.fecha))
+            .forEach(record => {
+                const previous = byPair.get(pairOf(record).id) ?? { origen: 0n, destino: 0n };
+                const next = {
+                    origen: previous.origen + toCents(record.liquidoOrigen),
+                    destino: previous.destino + toCents(record.totalDestino),
+                };
+                byPair.set(pairOf(record).id, next);
+                totals.set(record.id, next);
+            });
+        return totals;
+    }, [visibleRecords, clientFilter]);
+
+    const clientTotals = useMemo(() => {
+        const groups = new Map<string, LiquidationRecord[]>();
+        visibleRecords.forEach(record => {
+            const key = `${record.clienteId ?? ''}|${pairOf(record).id}`;
+            groups.set(key, [...(groups.get(key) ?? []), record]);
+        });
+        return [...groups.entries()]
+            .map(([key, group]) => ({
+                key,
+                clientId: group[0].clienteId ?? '',
+                pair: pairOf(group[0]),
+                count: group.length,
+                valorOrigen: sumField(group, 'valorOrigen'),
+                liquidoOrigen: sumField(group, 'liquidoOrigen'),
+                totalDestino: sumField(group, 'totalDestino'),
+            }))
+            .sort((a, b) => CURRENCY_PAIRS.indexOf(a.pair) - CURRENCY_PAIRS.indexOf(b.pair) || b.totalDestino - a.totalDestino);
+    }, [visibleRecords]);
 
+    const pairTotals = useMemo(() => CURRENCY_PAIRS
+        .map(pair => {
+            const group = visibleRecords.filter(record => pairOf(record).id === pair.id);
+            return {
+                pair,
+                count: group.length,
+                valorOrigen: sumField(group, 'valorOrigen'),
+                comisionOrigen: sumField(group, 'comisionOrigen'),
+                liquidoOrigen: sumField(group, 'liquidoOrigen'),
+                totalDestino: sumField(group, 'totalDestino'),
+                outstanding: sumBy(group, outstandingBalance),
+            };
+        })
+        .filter(row => row.count > 0), [visibleRecords]);
 
-    const handleExportCsv = () => {
-        const filteredRecords = records.filter(record => {
-            if (!startDate && !endDate) {
-                return true; // No date range specified, include all
+    // Column headers name the currencies whenever the listed records share one pair
+    const headerPair = pairTotals.length === 1
+        ? pairTotals[0].pair
+        : pairTotals.length === 0 && !showPairColumn ? usedPairs[0] ?? DEFAULT_PAIR : null;
+
+    // One row per status and payout currency present in the filtered records, in lifecycle order
+    const statusTotals = useMemo(() => RECORD_STATUSES
+        .flatMap(status => [...new Set(visibleRecords.map(record => record.monedaDestino))].map(currency => {
+            const group = visibleRecords.filter(record => record.estado === status && record.monedaDestino === currency);
+            return {
+                status,
+                currency,
+                count: group.length,
+                totalDestino: sumField(group, 'totalDestino'),
+                paid: sumBy(group, paidTotal),
+                outstanding: sumBy(group, outstandingBalance),
+            };
+        }))
+        .filter(row => row.count > 0), [visibleRecords]);
+
+    const outstandingByCurrency = useMemo(() => {
+        const totals = new Map<Currency, number>();
+        pairTotals.forEach(row => totals.set(row.pair.target, (totals.get(row.pair.target) ?? 0) + row.outstanding));
+        return [...totals.entries()];
+    }, [pairTotals]);
+
+    const columns: { label: string; sortKey?: SortKey }[] = [
+        { label: t('common.date'), sortKey: 'fecha' },
+        { label: t('common.client'), sortKey: 'cliente' },
+        ...(showPairColumn ? [{ label: t('history.col.pair') }] : []),
+        { label: headerPair ? t('history.col.amountIn', { currency: headerPair.source }) : t('history.col.amount'), sortKey: 'valorOrigen' },
+        { label: headerPair ? t('history.col.commissionIn', { currency: headerPair.source }) : t('history.col.commission'), sortKey: 'comisionOrigen' },
+        { label: headerPair ? t('history.col.netIn', { currency: headerPair.source }) : t('history.col.net'), sortKey: 'liquidoOrigen' },
+        { label: headerPair ? t('history.col.rateIn', { market: marketOf(headerPair) }) : t('history.col.rate'), sortKey: 'tasa' },
+        { label: headerPair ? t('history.col.totalIn', { currency: headerPair.target }) : t('history.col.total'), sortKey: 'totalDestino' },
+        { label: t('history.col.status') },
+        ...(clientFilter ? [{ label: t('history.col.running') }] : []),
+        { label: t('history.col.receipt'), sortKey: 'comprobantes' },
+        { label: t('history.col.actions') },
+    ];
+    const columnCount = columns.length;
+
+    const toggleExpanded = (recordId: string) => {
+        setExpandedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(recordId)) {
+                next.delete(recordId);
+            } else {
+                next.add(recordId);
             }
-            const recordIsAfterStartDate = startDate ? record.fecha >= startDate : true;
-            const recordIsBeforeEndDate = endDate ? record.fecha <= endDate : true;
-            return recordIsAfterStartDate && recordIsBeforeEndDate;
+            return next;
         });
+    };
+
+
+    const handleImport = async (importedRecords: LiquidationRecord[]) => {
+        if (await onImportRecords(importedRecords)) {
+            setIsImporting(false);
+        }
+    };
+
+    const handleExport = async () => {
+        if (visibleRecords.length === 0) {
+            alert(t('history.noRecordsToExport'));
+            return;
+        }
 
-        if (filteredRecords.length === 0) {
-            alert("No hay registros para exportar en el rango de fechas seleccionado.");
+        const fileDate = new Date().toISOString().split('T')[0];
+        if (exportFormat === 'statement') {
+            const html = buildStatementHtml(visibleRecords, clientName, {
+                client: clients.find(c => c.id === filters.clientId),
+                startDate: filters.startDate,
+                endDate: filters.endDate,
+            });
+            try {
+                openStatement(html);
+            } catch (err) {
+                alert(err instanceof Error ? err.message : t('history.statementFailed'));
+            }
             return;
         }
 
-        const headers = ['Fecha', 'Valor COP', 'Comision COP', 'Liquido COP', 'TASA BRL/COP', 'TOTAL BRL', 'COMPROBANTE'];
-        
-        const sanitizeCell = (cellData: any): string => {
-            const cellString = String(cellData);
-            if (cellString.includes(',') || cellString.includes('"') || cellString.includes('\n')) {
-                return `"${cellString.replace(/"/g, '""')}"`;
+        const table = buildExportTable(visibleRecords, channels, clientName);
+        let auditTable: ExportTable | null = null;
+        if (includeAudit) {
+            try {
+                const exportedIds = new Set(visibleRecords.map(r => r.id));
+                const entries = (await loadAuditLog()).filter(entry => exportedIds.has(entry.recordId));
+                auditTable = buildAuditTable(entries, visibleRecords, clientName);
+            } catch (err) {
+                alert(err instanceof Error ? err.message : t('audit.loadFailed'));
+                return;
             }
-            return cellString;
-        };
-
-        const csvRows = filteredRecords.map(r => 
-            [
-                r.fecha,
-                r.valorCop.toFixed(2),
-                r.comisionCop.toFixed(2),
-                r.liquidoCop.toFixed(2),
-                r.tasaBrlCop.toFixed(2),
-                r.totalBrl.toFixed(2),
-                sanitizeCell(r.comprobanteName)
-            ].join(',')
-        );
-
-        const csvString = [headers.join(','), ...csvRows].join('\n');
-        const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.setAttribute('href', url);
-        link.setAttribute('download', `historial_liquidaciones_${new Date().toISOString().split('T')[0]}.csv`);
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        }
+
+        if (exportFormat === 'xlsx') {
+            const sheets = [{ name: t('history.sheetRecords'), table }];
+            if (auditTable) sheets.push({ name: t('history.sheetAudit'), table: auditTable });
+            downloadBlob(toXlsx(sheets), `historial_liquidaciones_${fileDate}.xlsx`);
+        } else {
+            saveCsvOptions(csvOptions);
+            downloadBlob(new Blob([toCsv(table, csvOptions)], { type: 'text/csv;charset=utf-8;' }), `historial_liquidaciones_${fileDate}.csv`);
+            // CSV holds a single table, so the audit trail goes in its own file
+            if (auditTable) {
+                downloadBlob(new Blob([toCsv(auditTable, csvOptions)], { type: 'text/csv;charset=utf-8;' }), `auditoria_liquidaciones_${fileDate}.csv`);
+            }
+        }
     };
 
     const handleDeleteClick = (recordId: string) => {
-        if (window.confirm("¿Está seguro de que desea eliminar este registro? Esta acción no se puede deshacer.")) {
-            onDeleteRecord(recordId);
+        // null means the operator cancelled; an empty reason is allowed
+        const reason = window.prompt(t('history.confirmDelete'), '');
+        if (reason !== null) {
+            onDeleteRecord(recordId, reason);
         }
     };
 
-    const handleEditClick = (record: LiquidationRecord) => {
-        setEditingRecord(record);
-    };
-    
-    const handleSaveEdit = (updatedRecord: LiquidationRecord) => {
-        onUpdateRecord(updatedRecord);
-        setEditingRecord(null);
+    const handleSavePayments = (updatedRecord: LiquidationRecord, newFiles: Record<string, File>) => {
+        onUpdateRecord(updatedRecord, newFiles);
+        setPaymentsRecord(null);
     };
 
     return (
         <>
-            {editingRecord && (
-                <EditModal 
-                    record={editingRecord} 
-                    onSave={handleSaveEdit}
-                    onCancel={() => setEditingRecord(null)}
+            {lightbox && (
+                <AttachmentLightbox
+                    attachments={lightbox.attachments}
+                    index={lightbox.index}
+                    onIndexChange={(index) => setLightbox({ ...lightbox, index })}
+                    onClose={() => setLightbox(null)}
+                />
+            )}
+            {paymentsRecord && (
+                <PaymentsModal record={paymentsRecord} clientName={clientName} onSave={handleSavePayments} onCancel={() => setPaymentsRecord(null)} />
+            )}
+            {auditRecord && (
+                <AuditTrailModal record={auditRecord} clientName={clientName} onClose={() => setAuditRecord(null)} />
+            )}
+            {isImporting && (
+                <ImportModal
+                    records={records}
+                    clients={clients}
+                    onImport={handleImport}
+                    onCancel={() => setIsImporting(false)}
                 />
             )}
             <div className="w-full max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
                 <header className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
                     <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
-                        Historial de Liquidaciones
+                        {t('history.title')}
                     </h1>
-                    <button
-                        onClick={onNavigateToCalculator}
-                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
-                    >
-                        &larr; Volver a la Calculadora
-                    </button>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => setIsImporting(true)}
+                            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                        >
+                            {t('history.import')}
+                        </button>
+                        <button
+                            onClick={onNavigateToCalculator}
+                            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                        >
+                            {t('common.backToCalculator')}
+                        </button>
+                    </div>
                 </header>
 
                 <section className="mb-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
-                    <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">Exportar por Rango de Fechas</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-3 items-end gap-4">
-                        <div className="md:col-span-1">
-                            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Fecha de Inicio</label>
-                            <input
-                                type="date"
-                                id="startDate"
-                                value={startDate}
-                                onChange={(e) => setStartDate(e.target.value)}
-                                className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 border border-transparent focus:border-blue-500"
-                            />
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-4">
+                        <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('history.filters')}</h2>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => handleFiltersChange(EMPTY_FILTERS)}
+                                disabled={!hasActiveFilters(filters)}
+                                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {t('history.clearFilters')}
+                            </button>
                         </div>
-                        <div className="md:col-span-1">
-                            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Fecha de Fin</label>
-                            <input
-                                type="date"
-                                id="endDate"
-                                value={endDate}
-                                onChange={(e) => setEndDate(e.target.value)}
-                                className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500 border border-transparent focus:border-blue-500"
-                            />
+                    </div>
+                    <HistoryFilterBar filters={filters} clients={clients} pairs={usedPairs} onChange={handleFiltersChange} />
+                    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-end gap-4">
+                        <div>
+                            <label htmlFor="exportFormat" className={filterLabelClassName}>{t('history.export.format')}</label>
+                            <select id="exportFormat" value={exportFormat} onChange={(e) => setExportFormat(e.target.value as 'csv' | 'xlsx' | 'statement')} className={filterInputClassName}>
+                                <option value="csv">CSV</option>
+                                <option value="xlsx">Excel (XLSX)</option>
+                                <option value="statement">{t('history.export.statement')}</option>
+                            </select>
                         </div>
+                        {exportFormat === 'csv' && (
+                            <>
+                                <div>
+                                    <label htmlFor="csvDelimiter" className={filterLabelClassName}>{t('history.export.delimiter')}</label>
+                                    <select id="csvDelimiter" value={csvOptions.delimiter} onChange={(e) => setCsvOptions(prev => ({ ...prev, delimiter: e.target.value as CsvOptions['delimiter'] }))} className={filterInputClassName}>
+                                        <option value=";">{t('history.export.semicolon')}</option>
+                                        <option value=",">{t('history.export.comma')}</option>
+                                        <option value={'\t'}>{t('history.export.tab')}</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="csvDecimal" className={filterLabelClassName}>{t('history.export.decimalSeparator')}</label>
+                                    <select id="csvDecimal" value={csvOptions.decimalSeparator} onChange={(e) => setCsvOptions(prev => ({ ...prev, decimalSeparator: e.target.value as CsvOptions['decimalSeparator'] }))} className={filterInputClassName}>
+                                        <option value=",">{t('history.export.decimalComma')}</option>
+                                        <option value=".">{t('history.export.decimalPoint')}</option>
+                                    </select>
+                                </div>
+                            </>
+                        )}
+                        {exportFormat !== 'statement' && (
+                            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:pb-2">
+                                <input type="checkbox" checked={includeAudit} onChange={(e) => setIncludeAudit(e.target.checked)} className="rounded" />
+                                {t('history.export.includeAudit')}
+                            </label>
+                        )}
                         <button
-                            onClick={handleExportCsv}
-                            disabled={records.length === 0}
-                            className="md:col-span-1 w-full px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            onClick={handleExport}
+                            disabled={visibleRecords.length === 0}
+                            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:bg-gray-400 disabled:cursor-not-allowed"
                         >
-                            Exportar a CSV
+                            {t('history.export.submit', { count: visibleRecords.length })}
                         </button>
                     </div>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Deje las fechas en blanco para exportar todos los registros.</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{t('history.export.hint')}</p>
+                </section>
+
+                <section className="mb-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-4">
+                        <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('history.statusTotals')}</h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                            {t('history.outstanding')}{' '}
+                            {outstandingByCurrency.length === 0 ? '—' : outstandingByCurrency.map(([currency, amount], index) => (
+                                <React.Fragment key={currency}>
+                                    {index > 0 && ' · '}
+                                    <span className={`font-mono font-bold ${amount > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{formatCurrency(amount, currency)}</span>
+                                </React.Fragment>
+                            ))}
+                        </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                    <th className="py-2 pr-6">{t('history.col.status')}</th>
+                                    <th className="py-2 pr-6">{t('history.col.records')}</th>
+                                    <th className="py-2 pr-6">{t('payments.total')}</th>
+                                    <th className="py-2 pr-6">{t('payments.paid')}</th>
+                                    <th className="py-2">{t('payments.balance')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-200">
+                                {statusTotals.map(row => (
+                                    <tr key={`${row.status}|${row.currency}`}>
+                                        <td className="py-2 pr-6">
+                                            <button
+                                                onClick={() => handleFiltersChange({ ...filters, status: filters.status === row.status ? '' : row.status })}
+                                                className={`px-2 py-0.5 rounded-full text-xs font-semibold hover:underline ${statusBadgeClassName[row.status]}`}
+                                                title={t('history.filterByStatus')}
+                                            >
+                                                {statusLabel(row.status)}
+                                            </button>
+                                        </td>
+                                        <td className="py-2 pr-6 font-mono">{row.count}</td>
+                                        <td className="py-2 pr-6 font-mono">{formatCurrency(row.totalDestino, row.currency)}</td>
+                                        <td className="py-2 pr-6 font-mono">{formatCurrency(row.paid, row.currency)}</td>
+                                        <td className="py-2 font-mono font-semibold">{formatCurrency(row.outstanding, row.currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+
+                <section className="mb-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">{t('history.clientTotals')}</h2>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                    <th className="py-2 pr-6">{t('common.client')}</th>
+                                    {showPairColumn && <th className="py-2 pr-6">{t('history.col.pair')}</th>}
+                                    <th className="py-2 pr-6">{t('history.col.records')}</th>
+                                    <th className="py-2 pr-6">{t('history.col.amount')}</th>
+                                    <th className="py-2 pr-6">{t('history.col.net')}</th>
+                                    <th className="py-2">{t('payments.total')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-200">
+                                {clientTotals.map(row => (
+                                    <tr key={row.key}>
+                                        <td className="py-2 pr-6">{row.clientId ? clientName(row.clientId) : t('common.noClient')}</td>
+                                        {showPairColumn && <td className="py-2 pr-6 whitespace-nowrap">{pairLabel(row.pair)}</td>}
+                                        <td className="py-2 pr-6 font-mono">{row.count}</td>
+                                        <td className="py-2 pr-6 font-mono">{formatCurrency(row.valorOrigen, row.pair.source)}</td>
+                                        <td className="py-2 pr-6 font-mono">{formatCurrency(row.liquidoOrigen, row.pair.source)}</td>
+                                        <td className="py-2 font-mono font-semibold">{formatCurrency(row.totalDestino, row.pair.target)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
                 </section>
 
                 <div className="shadow-lg rounded-xl overflow-hidden">
@@ -258,51 +580,214 @@ const History: React.FC<HistoryProps> = ({ records, onNavigateToCalculator, onDe
                         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800">
                             <thead className="bg-gray-50 dark:bg-gray-700">
                                 <tr>
-                                    {['Fecha', 'Valor COP', 'Comision COP', 'Liquido COP', 'TASA BRL/COP', 'TOTAL BRL', 'COMPROBANTE', 'Acciones'].map(header => (
-                                        <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                                            {header}
+                                    {columns.map(column => (
+                                        <th
+                                            key={column.label}
+                                            scope="col"
+                                            aria-sort={column.sortKey && sort.key === column.sortKey ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                                        >
+                                            {column.sortKey ? (
+                                                <button onClick={() => handleSortClick(column.sortKey!)} className="uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-100">
+                                                    {column.label}
+                                                    {sort.key === column.sortKey && <span aria-hidden="true">{sort.direction === 'asc' ? ' ▲' : ' ▼'}</span>}
+                                                </button>
+                                            ) : column.label}
                                         </th>
                                     ))}
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                                {records.length === 0 ? (
+                                {visibleRecords.length === 0 ? (
                                     <tr>
-                                        <td colSpan={8} className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
-                                            No hay registros guardados. Vuelva a la calculadora para registrar su primera liquidación.
+                                        <td colSpan={columnCount} className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                                            {records.length === 0
+                                                ? t('history.emptyAll')
+                                                : t('history.emptyFiltered')}
                                         </td>
                                     </tr>
                                 ) : (
-                                    records.map(record => (
-                                        <tr key={record.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{record.fecha}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatCurrency(record.valorCop, 'COP')}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatCurrency(record.comisionCop, 'COP')}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 dark:text-gray-100 font-mono font-semibold">{formatCurrency(record.liquidoCop, 'COP')}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{record.tasaBrlCop.toFixed(2)}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 dark:text-gray-100 font-mono font-bold">{formatCurrency(record.totalBrl, 'BRL')}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm">
-                                                <a 
-                                                   href={record.comprobanteUrl} 
-                                                   target="_blank" 
-                                                   rel="noopener noreferrer" 
-                                                   className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline"
-                                                   title={record.comprobanteName}
-                                                >
-                                                    <span className="truncate max-w-[150px] inline-block">{record.comprobanteName}</span>
-                                                </a>
-                                            </td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                                                <button onClick={() => handleEditClick(record)} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">Editar</button>
-                                                <button onClick={() => handleDeleteClick(record.id)} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300">Eliminar</button>
-                                            </td>
-                                        </tr>
+                                    pagedRecords.map(record => (
+                                        <React.Fragment key={record.id}>
+                                            <tr id={`record-${record.id}`} className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${record.id === focusedId ? 'bg-yellow-50 dark:bg-yellow-900/20 ring-2 ring-inset ring-yellow-400' : ''}`}>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{record.fecha}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300">{clientName(record.clienteId)}</td>
+                                                {showPairColumn && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300">{pairLabel(pairOf(record))}</td>}
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">
+                                                    {formatCurrency(record.valorOrigen, record.monedaOrigen)}
+                                                    {Object.keys(record.montosPorCanal).length > 0 && (
+                                                        <button
+                                                            onClick={() => toggleExpanded(record.id)}
+                                                            aria-expanded={expandedIds.has(record.id)}
+                                                            aria-label={t('history.showBreakdown')}
+                                                            className="ml-2 text-xs text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                                                        >
+                                                            {expandedIds.has(record.id) ? '▾' : '▸'}
+                                                        </button>
+                                                    )}
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{formatCurrency(record.comisionOrigen, record.monedaOrigen)}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 dark:text-gray-100 font-mono font-semibold">{formatCurrency(record.liquidoOrigen, record.monedaOrigen)}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 font-mono">{record.tasa.toFixed(2)}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 dark:text-gray-100 font-mono font-bold">{formatCurrency(record.totalDestino, record.monedaDestino)}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusBadgeClassName[record.estado]}`}>{statusLabel(record.estado)}</span>
+                                                    {record.conflicto && (
+                                                        <span className="ml-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-200" title={t('sync.conflict.badgeTitle')}>{t('sync.conflict.badge')}</span>
+                                                    )}
+                                                    {outstandingBalance(record) > 0 && (
+                                                        <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono" title={t('history.balanceDueTitle', { currency: record.monedaDestino })}>{t('history.balance', { amount: formatCurrency(outstandingBalance(record), record.monedaDestino) })}</span>
+                                                    )}
+                                                </td>
+                                                {clientFilter && (
+                                                    <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-600 dark:text-gray-300 font-mono">
+                                                        <span className="block">{formatCurrency(fromCents(runningTotals.get(record.id)?.origen ?? 0n), record.monedaOrigen)}</span>
+                                                        <span className="block font-semibold">{formatCurrency(fromCents(runningTotals.get(record.id)?.destino ?? 0n), record.monedaDestino)}</span>
+                                                    </td>
+                                                )}
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                                    {record.comprobantes.some(a => a.url) ? (
+                                                        <>
+                                                            {record.comprobantes.filter(a => a.url).map((attachment, index, viewable) => (
+                                                                <button
+                                                                    key={attachment.id}
+                                                                    onClick={() => setLightbox({ attachments: viewable, index })}
+                                                                    className="block text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                                                                    title={attachment.name}
+                                                                >
+                                                                    <span className="truncate max-w-[150px] inline-block">{attachment.name}</span>
+                                                                </button>
+                                                            ))}
+                                                            {record.referencia && <span className="block text-xs text-gray-500 dark:text-gray-400 font-mono">{t('common.referenceShort', { reference: record.referencia })}</span>}
+                                                            {duplicatesByRecord.get(record.id)!.map(duplicate => (
+                                                                <button
+                                                                    key={duplicate.id}
+                                                                    onClick={() => focusRecord(duplicate.id)}
+                                                                    className="block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300 hover:underline"
+                                                                    title={t('history.duplicateTitle')}
+                                                                >
+                                                                    {t('history.duplicate', { date: duplicate.fecha, client: clientName(duplicate.clienteId) })}
+                                                                </button>
+                                                            ))}
+                                                        </>
+                                                    ) : (
+                                                        // Imported records arrive without the receipt files
+                                                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300" title={attachmentNames(record.comprobantes)}>
+                                                            {t('history.noReceipt')}
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                                                    <button onClick={() => onOpenRecord(record.id)} className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300">{t('history.view')}</button>
+                                                    <button onClick={() => onEditRecord(record.id)} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">{t('common.edit')}</button>
+                                                    <button onClick={() => setPaymentsRecord(record)} className="text-teal-600 hover:text-teal-900 dark:text-teal-400 dark:hover:text-teal-300">{t('history.payments')}</button>
+                                                    <button onClick={() => setAuditRecord(record)} className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200">{t('history.changes')}</button>
+                                                    <button onClick={() => handleDeleteClick(record.id)} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300">{t('common.delete')}</button>
+                                                </td>
+                                            </tr>
+                                            {expandedIds.has(record.id) && (
+                                                <tr className="bg-gray-50 dark:bg-gray-700/30">
+                                                    <td colSpan={columnCount} className="px-6 py-3">
+                                                        <div className="flex flex-wrap gap-6 text-sm text-gray-600 dark:text-gray-300">
+                                                            {channelsUsedIn(channels, [record.montosPorCanal]).map(channel => (
+                                                                <span key={channel.id}>
+                                                                    {channel.label}: <span className="font-mono">{formatCurrency(record.montosPorCanal[channel.id], record.monedaOrigen)}</span>
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
                                     ))
                                 )}
                             </tbody>
+                            {visibleRecords.length > 0 && (
+                                <tfoot className="bg-gray-50 dark:bg-gray-700 text-sm font-semibold text-gray-800 dark:text-gray-100">
+                                    {pairTotals.map(row => (
+                                        <tr key={row.pair.id}>
+                                            <td colSpan={2} className="px-6 py-3">{t('history.totalRow', { count: row.count })}</td>
+                                            {showPairColumn && <td className="px-6 py-3 whitespace-nowrap">{pairLabel(row.pair)}</td>}
+                                            <td className="px-6 py-3 whitespace-nowrap font-mono">{formatCurrency(row.valorOrigen, row.pair.source)}</td>
+                                            <td className="px-6 py-3 whitespace-nowrap font-mono">{formatCurrency(row.comisionOrigen, row.pair.source)}</td>
+                                            <td className="px-6 py-3 whitespace-nowrap font-mono">{formatCurrency(row.liquidoOrigen, row.pair.source)}</td>
+                                            <td className="px-6 py-3"></td>
+                                            <td className="px-6 py-3 whitespace-nowrap font-mono font-bold">{formatCurrency(row.totalDestino, row.pair.target)}</td>
+                                            <td className="px-6 py-3 whitespace-nowrap font-mono text-xs" title={t('history.balanceDueTitle', { currency: row.pair.target })}>{t('history.balance', { amount: formatCurrency(row.outstanding, row.pair.target) })}</td>
+                                            <td colSpan={columnCount - (showPairColumn ? 9 : 8)} className="px-6 py-3"></td>
+                                        </tr>
+                                    ))}
+                                </tfoot>
+                            )}
                         </table>
                     </div>
+                    {visibleRecords.length > PAGE_SIZES[0] && (
+                        <nav aria-label={t('history.pagination')} className="flex flex-col sm:flex-row justify-between items-center gap-3 px-6 py-3 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300">
+                            <label className="flex items-center gap-2">
+                                {t('history.rowsPerPage')}
+                                <select
+                                    value={pageSize}
+                                    onChange={(e) => { setPageSize(Number(e.target.value)); setPageIndex(0); }}
+                                    className="bg-gray-100 dark:bg-gray-700 rounded-md p-1 outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                                </select>
+                            </label>
+                            <div className="flex items-center gap-3">
+                                <button onClick={() => setPageIndex(currentPage - 1)} disabled={currentPage === 0} className="px-3 py-1 rounded-md bg-gray-200 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">{t('history.previousPage')}</button>
+                                <span>{t('history.pageOf', { page: currentPage + 1, count: pageCount })}</span>
+                                <button onClick={() => setPageIndex(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="px-3 py-1 rounded-md bg-gray-200 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">{t('history.nextPage')}</button>
+                            </div>
+                        </nav>
+                    )}
                 </div>
+
+                <section className="mt-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                    <button
+                        onClick={() => setIsTrashOpen(open => !open)}
+                        aria-expanded={isTrashOpen}
+                        className="text-xl font-semibold text-gray-700 dark:text-gray-200 hover:text-gray-900 dark:hover:text-gray-100"
+                    >
+                        {isTrashOpen ? '▾' : '▸'} {t('history.trash', { count: trashedRecords.length })}
+                    </button>
+                    {isTrashOpen && (
+                        trashedRecords.length === 0 ? (
+                            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{t('history.trashEmpty')}</p>
+                        ) : (
+                            <div className="mt-4 overflow-x-auto">
+                                <table className="min-w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                            <th className="py-2 pr-6">{t('common.date')}</th>
+                                            <th className="py-2 pr-6">{t('common.client')}</th>
+                                            <th className="py-2 pr-6">{t('history.col.amount')}</th>
+                                            <th className="py-2 pr-6">{t('payments.total')}</th>
+                                            <th className="py-2 pr-6">{t('history.col.deletedAt')}</th>
+                                            <th className="py-2">{t('history.col.actions')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-200">
+                                        {[...trashedRecords]
+                                            .sort((a, b) => (b.eliminadoEn ?? '').localeCompare(a.eliminadoEn ?? ''))
+                                            .map(record => (
+                                                <tr key={record.id}>
+                                                    <td className="py-2 pr-6 whitespace-nowrap">{record.fecha}</td>
+                                                    <td className="py-2 pr-6">{clientName(record.clienteId)}</td>
+                                                    <td className="py-2 pr-6 font-mono whitespace-nowrap">{formatCurrency(record.valorOrigen, record.monedaOrigen)}</td>
+                                                    <td className="py-2 pr-6 font-mono whitespace-nowrap">{formatCurrency(record.totalDestino, record.monedaDestino)}</td>
+                                                    <td className="py-2 pr-6 whitespace-nowrap">{record.eliminadoEn && formatDateTime(record.eliminadoEn)}</td>
+                                                    <td className="py-2 whitespace-nowrap font-medium space-x-2">
+                                                        <button onClick={() => onRestoreRecord(record.id)} className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300">{t('history.restore')}</button>
+                                                        <button onClick={() => setAuditRecord(record)} className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200">{t('history.changes')}</button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )
+                    )}
+                </section>
             </div>
         </>
     );
@@ -0,0 +1,247 @@
+import React, { useState, useMemo } from 'react';
+import type { Client, LiquidationRecord } from './App';
+import { attachmentNames } from './services/attachments';
+import { loadChannels } from './services/channelService';
+import { loadActiveRuleSetId, loadRuleSets, withChannelDefaults } from './services/commissionService';
+import { CURRENCY_PAIRS, DEFAULT_PAIR, findPairById, formatCurrency, pairLabel } from './services/currencyPairs';
+import { formatNumber, t } from './services/i18n';
+import {
+    IMPORT_FIELDS,
+    guessMapping,
+    importFieldLabel,
+    parseImportFile,
+    validateImport,
+    type ColumnMapping,
+    type ImportField,
+    type ParsedSheet,
+} from './services/importService';
+
+const inputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+const formatRate = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface ImportModalProps {
+    records: LiquidationRecord[];
+    clients: Client[];
+    onImport: (records: LiquidationRecord[]) => void;
+    onCancel: () => void;
+}
+
+const ImportModal: React.FC<ImportModalProps> = ({ records, clients, onImport, onCancel }) => {
+    const [channels] = useState(loadChannels);
+    const [ruleSets] = useState(loadRuleSets);
+    const [ruleSetId, setRuleSetId] = useState(loadActiveRuleSetId);
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({ fields: {}, channels: {} });
+    const [decimalSeparator, setDecimalSeparator] = useState<'.' | ','>('.');
+    const [useRecomputed, setUseRecomputed] = useState(false);
+    const [pairId, setPairId] = useState(DEFAULT_PAIR.id);
+    const [includeDuplicates, setIncludeDuplicates] = useState(false);
+    const [isParsing, setIsParsing] = useState(false);
+
+    const selectedRuleSet = ruleSets.find(rs => rs.id === ruleSetId) ?? ruleSets[0];
+    const ruleSet = useMemo(() => withChannelDefaults(selectedRuleSet, channels), [selectedRuleSet, channels]);
+    const pair = findPairById(pairId) ?? DEFAULT_PAIR;
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setIsParsing(true);
+        try {
+            const parsed = await parseImportFile(file);
+            setSheet(parsed);
+            setFileName(file.name);
+            setMapping(guessMapping(parsed.headers, channels));
+            setDecimalSeparator(parsed.decimalSeparator);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('import.readFailed'));
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const handleFieldMappingChange = (field: ImportField) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const value = e.target.value;
+        setMapping(prev => ({ ...prev, fields: { ...prev.fields, [field]: value === '' ? undefined : Number(value) } }));
+    };
+
+    const handleChannelMappingChange = (channelId: string) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const value = e.target.value;
+        setMapping(prev => {
+            const { [channelId]: _removed, ...rest } = prev.channels;
+            return { ...prev, channels: value === '' ? rest : { ...rest, [channelId]: Number(value) } };
+        });
+    };
+
+    const missingFields = IMPORT_FIELDS.filter(f => f.required && mapping.fields[f.field] === undefined);
+    const isMappingComplete = missingFields.length === 0;
+
+    const rows = useMemo(
+        () => sheet && isMappingComplete
+            ? validateImport(sheet, { mapping, decimalSeparator, ruleSet, clients, existing: records, useRecomputed, pair })
+            : [],
+        [sheet, isMappingComplete, mapping, decimalSeparator, ruleSet, clients, records, useRecomputed, pair]
+    );
+
+    const importable = rows.filter(row => row.status === 'ok' || (includeDuplicates && row.status === 'duplicate'));
+    const counts = {
+        ok: rows.filter(row => row.status === 'ok').length,
+        duplicate: rows.filter(row => row.status === 'duplicate').length,
+        error: rows.filter(row => row.status === 'error').length,
+        mismatch: rows.filter(row => row.mismatch).length,
+    };
+
+    const handleImportClick = () => {
+        if (importable.length === 0) return;
+        onImport(importable.map(row => row.record!));
+    };
+
+    const columnSelect = (id: string, value: number | undefined, onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void) => (
+        <select id={id} value={value ?? ''} onChange={onChange} className={inputClassName}>
+            <option value="">{t('import.skipColumn')}</option>
+            {sheet?.headers.map((header, index) => <option key={index} value={index}>{header || t('import.columnN', { n: index + 1 })}</option>)}
+        </select>
+    );
+
+    const statusBadge = (status: 'ok' | 'duplicate' | 'error') => {
+        const styles = {
+            ok: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+            duplicate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+            error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+        };
+        return <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${styles[status]}`}>{t(`import.status.${status}`)}</span>;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center p-4 z-50 transition-opacity" aria-modal="true" role="dialog">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-6xl transform transition-all">
+                <header className="p-5 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{t('import.title')}</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{t('import.subtitle')}</p>
+                </header>
+                <main className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+                    <div>
+                        <label htmlFor="importFile" className={labelClassName}>{t('import.file')}</label>
+                        <input id="importFile" type="file" accept=".csv,.txt,.xlsx" onChange={handleFileChange} disabled={isParsing} className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:font-semibold file:bg-blue-100 dark:file:bg-blue-900 file:text-blue-700 dark:file:text-blue-300 hover:file:bg-blue-200 dark:hover:file:bg-blue-800 cursor-pointer"/>
+                        {sheet && <span className="text-xs text-gray-500 dark:text-gray-400 mt-1 block">{t('import.rowCount', { file: fileName, count: sheet.rows.length })}</span>}
+                    </div>
+
+                    {sheet && (
+                        <>
+                            <section>
+                                <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-3">{t('import.columns')}</h3>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                                    {IMPORT_FIELDS.map(({ field, required }) => (
+                                        <div key={field}>
+                                            <label htmlFor={`map-${field}`} className={labelClassName}>
+                                                {importFieldLabel(field)} {required && <span className="text-red-500 font-bold">*</span>}
+                                            </label>
+                                            {columnSelect(`map-${field}`, mapping.fields[field], handleFieldMappingChange(field))}
+                                        </div>
+                                    ))}
+                                    {channels.map(channel => (
+                                        <div key={channel.id}>
+                                            <label htmlFor={`map-canal-${channel.id}`} className={labelClassName}>{t('import.channelSource', { channel: channel.label })}</label>
+                                            {columnSelect(`map-canal-${channel.id}`, mapping.channels[channel.id], handleChannelMappingChange(channel.id))}
+                                        </div>
+                                    ))}
+                                </div>
+                            </section>
+
+                            <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+                                <div>
+                                    <label htmlFor="importDecimal" className={labelClassName}>{t('import.decimalSeparator')}</label>
+                                    <select id="importDecimal" value={decimalSeparator} onChange={(e) => setDecimalSeparator(e.target.value as '.' | ',')} className={inputClassName}>
+                                        <option value=",">{t('import.decimalComma')}</option>
+                                        <option value=".">{t('import.decimalPoint')}</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="importPair" className={labelClassName}>{t('import.defaultPair')}</label>
+                                    <select id="importPair" value={pair.id} onChange={(e) => setPairId(e.target.value)} className={inputClassName}>
+                                        {CURRENCY_PAIRS.map(p => <option key={p.id} value={p.id}>{pairLabel(p)}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="importRuleSet" className={labelClassName}>{t('import.ruleSet')}</label>
+                                    <select id="importRuleSet" value={ruleSet.id} onChange={(e) => setRuleSetId(e.target.value)} className={inputClassName}>
+                                        {ruleSets.map(rs => <option key={rs.id} value={rs.id}>{rs.name}</option>)}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                    <input type="checkbox" checked={useRecomputed} onChange={(e) => setUseRecomputed(e.target.checked)} className="rounded" />
+                                    {t('import.useRecomputed')}
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                    <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} className="rounded" />
+                                    {t('import.includeDuplicates')}
+                                </label>
+                            </section>
+
+                            {!isMappingComplete ? (
+                                <p className="p-3 rounded-lg bg-yellow-100 dark:bg-yellow-900/50 text-sm text-yellow-800 dark:text-yellow-200">
+                                    {t('import.missingFields', { fields: missingFields.map(f => importFieldLabel(f.field)).join(', ') })}
+                                </p>
+                            ) : (
+                                <section>
+                                    <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-1">{t('import.preview')}</h3>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                                        {t('import.counts', counts)}
+                                    </p>
+                                    <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                            <thead className="bg-gray-50 dark:bg-gray-700">
+                                                <tr>
+                                                    {[t('import.col.line'), t('import.col.status'), t('common.date'), t('import.col.pair'), t('import.col.amount'), t('import.col.commission'), t('import.col.net'), t('import.col.rate'), t('import.col.total'), t('common.client'), t('import.field.comprobanteName'), t('import.col.notes')].map(header => (
+                                                        <th key={header} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">{header}</th>
+                                                    ))}
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                                                {rows.map(row => (
+                                                    <tr key={row.line} className={row.status === 'error' ? 'bg-red-50 dark:bg-red-900/20' : row.status === 'duplicate' ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}>
+                                                        <td className="px-3 py-2 font-mono">{row.line}</td>
+                                                        <td className="px-3 py-2">{statusBadge(row.status)}</td>
+                                                        <td className="px-3 py-2 whitespace-nowrap">{row.record?.fecha}</td>
+                                                        <td className="px-3 py-2 whitespace-nowrap">{row.record && `${row.record.monedaOrigen} → ${row.record.monedaDestino}`}</td>
+                                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{row.record && formatCurrency(row.record.valorOrigen, row.record.monedaOrigen)}</td>
+                                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{row.record && formatCurrency(row.record.comisionOrigen, row.record.monedaOrigen)}</td>
+                                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{row.record && formatCurrency(row.record.liquidoOrigen, row.record.monedaOrigen)}</td>
+                                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{row.record && formatRate(row.record.tasa)}</td>
+                                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{row.record && formatCurrency(row.record.totalDestino, row.record.monedaDestino)}</td>
+                                                        <td className="px-3 py-2 whitespace-nowrap">{clients.find(c => c.id === row.record?.clienteId)?.nombre}</td>
+                                                        <td className="px-3 py-2 whitespace-nowrap">
+                                                            {row.record && <span className="text-xs text-gray-500 dark:text-gray-400" title={attachmentNames(row.record.comprobantes)}>{t('import.noReceipt')}</span>}
+                                                        </td>
+                                                        <td className="px-3 py-2 text-xs">
+                                                            {[...row.errors, ...row.warnings].map((message, i) => <span key={i} className={`block ${row.errors.length > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{message}</span>)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </section>
+                            )}
+                        </>
+                    )}
+                </main>
+                <footer className="flex justify-end gap-3 p-5 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700 rounded-b-2xl">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">{t('common.cancel')}</button>
+                    <button
+                        type="button"
+                        onClick={handleImportClick}
+                        disabled={importable.length === 0}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {t('import.submit', { count: importable.length })}
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ImportModal;
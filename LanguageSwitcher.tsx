@@ -0,0 +1,23 @@
+import React from 'react';
+import { LOCALES, t, type Locale } from './services/i18n';
+
+interface LanguageSwitcherProps {
+    locale: Locale;
+    onChange: (locale: Locale) => void;
+}
+
+// Each language is listed by its own name, so it can be found whatever language is active
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale, onChange }) => (
+    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+        {t('common.language')}
+        <select
+            value={locale}
+            onChange={(e) => onChange(e.target.value as Locale)}
+            className="bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1 text-sm text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+            {LOCALES.map(option => <option key={option.id} value={option.id} lang={option.id}>{option.name}</option>)}
+        </select>
+    </label>
+);
+
+export default LanguageSwitcher;
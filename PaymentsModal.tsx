@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import type { Attachment, LiquidationRecord, Payment, RecordStatus } from './App';
+import AmountInput from './AmountInput';
+import { AttachmentLightbox } from './Attachments';
+import {
+    ACCEPTED_ATTACHMENT_TYPES,
+    createPendingAttachments,
+    revokeAttachmentUrls,
+    toAttachment,
+    type PendingAttachment,
+} from './services/attachments';
+import { formatCurrency } from './services/currencyPairs';
+import { t } from './services/i18n';
+import {
+    allowedStatuses,
+    outstandingBalance,
+    paidTotal,
+    statusAfterPayments,
+    statusChangeError,
+    statusLabel,
+} from './services/payments';
+
+const inputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+interface PaymentsModalProps {
+    record: LiquidationRecord;
+    clientName: (clientId?: string) => string;
+    // newFiles holds the proof files added in this dialog, keyed by attachment id
+    onSave: (updatedRecord: LiquidationRecord, newFiles: Record<string, File>) => void;
+    onCancel: () => void;
+}
+
+const PaymentsModal: React.FC<PaymentsModalProps> = ({ record, clientName, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<LiquidationRecord>(record);
+    // Proof files picked here that are not stored yet
+    const [newProofs, setNewProofs] = useState<PendingAttachment[]>([]);
+    const [fecha, setFecha] = useState(new Date().toISOString().split('T')[0]);
+    const [monto, setMonto] = useState(() => String(outstandingBalance(record) || ''));
+    const [referencia, setReferencia] = useState('');
+    const [proof, setProof] = useState<PendingAttachment | null>(null);
+    const [lightbox, setLightbox] = useState<Attachment | null>(null);
+
+    const outstanding = outstandingBalance(draft);
+    // Payments are made in the currency the liquidation pays out
+    const currency = record.monedaDestino;
+    const format = (value: number) => formatCurrency(value, currency);
+
+    const setPayments = (pagos: Payment[]) => {
+        setDraft(prev => {
+            const next = { ...prev, pagos };
+            return { ...next, estado: statusAfterPayments(next) };
+        });
+    };
+
+    const handleProofChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (proof) revokeAttachmentUrls([proof]);
+        setProof(file ? (await createPendingAttachments([file]))[0] : null);
+    };
+
+    const handleAddPayment = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(monto);
+        if (!fecha || isNaN(amount) || amount <= 0) {
+            alert(t('payments.invalidAmount', { currency }));
+            return;
+        }
+        if (amount > outstanding && !window.confirm(t('payments.exceedsBalance', { amount: format(outstanding) }))) {
+            return;
+        }
+        const payment: Payment = {
+            id: `${Date.now()}-${Math.random()}`,
+            fecha,
+            monto: amount,
+            referencia: referencia.trim() || undefined,
+            comprobante: proof ? toAttachment(proof) : undefined,
+        };
+        if (proof) setNewProofs(prev => [...prev, proof]);
+        const pagos = [...draft.pagos, payment].sort((a, b) => a.fecha.localeCompare(b.fecha));
+        setPayments(pagos);
+        setMonto(String(outstandingBalance({ ...draft, pagos }) || ''));
+        setReferencia('');
+        setProof(null);
+    };
+
+    const handleRemovePayment = (paymentId: string) => {
+        const payment = draft.pagos.find(p => p.id === paymentId);
+        if (!payment || !window.confirm(t('payments.confirmRemove', { date: payment.fecha, amount: format(payment.monto) }))) return;
+        // A proof added in this dialog was never stored, so its URL can go right away
+        const pending = newProofs.find(p => p.id === payment.comprobante?.id);
+        if (pending) {
+            revokeAttachmentUrls([pending]);
+            setNewProofs(prev => prev.filter(p => p !== pending));
+        }
+        setPayments(draft.pagos.filter(p => p.id !== paymentId));
+    };
+
+    const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const next = e.target.value as RecordStatus;
+        const error = statusChangeError(draft, next);
+        if (error) {
+            alert(error);
+            return;
+        }
+        setDraft(prev => ({ ...prev, estado: next }));
+    };
+
+    const handleSave = () => {
+        if (proof) revokeAttachmentUrls([proof]);
+        onSave(draft, Object.fromEntries(newProofs.map(p => [p.id, p.file])));
+    };
+
+    const handleCancel = () => {
+        revokeAttachmentUrls(proof ? [...newProofs, proof] : newProofs);
+        onCancel();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center p-4 z-50" aria-modal="true" role="dialog">
+            {lightbox && (
+                <AttachmentLightbox attachments={[lightbox]} index={0} onIndexChange={() => undefined} onClose={() => setLightbox(null)} />
+            )}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl">
+                <header className="p-5 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{t('payments.title', { currency })}</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {t('payments.settlementOf', { date: record.fecha })}{record.clienteId ? ` · ${clientName(record.clienteId)}` : ''}
+                    </p>
+                </header>
+                <main className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+                    <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                        <div>
+                            <label htmlFor="estado" className={labelClassName}>{t('payments.status')}</label>
+                            <select id="estado" value={draft.estado} onChange={handleStatusChange} className={inputClassName}>
+                                {allowedStatuses(draft.estado).map(status => <option key={status} value={status}>{statusLabel(status)}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{t('payments.total')}<span className="block font-mono font-semibold text-gray-800 dark:text-gray-100">{format(draft.totalDestino)}</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{t('payments.paid')}<span className="block font-mono font-semibold text-green-700 dark:text-green-400">{format(paidTotal(draft))}</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{t('payments.balance')}<span className={`block font-mono font-bold ${outstanding > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-100'}`}>{format(outstanding)}</span></p>
+                    </div>
+
+                    {draft.pagos.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{t('payments.empty')}</p>
+                    ) : (
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                    <th className="py-2 pr-4">{t('common.date')}</th>
+                                    <th className="py-2 pr-4">{t('payments.amount', { currency })}</th>
+                                    <th className="py-2 pr-4">{t('common.reference')}</th>
+                                    <th className="py-2 pr-4">{t('payments.proof')}</th>
+                                    <th className="py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-200">
+                                {draft.pagos.map(payment => (
+                                    <tr key={payment.id}>
+                                        <td className="py-2 pr-4 whitespace-nowrap">{payment.fecha}</td>
+                                        <td className="py-2 pr-4 font-mono whitespace-nowrap">{format(payment.monto)}</td>
+                                        <td className="py-2 pr-4 font-mono break-all">{payment.referencia ?? '—'}</td>
+                                        <td className="py-2 pr-4">
+                                            {payment.comprobante?.url ? (
+                                                <button type="button" onClick={() => setLightbox(payment.comprobante!)} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline truncate max-w-[150px] inline-block" title={payment.comprobante.name}>
+                                                    {payment.comprobante.name}
+                                                </button>
+                                            ) : payment.comprobante?.name ?? '—'}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            <button type="button" onClick={() => handleRemovePayment(payment.id)} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 font-medium">{t('common.remove')}</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {draft.estado !== 'anulado' && (
+                        <form onSubmit={handleAddPayment} className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-4">
+                            <h3 className="font-semibold text-gray-700 dark:text-gray-200">{t('payments.add')}</h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                <div>
+                                    <label htmlFor="pagoFecha" className={labelClassName}>{t('common.date')}</label>
+                                    <input type="date" id="pagoFecha" value={fecha} onChange={(e) => setFecha(e.target.value)} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="pagoMonto" className={labelClassName}>{t('payments.amount', { currency })}</label>
+                                    <AmountInput id="pagoMonto" value={monto} onChange={setMonto} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="pagoReferencia" className={labelClassName}>{t('payments.transferReference')}</label>
+                                    <input type="text" id="pagoReferencia" value={referencia} onChange={(e) => setReferencia(e.target.value)} className={inputClassName} />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="pagoComprobante" className={labelClassName}>{t('payments.proofOptional')}</label>
+                                <input type="file" id="pagoComprobante" accept={ACCEPTED_ATTACHMENT_TYPES} onChange={handleProofChange} className="mt-1 block w-full text-sm text-gray-600 dark:text-gray-300" />
+                            </div>
+                            <button type="submit" className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500">{t('payments.addButton')}</button>
+                        </form>
+                    )}
+                </main>
+                <footer className="flex justify-end gap-3 p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
+                    <button type="button" onClick={handleCancel} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400">{t('common.cancel')}</button>
+                    <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500">{t('common.save')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default PaymentsModal;
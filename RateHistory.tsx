@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CURRENCY_PAIRS, DEFAULT_MARKET, marketOf } from './services/currencyPairs';
+import { formatDateTime, formatNumber, t } from './services/i18n';
+import { rateLogDate, rateLogMarket, type RateLogEntry } from './services/rateHistory';
+import { loadRateLog } from './services/storageService';
+
+// --- Helper Functions ---
+const formatRate = (value: number) => formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const inputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+// COP → BRL and BRL → COP share the BRL/COP market, so each market is listed once
+const MARKETS = [...new Set(CURRENCY_PAIRS.map(marketOf))];
+
+// --- Rate History Page Component ---
+interface RateHistoryProps {
+    onNavigateToCalculator: () => void;
+}
+
+const RateHistory: React.FC<RateHistoryProps> = ({ onNavigateToCalculator }) => {
+    const [log, setLog] = useState<RateLogEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [provider, setProvider] = useState('');
+    // Rates of different markets are not comparable, so one market is shown at a time
+    const [market, setMarket] = useState(DEFAULT_MARKET);
+
+    useEffect(() => {
+        loadRateLog()
+            .then(setLog)
+            .catch(err => alert(err instanceof Error ? err.message : t('storage.loadRates')))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const providers = useMemo(() => [...new Set(log.map(entry => entry.provider))].sort(), [log]);
+
+    // Newest first, each with the change against the previous quote of the same source
+    const rows = useMemo(() => {
+        const previousBySource = new Map<string, number>();
+        const withChange = log.filter(entry => rateLogMarket(entry) === market).map(entry => {
+            const previous = previousBySource.get(entry.provider);
+            previousBySource.set(entry.provider, entry.rate);
+            return { entry, change: previous ? ((entry.rate - previous) / previous) * 100 : null };
+        });
+        return withChange
+            .filter(({ entry }) =>
+                (!startDate || rateLogDate(entry) >= startDate) &&
+                (!endDate || rateLogDate(entry) <= endDate) &&
+                (!provider || entry.provider === provider)
+            )
+            .reverse();
+    }, [log, market, startDate, endDate, provider]);
+
+    const stats = rows.length > 0 ? {
+        min: Math.min(...rows.map(r => r.entry.rate)),
+        max: Math.max(...rows.map(r => r.entry.rate)),
+        average: rows.reduce((sum, r) => sum + r.entry.rate, 0) / rows.length,
+    } : null;
+
+    return (
+        <div className="w-full max-w-5xl mx-auto p-4 sm:p-6 lg:p-8">
+            <header className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
+                    {t('rateHistory.title')}
+                </h1>
+                <button
+                    onClick={onNavigateToCalculator}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                >
+                    {t('common.backToCalculator')}
+                </button>
+            </header>
+
+            <section className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6 p-4 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                <div>
+                    <label htmlFor="rates-market" className={labelClassName}>{t('rateHistory.market')}</label>
+                    <select id="rates-market" value={market} onChange={(e) => setMarket(e.target.value)} className={inputClassName}>
+                        {MARKETS.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="rates-start" className={labelClassName}>{t('rateHistory.from')}</label>
+                    <input type="date" id="rates-start" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="rates-end" className={labelClassName}>{t('rateHistory.to')}</label>
+                    <input type="date" id="rates-end" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="rates-provider" className={labelClassName}>{t('rateHistory.source')}</label>
+                    <select id="rates-provider" value={provider} onChange={(e) => setProvider(e.target.value)} className={inputClassName}>
+                        <option value="">{t('rateHistory.allSources')}</option>
+                        {providers.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+            </section>
+
+            {stats && (
+                <section className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+                    {[
+                        { label: t('rateHistory.quotes'), value: String(rows.length) },
+                        { label: t('rateHistory.min'), value: formatRate(stats.min) },
+                        { label: t('rateHistory.max'), value: formatRate(stats.max) },
+                        { label: t('rateHistory.average'), value: formatRate(stats.average) },
+                    ].map(card => (
+                        <div key={card.label} className="p-4 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{card.label}</p>
+                            <p className="mt-1 text-lg font-bold font-mono text-gray-800 dark:text-gray-100">{card.value}</p>
+                        </div>
+                    ))}
+                </section>
+            )}
+
+            <section className="shadow-lg rounded-xl overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                {[t('export.audit.at'), t('rateHistory.col.rate', { market }), t('rateHistory.source'), t('rateHistory.col.change')].map(header => (
+                                    <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                        {header}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {rows.length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                                        {isLoading
+                                            ? t('rateHistory.loading')
+                                            : log.length === 0
+                                                ? t('rateHistory.empty')
+                                                : t('rateHistory.emptyFiltered')}
+                                    </td>
+                                </tr>
+                            ) : (
+                                rows.map(({ entry, change }) => (
+                                    <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">{formatDateTime(entry.fetchedAt)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 dark:text-gray-100 font-mono font-semibold">{formatRate(entry.rate)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300">{entry.provider}</td>
+                                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-mono ${change === null ? 'text-gray-400' : change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                            {change === null ? '—' : `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default RateHistory;
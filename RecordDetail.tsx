@@ -0,0 +1,292 @@
+import React, { useState, useMemo } from 'react';
+import type { Attachment, Client, LiquidationRecord } from './App';
+import EditModal from './EditModal';
+import AuditTrailModal from './AuditTrail';
+import PaymentsModal from './PaymentsModal';
+import { statusBadgeClassName } from './History';
+import { AttachmentLightbox, AttachmentList } from './Attachments';
+import { formatCurrency, marketOf, pairLabel, pairOf } from './services/currencyPairs';
+import { channelsUsedIn, loadChannels } from './services/channelService';
+import { findDuplicateReceipts, indexReceiptHashes, isImageAttachment, isPdfAttachment } from './services/attachments';
+import { auditFieldLabel, formatAuditValue } from './services/auditLog';
+import { formatDateTime, t } from './services/i18n';
+import { outstandingBalance, paidTotal, statusLabel } from './services/payments';
+import { overwrittenChanges } from './services/syncService';
+
+interface RecordDetailProps {
+    // Undefined when no record has the id in the URL, or while the history is still loading
+    record?: LiquidationRecord;
+    isLoading: boolean;
+    // Active records, to flag receipts that are attached to another liquidation
+    records: LiquidationRecord[];
+    clients: Client[];
+    // Whether the URL asks for the edit dialog (/historial/:id/editar)
+    editing: boolean;
+    onEdit: () => void;
+    onCloseEdit: () => void;
+    onUpdateRecord: (record: LiquidationRecord, newFiles: Record<string, File>, reason?: string) => void;
+    onResolveConflict: () => void;
+    onNavigateToHistory: () => void;
+    onOpenRecord: (recordId: string) => void;
+}
+
+const RecordDetail: React.FC<RecordDetailProps> = ({ record, isLoading, records, clients, editing, onEdit, onCloseEdit, onUpdateRecord, onResolveConflict, onNavigateToHistory, onOpenRecord }) => {
+    const [channels] = useState(loadChannels);
+    const [lightbox, setLightbox] = useState<{ attachments: Attachment[]; index: number } | null>(null);
+    const [isAuditOpen, setIsAuditOpen] = useState(false);
+    const [isPaymentsOpen, setIsPaymentsOpen] = useState(false);
+
+    const clientName = (clientId?: string) => clients.find(c => c.id === clientId)?.nombre ?? '';
+
+    const hashIndex = useMemo(() => indexReceiptHashes(records), [records]);
+    const duplicates = useMemo(
+        () => (record ? [...new Set(findDuplicateReceipts(record.comprobantes, hashIndex, record.id).map(d => d.record))] : []),
+        [record, hashIndex]
+    );
+
+    const backButton = (
+        <button
+            onClick={onNavigateToHistory}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+        >
+            {t('record.backToHistory')}
+        </button>
+    );
+
+    if (!record) {
+        return (
+            <div className="w-full max-w-4xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+                <p className="text-gray-600 dark:text-gray-300">{isLoading ? t('record.loading') : t('record.notFound')}</p>
+                {backButton}
+            </div>
+        );
+    }
+
+    const pair = pairOf(record);
+    const isTrashed = Boolean(record.eliminadoEn);
+    const viewable = record.comprobantes.filter(a => a.url);
+    const breakdown = channelsUsedIn(channels, [record.montosPorCanal]);
+    const conflictChanges = overwrittenChanges(record);
+
+    const openAttachment = (id: string) => {
+        setLightbox({ attachments: viewable, index: viewable.findIndex(a => a.id === id) });
+    };
+
+    const handleSaveEdit = (updatedRecord: LiquidationRecord, newFiles: Record<string, File>, reason: string) => {
+        onUpdateRecord(updatedRecord, newFiles, reason);
+        onCloseEdit();
+    };
+
+    const handleSavePayments = (updatedRecord: LiquidationRecord, newFiles: Record<string, File>) => {
+        onUpdateRecord(updatedRecord, newFiles);
+        setIsPaymentsOpen(false);
+    };
+
+    const details: { label: string; value: React.ReactNode }[] = [
+        { label: t('common.client'), value: clientName(record.clienteId) || t('common.noClient') },
+        { label: t('record.amount', { currency: pair.source }), value: formatCurrency(record.valorOrigen, pair.source) },
+        { label: t('record.commission', { rule: record.reglaComision.name, percent: Number(record.porcentajeComision.toFixed(2)) }), value: formatCurrency(record.comisionOrigen, pair.source) },
+        { label: t('record.net', { currency: pair.source }), value: formatCurrency(record.liquidoOrigen, pair.source) },
+        {
+            label: t('record.rate', { market: marketOf(pair) }),
+            value: (
+                <>
+                    {record.tasa.toFixed(2)}
+                    {record.tasaCotizada !== undefined && <span className="block text-xs text-gray-500 dark:text-gray-400">{t('record.quoted', { rate: record.tasaCotizada.toFixed(2) })}</span>}
+                    {record.tasaFuente && <span className="block text-xs text-gray-500 dark:text-gray-400">{record.tasaFuente}{record.tasaFecha ? ` · ${record.tasaFecha}` : ''}</span>}
+                </>
+            ),
+        },
+        { label: t('record.total', { currency: pair.target }), value: <span className="font-bold text-blue-600 dark:text-blue-400">{formatCurrency(record.totalDestino, pair.target)}</span> },
+        { label: t('record.paid', { currency: pair.target }), value: formatCurrency(paidTotal(record), pair.target) },
+        { label: t('record.balance', { currency: pair.target }), value: formatCurrency(outstandingBalance(record), pair.target) },
+    ];
+
+    return (
+        <>
+            {lightbox && (
+                <AttachmentLightbox
+                    attachments={lightbox.attachments}
+                    index={lightbox.index}
+                    onIndexChange={(index) => setLightbox({ ...lightbox, index })}
+                    onClose={() => setLightbox(null)}
+                />
+            )}
+            {editing && !isTrashed && (
+                <EditModal
+                    record={record}
+                    channels={channels}
+                    clients={clients}
+                    onSave={handleSaveEdit}
+                    onCancel={onCloseEdit}
+                    hashIndex={hashIndex}
+                    onShowRecord={onOpenRecord}
+                />
+            )}
+            {isPaymentsOpen && (
+                <PaymentsModal record={record} clientName={clientName} onSave={handleSavePayments} onCancel={() => setIsPaymentsOpen(false)} />
+            )}
+            {isAuditOpen && (
+                <AuditTrailModal record={record} clientName={clientName} onClose={() => setIsAuditOpen(false)} />
+            )}
+            <div className="w-full max-w-4xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+                <header className="flex flex-col sm:flex-row justify-between items-center gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">{t('record.title', { date: record.fecha })}</h1>
+                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                            {pairLabel(pair)}{' '}
+                            <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${statusBadgeClassName[record.estado]}`}>{statusLabel(record.estado)}</span>
+                        </p>
+                    </div>
+                    <div className="flex gap-3">
+                        {!isTrashed && (
+                            <>
+                                <button
+                                    onClick={onEdit}
+                                    className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                                >
+                                    {t('common.edit')}
+                                </button>
+                                <button
+                                    onClick={() => setIsPaymentsOpen(true)}
+                                    className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+                                >
+                                    {t('history.payments')}
+                                </button>
+                            </>
+                        )}
+                        <button
+                            onClick={() => setIsAuditOpen(true)}
+                            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+                        >
+                            {t('history.changes')}
+                        </button>
+                        {backButton}
+                    </div>
+                </header>
+
+                {isTrashed && (
+                    <div role="status" className="p-3 rounded-lg bg-yellow-100 dark:bg-yellow-900/50 text-sm text-yellow-800 dark:text-yellow-200">
+                        {t('record.trashed', { date: formatDateTime(record.eliminadoEn!) })}
+                    </div>
+                )}
+
+                {record.conflicto && (
+                    <div role="alert" className="p-4 rounded-lg bg-orange-100 dark:bg-orange-900/40 text-sm text-orange-900 dark:text-orange-100 space-y-3">
+                        <p>{t('sync.conflict.title', { date: formatDateTime(record.conflicto.at) })}</p>
+                        {conflictChanges.length === 0 ? (
+                            <p>{t('sync.conflict.noDifferences')}</p>
+                        ) : (
+                            <ul className="list-disc pl-5 space-y-1">
+                                {conflictChanges.map(change => (
+                                    <li key={change.field}>
+                                        <span className="font-semibold">{auditFieldLabel(change.field)}:</span>{' '}
+                                        <span className="font-mono break-all">{formatAuditValue(change.field, change.before, clientName)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <button
+                            onClick={onResolveConflict}
+                            className="px-3 py-1.5 bg-orange-600 hover:bg-orange-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-orange-500"
+                        >
+                            {t('sync.conflict.resolve')}
+                        </button>
+                    </div>
+                )}
+
+                <section className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-4">
+                        {details.map(detail => (
+                            <div key={detail.label} className="flex justify-between gap-4 border-b border-gray-100 dark:border-gray-700 pb-2">
+                                <dt className="text-sm text-gray-600 dark:text-gray-300">{detail.label}</dt>
+                                <dd className="text-sm text-right font-mono text-gray-800 dark:text-gray-100">{detail.value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                    {breakdown.length > 0 && (
+                        <div className="mt-4 flex flex-wrap gap-6 text-sm text-gray-600 dark:text-gray-300">
+                            {breakdown.map(channel => (
+                                <span key={channel.id}>
+                                    {channel.label}: <span className="font-mono">{formatCurrency(record.montosPorCanal[channel.id], pair.source)}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {record.referencia && <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">{t('record.reference')} <span className="font-mono">{record.referencia}</span></p>}
+                </section>
+
+                <section className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md space-y-4">
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('common.receipts')}</h2>
+                    {record.comprobantes.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{t('record.noReceipts')}</p>
+                    ) : (
+                        <AttachmentList attachments={record.comprobantes} onOpen={openAttachment} />
+                    )}
+                    {duplicates.length > 0 && (
+                        <div role="alert" className="p-3 rounded-lg bg-red-100 dark:bg-red-900/50 text-sm text-red-800 dark:text-red-200">
+                            <p className="font-bold">{t('record.duplicates')}</p>
+                            <ul className="mt-1 space-y-1">
+                                {duplicates.map(duplicate => (
+                                    <li key={duplicate.id}>
+                                        {t('record.title', { date: duplicate.fecha })} {clientName(duplicate.clienteId)}{' '}
+                                        <button type="button" onClick={() => onOpenRecord(duplicate.id)} className="underline font-semibold hover:text-red-900 dark:hover:text-red-100">
+                                            {t('common.viewRecord')}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {/* The receipts themselves, so the page can be checked without opening each file */}
+                    {viewable.filter(a => isImageAttachment(a) || isPdfAttachment(a)).map(attachment => (
+                        <figure key={attachment.id} className="space-y-1">
+                            {isPdfAttachment(attachment) ? (
+                                <iframe src={attachment.url} title={attachment.name} className="w-full h-[70vh] bg-white rounded-lg border border-gray-200 dark:border-gray-700" />
+                            ) : (
+                                <button type="button" onClick={() => openAttachment(attachment.id)} className="block w-full">
+                                    <img src={attachment.url} alt={attachment.name} className="max-h-[70vh] mx-auto object-contain rounded-lg" />
+                                </button>
+                            )}
+                            <figcaption className="text-xs text-center text-gray-500 dark:text-gray-400">{attachment.name}</figcaption>
+                        </figure>
+                    ))}
+                </section>
+
+                {record.pagos.length > 0 && (
+                    <section className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                        <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">{t('record.payments', { currency: pair.target })}</h2>
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                                    <th className="py-2 pr-4">{t('common.date')}</th>
+                                    <th className="py-2 pr-4">{t('record.paymentAmount')}</th>
+                                    <th className="py-2 pr-4">{t('common.reference')}</th>
+                                    <th className="py-2">{t('payments.proof')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-200">
+                                {record.pagos.map(payment => (
+                                    <tr key={payment.id}>
+                                        <td className="py-2 pr-4 whitespace-nowrap">{payment.fecha}</td>
+                                        <td className="py-2 pr-4 font-mono whitespace-nowrap">{formatCurrency(payment.monto, pair.target)}</td>
+                                        <td className="py-2 pr-4 font-mono break-all">{payment.referencia ?? '—'}</td>
+                                        <td className="py-2">
+                                            {payment.comprobante?.url ? (
+                                                <button type="button" onClick={() => setLightbox({ attachments: [payment.comprobante!], index: 0 })} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline truncate max-w-[150px] inline-block" title={payment.comprobante.name}>
+                                                    {payment.comprobante.name}
+                                                </button>
+                                            ) : payment.comprobante?.name ?? '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default RecordDetail;
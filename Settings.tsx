@@ -0,0 +1,444 @@
+import React, { useState, useRef } from 'react';
+import {
+    describeRuleSet,
+    loadActiveRuleSetId,
+    loadRuleSets,
+    saveActiveRuleSetId,
+    saveRuleSets,
+    type CommissionRuleSet,
+} from './services/commissionService';
+import { loadApiToken, saveApiToken } from './services/apiToken';
+import { loadChannels, saveChannels, type PaymentChannel } from './services/channelService';
+import { createBackup, restoreBackup } from './services/backupService';
+import { DEFAULT_MARKET } from './services/currencyPairs';
+import { downloadBlob } from './services/exportService';
+import { t } from './services/i18n';
+import { loadRateValidationConfig, saveRateValidationConfig, type RateValidationConfig } from './services/rateValidation';
+import { requestSync } from './services/syncService';
+
+const inputClassName = "mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+const parseNumber = (value: string) => parseFloat(value) || 0;
+
+// --- Rule Set Editor Component ---
+interface RuleSetEditorProps {
+    ruleSet: CommissionRuleSet;
+    channels: PaymentChannel[];
+    isActive: boolean;
+    canDelete: boolean;
+    onChange: (ruleSet: CommissionRuleSet) => void;
+    onDelete: () => void;
+    onActivate: () => void;
+}
+
+const RuleSetEditor: React.FC<RuleSetEditorProps> = ({ ruleSet, channels, isActive, canDelete, onChange, onDelete, onActivate }) => {
+    const update = (changes: Partial<CommissionRuleSet>) => onChange({ ...ruleSet, ...changes });
+
+    const handleTierChange = (index: number, field: 'upTo' | 'percent', value: string) => {
+        const tiers = ruleSet.tiers.map((tier, i) => {
+            if (i !== index) return tier;
+            if (field === 'upTo') {
+                return { ...tier, upTo: value === '' ? null : parseNumber(value) };
+            }
+            return { ...tier, percent: parseNumber(value) };
+        });
+        update({ tiers });
+    };
+
+    const handleChannelPercentChange = (channel: string, value: string) => {
+        const channelPercents = { ...ruleSet.channelPercents };
+        if (value === '') {
+            delete channelPercents[channel];
+        } else {
+            channelPercents[channel] = parseNumber(value);
+        }
+        update({ channelPercents });
+    };
+
+    return (
+        <div className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-end gap-4">
+                <div className="flex-1">
+                    <label htmlFor={`name-${ruleSet.id}`} className={labelClassName}>{t('settings.name')}</label>
+                    <input id={`name-${ruleSet.id}`} type="text" value={ruleSet.name} onChange={(e) => update({ name: e.target.value })} className={inputClassName} />
+                </div>
+                <div className="flex gap-3">
+                    {isActive ? (
+                        <span className="px-3 py-2 text-sm font-semibold text-green-700 dark:text-green-300">{t('settings.default')}</span>
+                    ) : (
+                        <button type="button" onClick={onActivate} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium">{t('settings.makeDefault')}</button>
+                    )}
+                    {canDelete && (
+                        <button type="button" onClick={onDelete} className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 text-sm font-medium">{t('common.delete')}</button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor={`percent-${ruleSet.id}`} className={labelClassName}>{t('settings.basePercent')}</label>
+                    <input id={`percent-${ruleSet.id}`} type="number" step="0.01" value={ruleSet.percent} onChange={(e) => update({ percent: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor={`fixed-${ruleSet.id}`} className={labelClassName}>{t('settings.fixedFee')}</label>
+                    <input id={`fixed-${ruleSet.id}`} type="number" step="1" value={ruleSet.fixedFee} onChange={(e) => update({ fixedFee: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor={`minimum-${ruleSet.id}`} className={labelClassName}>{t('settings.minimumFee')}</label>
+                    <input id={`minimum-${ruleSet.id}`} type="number" step="1" value={ruleSet.minimumFee} onChange={(e) => update({ minimumFee: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+            </div>
+
+            <div>
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">{t('settings.tiers')}</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('settings.tiersHint')}</p>
+                {ruleSet.tiers.map((tier, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end mb-2">
+                        <div>
+                            <label className={labelClassName}>{t('settings.upTo')}</label>
+                            <input type="number" step="1" value={tier.upTo ?? ''} onChange={(e) => handleTierChange(index, 'upTo', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label className={labelClassName}>{t('settings.percent')}</label>
+                            <input type="number" step="0.01" value={tier.percent} onChange={(e) => handleTierChange(index, 'percent', e.target.value)} className={inputClassName} />
+                        </div>
+                        <button type="button" onClick={() => update({ tiers: ruleSet.tiers.filter((_, i) => i !== index) })} className="pb-2 text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 text-sm font-medium">{t('common.remove')}</button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => update({ tiers: [...ruleSet.tiers, { upTo: null, percent: ruleSet.percent }] })} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium">{t('settings.addTier')}</button>
+            </div>
+
+            <div>
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">{t('settings.channelPercents')}</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('settings.channelPercentsHint')}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    {channels.filter(channel => !channel.archived || ruleSet.channelPercents[channel.id] !== undefined).map(channel => (
+                        <div key={channel.id}>
+                            <label htmlFor={`channel-${ruleSet.id}-${channel.id}`} className={labelClassName}>{t('settings.channelPercent', { channel: channel.label })}</label>
+                            <input id={`channel-${ruleSet.id}-${channel.id}`} type="number" step="0.01" value={ruleSet.channelPercents[channel.id] ?? ''} onChange={(e) => handleChannelPercentChange(channel.id, e.target.value)} className={inputClassName} />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">{describeRuleSet(ruleSet)}</p>
+        </div>
+    );
+};
+
+// --- Channel Catalog Editor Component ---
+interface ChannelCatalogEditorProps {
+    channels: PaymentChannel[];
+    onChange: (channels: PaymentChannel[]) => void;
+}
+
+const ChannelCatalogEditor: React.FC<ChannelCatalogEditorProps> = ({ channels, onChange }) => {
+    const updateChannel = (id: string, changes: Partial<PaymentChannel>) => {
+        onChange(channels.map(channel => (channel.id === id ? { ...channel, ...changes } : channel)));
+    };
+
+    const moveChannel = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= channels.length) return;
+        const reordered = [...channels];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    const handlePercentChange = (channel: PaymentChannel, value: string) => {
+        const { percent: _percent, ...rest } = channel;
+        const updated = value === '' ? rest : { ...rest, percent: parseNumber(value) };
+        onChange(channels.map(c => (c.id === channel.id ? updated : c)));
+    };
+
+    return (
+        <div className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md space-y-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.archivedHint')}</p>
+            {channels.map((channel, index) => (
+                <div key={channel.id} className={`grid grid-cols-[auto_1fr_8rem_auto] gap-3 items-end ${channel.archived ? 'opacity-60' : ''}`}>
+                    <div className="flex flex-col pb-1">
+                        <button type="button" onClick={() => moveChannel(index, -1)} disabled={index === 0} aria-label={t('settings.moveUp', { channel: channel.label })} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30">▲</button>
+                        <button type="button" onClick={() => moveChannel(index, 1)} disabled={index === channels.length - 1} aria-label={t('settings.moveDown', { channel: channel.label })} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30">▼</button>
+                    </div>
+                    <div>
+                        <label htmlFor={`channel-label-${channel.id}`} className={labelClassName}>{t('settings.name')}</label>
+                        <input id={`channel-label-${channel.id}`} type="text" value={channel.label} onChange={(e) => updateChannel(channel.id, { label: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor={`channel-percent-${channel.id}`} className={labelClassName}>{t('settings.channelCommission')}</label>
+                        <input id={`channel-percent-${channel.id}`} type="number" step="0.01" value={channel.percent ?? ''} onChange={(e) => handlePercentChange(channel, e.target.value)} className={inputClassName} />
+                    </div>
+                    <button type="button" onClick={() => updateChannel(channel.id, { archived: !channel.archived })} className="pb-2 text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium">
+                        {channel.archived ? t('settings.restoreChannel') : t('settings.archiveChannel')}
+                    </button>
+                </div>
+            ))}
+            <button type="button" onClick={() => onChange([...channels, { id: `${Date.now()}`, label: t('settings.newChannel'), archived: false }])} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium">{t('settings.addChannel')}</button>
+        </div>
+    );
+};
+
+// --- Rate Validation Editor Component ---
+interface RateValidationEditorProps {
+    config: RateValidationConfig;
+    onChange: (config: RateValidationConfig) => void;
+}
+
+// The band applies to the default market; the other markets keep fixed bands (see rateValidation.ts)
+const RateValidationEditor: React.FC<RateValidationEditorProps> = ({ config, onChange }) => {
+    const update = (changes: Partial<RateValidationConfig>) => onChange({ ...config, ...changes });
+
+    return (
+        <div className="p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md space-y-4">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.rateValidationHint', { market: DEFAULT_MARKET })}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="rate-min" className={labelClassName}>{t('settings.minRate', { market: DEFAULT_MARKET })}</label>
+                    <input id="rate-min" type="number" step="1" value={config.minRate} onChange={(e) => update({ minRate: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="rate-max" className={labelClassName}>{t('settings.maxRate', { market: DEFAULT_MARKET })}</label>
+                    <input id="rate-max" type="number" step="1" value={config.maxRate} onChange={(e) => update({ maxRate: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="rate-deviation" className={labelClassName}>{t('settings.maxDeviation')}</label>
+                    <input id="rate-deviation" type="number" step="0.1" value={config.maxDeviationPercent} onChange={(e) => update({ maxDeviationPercent: parseNumber(e.target.value) })} className={inputClassName} />
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+                <label className="sm:col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={config.requireAgreement} onChange={(e) => update({ requireAgreement: e.target.checked })} className="rounded" />
+                    {t('settings.requireAgreement')}
+                </label>
+                <div>
+                    <label htmlFor="rate-tolerance" className={labelClassName}>{t('settings.agreementTolerance')}</label>
+                    <input id="rate-tolerance" type="number" step="0.1" value={config.agreementTolerancePercent} disabled={!config.requireAgreement} onChange={(e) => update({ agreementTolerancePercent: parseNumber(e.target.value) })} className={`${inputClassName} disabled:opacity-50`} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Settings Page Component ---
+interface SettingsProps {
+    onNavigateToCalculator: () => void;
+    // Called after a backup was restored so the app reloads records and clients
+    onBackupRestored: () => Promise<void>;
+}
+
+const Settings: React.FC<SettingsProps> = ({ onNavigateToCalculator, onBackupRestored }) => {
+    const [ruleSets, setRuleSets] = useState<CommissionRuleSet[]>(loadRuleSets);
+    const [activeId, setActiveId] = useState(loadActiveRuleSetId);
+    const [channels, setChannels] = useState<PaymentChannel[]>(loadChannels);
+    const [rateValidation, setRateValidation] = useState<RateValidationConfig>(loadRateValidationConfig);
+    const [apiToken, setApiToken] = useState(loadApiToken);
+    const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+    const [isBackupBusy, setIsBackupBusy] = useState(false);
+    const restoreInputRef = useRef<HTMLInputElement>(null);
+
+    const handleRuleSetChange = (updated: CommissionRuleSet) => {
+        setRuleSets(prev => prev.map(rs => (rs.id === updated.id ? updated : rs)));
+    };
+
+    const handleAddRuleSet = () => {
+        setRuleSets(prev => [
+            ...prev,
+            { id: `${Date.now()}`, name: t('settings.newRule'), percent: 10, tiers: [], channelPercents: {}, fixedFee: 0, minimumFee: 0 },
+        ]);
+    };
+
+    const handleDeleteRuleSet = (id: string) => {
+        if (window.confirm(t('settings.confirmDeleteRule'))) {
+            setRuleSets(prev => prev.filter(rs => rs.id !== id));
+            if (activeId === id) {
+                setActiveId(ruleSets.find(rs => rs.id !== id)?.id ?? '');
+            }
+        }
+    };
+
+    const handleSave = () => {
+        if (ruleSets.some(rs => !rs.name.trim())) {
+            alert(t('settings.ruleNameRequired'));
+            return;
+        }
+        if (channels.some(channel => !channel.label.trim())) {
+            alert(t('settings.channelNameRequired'));
+            return;
+        }
+        if (rateValidation.minRate <= 0 || rateValidation.minRate >= rateValidation.maxRate) {
+            alert(t('settings.rateBandInvalid'));
+            return;
+        }
+        if (rateValidation.maxDeviationPercent <= 0 || rateValidation.agreementTolerancePercent <= 0) {
+            alert(t('settings.ratePercentInvalid'));
+            return;
+        }
+        saveChannels(channels);
+        saveRateValidationConfig(rateValidation);
+        saveRuleSets(ruleSets);
+        saveActiveRuleSetId(activeId);
+        alert(t('settings.saved'));
+    };
+
+    const handleSaveApiToken = () => {
+        saveApiToken(apiToken.trim());
+        void requestSync();
+        alert(t('settings.serverTokenSaved'));
+    };
+
+    const handleExportBackup = async () => {
+        setIsBackupBusy(true);
+        try {
+            const { blob, summary } = await createBackup();
+            downloadBlob(blob, `respaldo_liquidaciones_${new Date().toISOString().split('T')[0]}.zip`);
+            alert(t('settings.backupCreated', { ...summary }));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('settings.backupFailed'));
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
+
+    const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (restoreMode === 'replace' && !window.confirm(t('settings.confirmReplace'))) {
+            return;
+        }
+
+        setIsBackupBusy(true);
+        try {
+            const report = await restoreBackup(file, restoreMode);
+            await onBackupRestored();
+            const skipped = (count: number) => (count ? t('settings.restoredSkipped', { count }) : '');
+            alert([
+                t('settings.restored'),
+                t('settings.restoredRecords', { count: report.recordsImported }) + skipped(report.recordsSkipped),
+                ...(report.recordsTrashed ? [t('settings.restoredTrashed', { count: report.recordsTrashed })] : []),
+                t('settings.restoredAttachments', { count: report.attachmentsImported }),
+                t('settings.restoredClients', { count: report.clientsImported }) + skipped(report.clientsSkipped),
+                t('settings.restoredRates', { count: report.ratesImported }),
+                t('settings.restoredAudit', { count: report.auditImported }),
+            ].join('\n'));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : t('settings.restoreFailed'));
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
+            <header className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
+                    {t('settings.title')}
+                </h1>
+                <button
+                    onClick={onNavigateToCalculator}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+                >
+                    {t('common.backToCalculator')}
+                </button>
+            </header>
+
+            <section className="space-y-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.channels')}</h2>
+                <ChannelCatalogEditor channels={channels} onChange={setChannels} />
+            </section>
+
+            <section className="space-y-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.rateValidation')}</h2>
+                <RateValidationEditor config={rateValidation} onChange={setRateValidation} />
+            </section>
+
+            <section className="space-y-6">
+                <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.rules')}</h2>
+                {ruleSets.map(ruleSet => (
+                    <RuleSetEditor
+                        key={ruleSet.id}
+                        ruleSet={ruleSet}
+                        channels={channels}
+                        isActive={ruleSet.id === activeId}
+                        canDelete={ruleSets.length > 1}
+                        onChange={handleRuleSetChange}
+                        onDelete={() => handleDeleteRuleSet(ruleSet.id)}
+                        onActivate={() => setActiveId(ruleSet.id)}
+                    />
+                ))}
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                        onClick={handleAddRuleSet}
+                        className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+                    >
+                        {t('settings.addRule')}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {t('edit.saveChanges')}
+                    </button>
+                </div>
+            </section>
+
+            <section className="space-y-4 mt-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.backup')}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('settings.backupHint')}
+                </p>
+                <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                    <button
+                        onClick={handleExportBackup}
+                        disabled={isBackupBusy}
+                        className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {t('settings.exportBackup')}
+                    </button>
+                    <div>
+                        <label htmlFor="restoreMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.restoreMode')}</label>
+                        <select
+                            id="restoreMode"
+                            value={restoreMode}
+                            onChange={(e) => setRestoreMode(e.target.value as 'merge' | 'replace')}
+                            className="mt-1 block w-full bg-gray-100 dark:bg-gray-700 rounded-md p-2 text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="merge">{t('settings.restoreMerge')}</option>
+                            <option value="replace">{t('settings.restoreReplace')}</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => restoreInputRef.current?.click()}
+                        disabled={isBackupBusy}
+                        className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('settings.restoreBackup')}
+                    </button>
+                    <input ref={restoreInputRef} type="file" accept=".zip,application/zip" onChange={handleRestoreFile} className="hidden" />
+                </div>
+            </section>
+
+            <section className="space-y-4 mt-8 p-6 bg-white dark:bg-gray-800/50 rounded-xl shadow-md">
+                <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.serverAccess')}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('settings.serverAccessHint')}
+                </p>
+                <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                    <div className="flex-1">
+                        <label htmlFor="apiToken" className={labelClassName}>{t('settings.serverToken')}</label>
+                        <input id="apiToken" type="password" autoComplete="off" value={apiToken} onChange={(e) => setApiToken(e.target.value)} className={inputClassName} />
+                    </div>
+                    <button
+                        onClick={handleSaveApiToken}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {t('settings.saveServerToken')}
+                    </button>
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default Settings;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { formatDateTime, t } from './services/i18n';
+import type { SyncState, SyncStatus } from './services/syncService';
+
+const dotClassName: Record<Exclude<SyncState, 'disabled'>, string> = {
+    idle: 'bg-green-500',
+    syncing: 'bg-blue-500 animate-pulse',
+    offline: 'bg-gray-400',
+    error: 'bg-red-500',
+};
+
+interface SyncIndicatorProps {
+    status: SyncStatus;
+}
+
+// Nothing is shown when no sync server is configured
+const SyncIndicator: React.FC<SyncIndicatorProps> = ({ status }) => {
+    if (status.state === 'disabled') return null;
+    const title = [status.error, status.lastSyncedAt && t('sync.lastSynced', { time: formatDateTime(status.lastSyncedAt) })]
+        .filter(Boolean)
+        .join('\n');
+    return (
+        <span role="status" title={title} className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <span className={`inline-block w-2 h-2 rounded-full ${dotClassName[status.state]}`} aria-hidden="true" />
+            {t(`sync.status.${status.state}`)}
+            {status.pending > 0 && <span className="text-xs text-gray-500 dark:text-gray-400">· {t('sync.pending', { count: status.pending })}</span>}
+        </span>
+    );
+};
+
+export default SyncIndicator;
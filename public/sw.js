@@ -0,0 +1,97 @@
+// Service worker: keeps the app shell and its CDN dependencies (Tailwind, esm.sh
+// modules, fonts) cached so the calculator and history work without connectivity.
+// Bump CACHE_NAME when the caching strategy changes; old caches are dropped on activate.
+const CACHE_NAME = "liquidacion-brl-cop-v2";
+const APP_SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+
+// Third-party hosts whose responses are static and safe to reuse offline.
+// API calls (the server's /api, rate endpoints) are never cached here.
+const CACHEABLE_HOSTS = ["cdn.tailwindcss.com", "esm.sh", "fonts.googleapis.com", "fonts.gstatic.com"];
+
+function isCacheable(url) {
+  return url.origin === self.location.origin || CACHEABLE_HOSTS.includes(url.hostname);
+}
+
+// The page that registers the worker loads before the worker controls it, so the
+// hashed build assets referenced by index.html are fetched here once up front.
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+  const html = await (await cache.match("/index.html")).text();
+  const urls = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => new URL(match[1], self.location.origin))
+    .filter(isCacheable);
+  await Promise.all(urls.map(url =>
+    fetch(url.href, { mode: url.origin === self.location.origin ? "same-origin" : "no-cors" })
+      .then(response => putInCache(url.href, response))
+      .catch(error => console.error(`Could not precache ${url.href}:`, error))
+  ));
+}
+
+self.addEventListener("install", event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function putInCache(request, response) {
+  // Opaque responses (status 0) come from no-cors CDN requests such as the Tailwind script
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Own files: network first so a deploy is picked up right away, cache when offline.
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    // Deep links such as /historial/<id> exist only client-side; a plain static
+    // host answers them with 404, so the app shell is served instead.
+    if (request.mode === "navigate" && response.status === 404) {
+      const shell = await caches.match("/index.html");
+      if (shell) return shell;
+    }
+    return await putInCache(request, response);
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    // Every page is the same single-page app
+    if (request.mode === "navigate") {
+      const shell = await caches.match("/index.html");
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+// CDN files are versioned by URL: serve from cache and refresh in the background.
+async function staleWhileRevalidate(event) {
+  const cached = await caches.match(event.request);
+  const refresh = fetch(event.request).then(response => putInCache(event.request, response));
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.startsWith("/api/")) return;
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (isCacheable(url)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
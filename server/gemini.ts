@@ -0,0 +1,109 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { httpError } from "./http.ts";
+
+// --- Gemini calls ---
+// Only the server talks to Gemini, so the API key never reaches a browser.
+
+// Currencies the app trades; mirrors CURRENCY_NAMES in services/currencyPairs.ts
+export const CURRENCY_NAMES: Record<string, string> = {
+  COP: "Colombian Pesos",
+  BRL: "Brazilian Reais",
+  USD: "US Dollars",
+  USDT: "Tether USD stablecoin",
+};
+
+const MODEL = "gemini-2.5-flash";
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Fields read from a comprobante; null when Gemini could not see them
+export interface ReceiptFields {
+  amount: number | null;
+  date: string | null;
+  channel: string | null;
+  reference: string | null;
+}
+
+export interface GeminiClient {
+  // Units of `quote` per one `base`
+  fetchRate(base: string, quote: string): Promise<number>;
+  readReceipt(mimeType: string, bytes: Buffer): Promise<ReceiptFields>;
+}
+
+export function createGeminiClient(apiKey: string): GeminiClient {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Gemini being down or refusing the key is the upstream's failure, not the caller's
+  const generate = async (request: Parameters<typeof ai.models.generateContent>[0]) => {
+    try {
+      return await ai.models.generateContent(request);
+    } catch (error) {
+      console.error("Gemini request failed:", error);
+      throw httpError(502, "The Gemini request failed.");
+    }
+  };
+
+  return {
+    async fetchRate(base, quote) {
+      const response = await generate({
+        model: MODEL,
+        contents: `What is the current exchange rate for 1 ${CURRENCY_NAMES[base]} (${base}) to ${CURRENCY_NAMES[quote]} (${quote})? Provide only the numerical value, using a period as the decimal separator and no thousands separators.`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          // Set temperature to 0 for a deterministic, factual answer
+          temperature: 0,
+        },
+      });
+
+      // The first number in the answer; it may be wrapped in a sentence
+      const rate = parseFloat(response.text?.match(/[\d.]+/)?.[0] ?? "");
+      if (isNaN(rate)) {
+        throw httpError(502, "Gemini did not answer with a number.");
+      }
+      return rate;
+    },
+
+    async readReceipt(mimeType, bytes) {
+      const response = await generate({
+        model: MODEL,
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { inlineData: { mimeType, data: bytes.toString("base64") } },
+              {
+                text: "This is a Colombian payment receipt (Nequi, Bancolombia, Daviplata or similar). Extract the amount received in COP as a plain number with a period as decimal separator, the transaction date as YYYY-MM-DD, the payment channel name and the transaction reference number. Use null for anything that is not visible.",
+              },
+            ],
+          },
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              amount: { type: Type.NUMBER, nullable: true },
+              date: { type: Type.STRING, nullable: true },
+              channel: { type: Type.STRING, nullable: true },
+              reference: { type: Type.STRING, nullable: true },
+            },
+          },
+          temperature: 0,
+        },
+      });
+
+      let parsed: Partial<Record<keyof ReceiptFields, unknown>>;
+      try {
+        parsed = JSON.parse(response.text ?? "");
+      } catch {
+        throw httpError(502, "Gemini did not answer with the receipt fields.");
+      }
+
+      return {
+        amount: typeof parsed.amount === "number" && parsed.amount > 0 ? parsed.amount : null,
+        date: typeof parsed.date === "string" && ISO_DATE.test(parsed.date) ? parsed.date : null,
+        channel: typeof parsed.channel === "string" && parsed.channel.trim() ? parsed.channel.trim() : null,
+        reference: typeof parsed.reference === "string" && parsed.reference.trim() ? parsed.reference.trim() : null,
+      };
+    },
+  };
+}
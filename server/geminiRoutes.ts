@@ -0,0 +1,76 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { CURRENCY_NAMES, type GeminiClient } from "./gemini.ts";
+import { httpError, readBody, readJson, sendJson, type Route } from "./http.ts";
+import { createTtlCache, type RateLimiter } from "./rateLimit.ts";
+
+export interface GeminiRoutesOptions {
+  // Undefined when GEMINI_API_KEY is not set; every call then answers 503
+  gemini?: GeminiClient;
+  rateCacheTtlMs: number;
+  limiter: RateLimiter;
+  maxUploadBytes: number;
+  // Whether the server runs behind one proxy of ours, such as the Vite dev server, that appends the
+  // caller to X-Forwarded-For. Only that last entry is used; the ones before it come from the client.
+  trustProxy: boolean;
+}
+
+/**
+ * Gemini proxy used by the app instead of calling Gemini from the browser:
+ *
+ * - `POST /api/gemini/rate` `{ base, quote }` answers `{ rate, fetchedAt, cached }`
+ * - `POST /api/gemini/receipt` (the receipt file as the raw body) answers the fields read from it
+ *
+ * Both count against the caller's rate limit once the request is valid, so a
+ * malformed request does not use up the caller's quota.
+ */
+export function geminiRoutes({ gemini, rateCacheTtlMs, limiter, maxUploadBytes, trustProxy }: GeminiRoutesOptions): Route[] {
+  const rateCache = createTtlCache<number>(rateCacheTtlMs);
+
+  const callerOf = (req: IncomingMessage) => {
+    const forwarded = req.headers["x-forwarded-for"];
+    const last = typeof forwarded === "string" ? forwarded.split(",").pop()!.trim() : "";
+    return (trustProxy && last) || req.socket.remoteAddress || "unknown";
+  };
+
+  // Checks the caller's limit and the key; answers 429 or 503 instead of returning the client
+  const admit = (req: IncomingMessage, res: ServerResponse): GeminiClient => {
+    const retryAfter = limiter.take(callerOf(req));
+    if (retryAfter > 0) {
+      res.setHeader("Retry-After", String(retryAfter));
+      throw httpError(429, `Too many requests; retry in ${retryAfter} s.`);
+    }
+    if (!gemini) {
+      throw httpError(503, "GEMINI_API_KEY is not set on the server.");
+    }
+    return gemini;
+  };
+
+  return [
+    {
+      method: "POST",
+      pattern: /^\/api\/gemini\/rate$/,
+      async handler(req, res) {
+        const body = await readJson(req, 1024);
+        const { base, quote } = (body ?? {}) as { base?: unknown; quote?: unknown };
+        if (typeof base !== "string" || typeof quote !== "string" || !Object.hasOwn(CURRENCY_NAMES, base) || !Object.hasOwn(CURRENCY_NAMES, quote)) {
+          throw httpError(400, `Expected { base, quote } with currencies among ${Object.keys(CURRENCY_NAMES).join(", ")}.`);
+        }
+        const client = admit(req, res);
+        const { value, storedAt, cached } = await rateCache.get(`${base}/${quote}`, () => client.fetchRate(base, quote));
+        sendJson(res, 200, { rate: value, fetchedAt: storedAt, cached });
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/api\/gemini\/receipt$/,
+      async handler(req, res) {
+        const bytes = await readBody(req, maxUploadBytes);
+        if (bytes.length === 0) {
+          throw httpError(400, "The receipt file is missing from the request body.");
+        }
+        const client = admit(req, res);
+        sendJson(res, 200, await client.readReceipt(req.headers["content-type"] || "application/octet-stream", bytes));
+      },
+    },
+  ];
+}
@@ -0,0 +1,136 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, RequestListener, ServerResponse } from "node:http";
+
+// --- Routing ---
+
+// `params` holds the capture groups of the route's pattern, already URL-decoded
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: string[], url: URL) => Promise<void> | void;
+
+export interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+export type HttpError = Error & { status: number };
+
+/** An error the router answers with `status` and `message` instead of a 500. */
+export function httpError(status: number, message: string): HttpError {
+  return Object.assign(new Error(message), { status });
+}
+
+/** `decodeURIComponent`, failing with 400 instead of a URIError on malformed input. */
+export function decodeComponent(value: string, what: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw httpError(400, `${what} is not valid percent-encoding.`);
+  }
+}
+
+/** `routes` answering 401 unless the request carries `Authorization: Bearer <token>`. */
+export function requireToken(routes: Route[], token: string): Route[] {
+  const expected = Buffer.from(`Bearer ${token}`);
+  return routes.map(route => ({
+    ...route,
+    handler(req, res, params, url) {
+      const given = Buffer.from(req.headers.authorization ?? "");
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        throw httpError(401, "Missing or wrong access token.");
+      }
+      return route.handler(req, res, params, url);
+    },
+  }));
+}
+
+/**
+ * The server's request listener: answers CORS preflights, runs the route
+ * matching the path and turns errors into JSON answers. CORS headers are only
+ * sent when `corsOrigin` is set.
+ */
+export function createRouter(routes: Route[], corsOrigin?: string): RequestListener {
+  return async (req, res) => {
+    if (corsOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", corsOrigin);
+      res.setHeader("Access-Control-Allow-Methods", "GET, PUT, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, X-Record-Id, X-File-Name");
+      res.setHeader("Access-Control-Expose-Headers", "X-Record-Id, X-File-Name, Retry-After");
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+    const matching = routes.filter(route => route.pattern.test(path));
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+      sendError(res, matching.length > 0 ? 405 : 404, `No route for ${req.method} ${path}.`);
+      return;
+    }
+
+    try {
+      const params = route.pattern.exec(path)!.slice(1).map(param => decodeComponent(param, "The URL path"));
+      await route.handler(req, res, params, url);
+    } catch (error) {
+      const status = (error as Partial<HttpError>).status;
+      if (!status) {
+        console.error(`Error handling ${req.method} ${path}:`, error);
+      }
+      if (!res.headersSent) {
+        sendError(res, status ?? 500, status ? (error as Error).message : "Internal server error.");
+      } else {
+        res.end();
+      }
+    }
+  };
+}
+
+// --- Responses ---
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { error: message });
+}
+
+// --- Requests ---
+
+/** Reads the whole request body, failing with 413 once it passes `maxBytes`. */
+export function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = httpError(413, `Request body is larger than ${maxBytes} bytes.`);
+    if (Number(req.headers["content-length"] ?? 0) > maxBytes) {
+      reject(tooLarge);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Drain the rest unread so the client still gets the 413
+        req.removeAllListeners("data");
+        req.resume();
+        reject(tooLarge);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+export async function readJson(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch {
+    throw httpError(400, "Request body is not valid JSON.");
+  }
+}
@@ -0,0 +1,58 @@
+// Backend of the app: the sync API shared by every device of the team and the
+// Gemini proxy that keeps the API key off the browser. Run with `npm run server`;
+// needs Node.js 22.6 or later (built-in SQLite and TypeScript type stripping).
+import { existsSync } from "node:fs";
+import { createServer } from "node:http";
+import { createGeminiClient } from "./gemini.ts";
+import { geminiRoutes } from "./geminiRoutes.ts";
+import { createRouter, requireToken, type Route } from "./http.ts";
+import { createRateLimiter } from "./rateLimit.ts";
+import { syncRoutes } from "./syncRoutes.ts";
+import { createSyncStore } from "./syncStore.ts";
+
+// The same .env.local the Vite app reads
+if (existsSync(".env.local")) {
+  process.loadEnvFile(".env.local");
+}
+
+const PORT = Number(process.env.SERVER_PORT ?? 8787);
+const SYNC_DB = process.env.SYNC_DB ?? "sync.db";
+// Shared secret every device sends as a bearer token; typed once per device in the app's settings
+const SYNC_TOKEN = process.env.SYNC_TOKEN ?? "";
+// Origin allowed to call the API from a browser when the app is served from another host; unset, only
+// the app's own origin can (through the dev server's forwarding or a reverse proxy)
+const CORS_ORIGIN = process.env.CORS_ORIGIN;
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB ?? 20) * 1024 * 1024;
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+// Gemini rate answers are reused for this long; receipts are never cached
+const RATE_CACHE_TTL_MS = Number(process.env.RATE_CACHE_TTL_SECONDS ?? 300) * 1000;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 30);
+const TRUST_PROXY = ["1", "true"].includes(process.env.TRUST_PROXY ?? "");
+
+if (!SYNC_TOKEN) {
+  console.error("SYNC_TOKEN is not set: the records and the Gemini key would be open to anyone who reaches the server.");
+  process.exit(1);
+}
+
+const routes: Route[] = [
+  ...requireToken(syncRoutes(createSyncStore(SYNC_DB), MAX_UPLOAD_BYTES), SYNC_TOKEN),
+  ...requireToken(
+    geminiRoutes({
+      gemini: GEMINI_API_KEY ? createGeminiClient(GEMINI_API_KEY) : undefined,
+      rateCacheTtlMs: RATE_CACHE_TTL_MS,
+      limiter: createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000),
+      maxUploadBytes: MAX_UPLOAD_BYTES,
+      trustProxy: TRUST_PROXY,
+    }),
+    SYNC_TOKEN
+  ),
+];
+
+const server = createServer(createRouter(routes, CORS_ORIGIN));
+
+server.listen(PORT, () => {
+  console.log(`Server listening on http://localhost:${PORT} (database: ${SYNC_DB})`);
+  if (!GEMINI_API_KEY) {
+    console.warn("GEMINI_API_KEY is not set: Gemini rates and receipt reading will answer 503.");
+  }
+});
@@ -0,0 +1,62 @@
+// --- Rate limiting ---
+
+export interface RateLimiter {
+  // Counts a request from `key`; resolves to 0 when it may go ahead, else the seconds until it may
+  take(key: string): number;
+}
+
+/** Allows `limit` requests per key in each fixed window of `windowMs`. */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(key) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+        // Callers come and go; forget the ones whose window is over
+        for (const [other, { start }] of windows) {
+          if (now - start >= windowMs) windows.delete(other);
+        }
+      }
+      if (window.count >= limit) {
+        return Math.ceil((window.start + windowMs - now) / 1000);
+      }
+      window.count++;
+      return 0;
+    },
+  };
+}
+
+// --- Answer cache ---
+
+export interface TtlCache<T> {
+  // The cached answer for `key`, or the one `load` produces. Concurrent calls
+  // for the same key share one load; a failed load is not cached.
+  get(key: string, load: () => Promise<T>): Promise<{ value: T; storedAt: string; cached: boolean }>;
+}
+
+export function createTtlCache<T>(ttlMs: number): TtlCache<T> {
+  const entries = new Map<string, { value: Promise<T>; storedAt: string; expiresAt: number }>();
+
+  return {
+    async get(key, load) {
+      const now = Date.now();
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > now) {
+        return { value: await entry.value, storedAt: entry.storedAt, cached: true };
+      }
+      const value = load();
+      const fresh = { value, storedAt: new Date(now).toISOString(), expiresAt: now + ttlMs };
+      entries.set(key, fresh);
+      try {
+        return { value: await value, storedAt: fresh.storedAt, cached: false };
+      } catch (error) {
+        if (entries.get(key) === fresh) entries.delete(key);
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createRouter, requireToken } from "./http.ts";
+import { syncRoutes } from "./syncRoutes.ts";
+import { createSyncStore } from "./syncStore.ts";
+
+const TOKEN = "secret";
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  server = createServer(createRouter(requireToken(syncRoutes(createSyncStore(":memory:"), 1024), TOKEN)));
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function call(path: string, init: RequestInit = {}, token: string | null = TOKEN): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (token !== null) headers.set("Authorization", `Bearer ${token}`);
+  return fetch(`${baseUrl}${path}`, { ...init, headers });
+}
+
+const push = (id: string, baseVersion: unknown, data: object = {}, deviceId = "phone-a") =>
+  call(`/api/records/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ baseVersion, deviceId, data: { id, ...data } }),
+  });
+
+const upload = (id: string, recordId: string, body: string) =>
+  call(`/api/attachments/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "image/png", "X-Record-Id": recordId, "X-File-Name": "nequi.png" },
+    body,
+  });
+
+describe("authentication", () => {
+  it("answers 401 without the token or with a wrong one", async () => {
+    expect((await call("/api/records?since=0", {}, null)).status).toBe(401);
+    expect((await call("/api/records?since=0", {}, "nope")).status).toBe(401);
+    expect((await call("/api/records?since=0")).status).toBe(200);
+  });
+});
+
+describe("records", () => {
+  it("versions every write and flags a write based on an older version", async () => {
+    expect(await (await push("r1", 0, { monto: 1 })).json()).toMatchObject({ version: 1, missingAttachments: [] });
+    expect(await (await push("r1", 1, { monto: 2 }, "phone-b")).json()).toMatchObject({ version: 2 });
+
+    const stale = await (await push("r1", 1, { monto: 3 })).json();
+    expect(stale.version).toBe(3);
+    expect(stale.conflicto).toMatchObject({ version: 2, deviceId: "phone-b", data: { id: "r1", monto: 2 } });
+
+    const resolved = await (await call("/api/records/r1/resolve", { method: "POST", body: JSON.stringify({ deviceId: "phone-a" }) })).json();
+    expect(resolved).toMatchObject({ version: 4, data: { monto: 3 } });
+    expect(resolved.conflicto).toBeUndefined();
+  });
+
+  it("answers 400 to malformed pushes", async () => {
+    expect((await push("r1", -1)).status).toBe(400);
+    expect((await push("r1", 1.5)).status).toBe(400);
+    expect((await push("r1", 1e20)).status).toBe(400);
+    expect((await call("/api/records/r1", { method: "PUT", body: JSON.stringify({ data: { id: "other" } }) })).status).toBe(400);
+    expect((await call("/api/records/r1", { method: "PUT", body: "{" })).status).toBe(400);
+    expect((await call("/api/records?since=-1")).status).toBe(400);
+    expect((await call("/api/records/%E0")).status).toBe(405);
+    expect((await call("/api/records/%E0", { method: "PUT", body: "{}" })).status).toBe(400);
+  });
+
+  it("pages the changes after a cursor", async () => {
+    await push("r1", 0);
+    await push("r2", 0);
+    const { records, cursor } = await (await call("/api/records?since=0")).json();
+    expect(records.map((record: { id: string }) => record.id)).toEqual(["r1", "r2"]);
+    expect((await (await call(`/api/records?since=${cursor}`)).json()).records).toEqual([]);
+  });
+});
+
+describe("attachments", () => {
+  it("stores a receipt of a known record once", async () => {
+    await push("r1", 0, { comprobantes: [{ id: "a1" }] });
+    expect((await upload("a1", "r1", "original")).status).toBe(204);
+
+    expect((await upload("a1", "r1", "replaced")).status).toBe(409);
+    const stored = await call("/api/attachments/a1");
+    expect(await stored.text()).toBe("original");
+    expect(stored.headers.get("X-Record-Id")).toBe("r1");
+  });
+
+  it("rejects a receipt for an unknown record", async () => {
+    expect((await upload("a1", "nonexistent", "bytes")).status).toBe(400);
+    expect((await call("/api/attachments/a1")).status).toBe(404);
+  });
+
+  it("reports the receipts a pushed record still lacks", async () => {
+    const first = await (await push("r1", 0, { comprobantes: [{ id: "a1" }], pagos: [{ comprobante: { id: "a2" } }] })).json();
+    expect(first.missingAttachments).toEqual(["a1", "a2"]);
+    await upload("a1", "r1", "bytes");
+    const second = await (await push("r1", first.version, { comprobantes: [{ id: "a1" }], pagos: [{ comprobante: { id: "a2" } }] })).json();
+    expect(second.missingAttachments).toEqual(["a2"]);
+  });
+});
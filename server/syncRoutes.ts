@@ -0,0 +1,103 @@
+import { decodeComponent, httpError, readBody, readJson, sendError, sendJson, type Route } from "./http.ts";
+import type { SyncStore } from "./syncStore.ts";
+
+// Record payloads are small; receipts are photos and PDFs
+const MAX_RECORD_BYTES = 1024 * 1024;
+const PAGE_SIZE = 200;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * REST API of the sync backend:
+ *
+ * - `GET /api/records?since=<cursor>` records changed after the cursor, in pages
+ * - `PUT /api/records/:id` `{ baseVersion, deviceId, data }` stores a record
+ * - `POST /api/records/:id/resolve` `{ deviceId }` clears a record's conflict flag
+ * - `PUT /api/attachments/:id` uploads a receipt once (raw bytes; record id and file name in headers)
+ * - `GET /api/attachments/:id` downloads it
+ */
+export function syncRoutes(store: SyncStore, maxUploadBytes: number): Route[] {
+  return [
+    {
+      method: "GET",
+      pattern: /^\/api\/records$/,
+      handler(_req, res, _params, url) {
+        const since = Number(url.searchParams.get("since") ?? 0);
+        if (!Number.isInteger(since) || since < 0) {
+          throw httpError(400, "`since` must be a non-negative integer.");
+        }
+        sendJson(res, 200, store.changesSince(since, PAGE_SIZE));
+      },
+    },
+    {
+      method: "PUT",
+      pattern: /^\/api\/records\/([^/]+)$/,
+      async handler(req, res, [id]) {
+        const body = await readJson(req, MAX_RECORD_BYTES);
+        if (!isObject(body) || !isObject(body.data) || body.data.id !== id) {
+          throw httpError(400, "Expected { baseVersion, deviceId, data } with data.id matching the URL.");
+        }
+        const baseVersion = Number(body.baseVersion ?? 0);
+        if (!Number.isSafeInteger(baseVersion) || baseVersion < 0 || typeof body.deviceId !== "string") {
+          throw httpError(400, "`baseVersion` must be a non-negative integer and `deviceId` a string.");
+        }
+        sendJson(res, 200, store.pushRecord(id, baseVersion, body.deviceId, body.data));
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/api\/records\/([^/]+)\/resolve$/,
+      async handler(req, res, [id]) {
+        const body = await readJson(req, MAX_RECORD_BYTES);
+        const deviceId = isObject(body) && typeof body.deviceId === "string" ? body.deviceId : "";
+        const record = store.resolveConflict(id, deviceId);
+        if (!record) {
+          sendError(res, 404, `Record ${id} not found.`);
+          return;
+        }
+        sendJson(res, 200, record);
+      },
+    },
+    {
+      method: "PUT",
+      pattern: /^\/api\/attachments\/([^/]+)$/,
+      async handler(req, res, [id]) {
+        const recordId = req.headers["x-record-id"];
+        const name = req.headers["x-file-name"];
+        if (typeof recordId !== "string" || typeof name !== "string") {
+          throw httpError(400, "X-Record-Id and X-File-Name headers are required.");
+        }
+        const file = { recordId: decodeComponent(recordId, "X-Record-Id"), name: decodeComponent(name, "X-File-Name") };
+        const bytes = await readBody(req, maxUploadBytes);
+        const result = store.saveAttachment(id, { ...file, type: req.headers["content-type"] ?? "application/octet-stream", bytes });
+        if (result === "unknownRecord") {
+          throw httpError(400, `X-Record-Id names no stored record (${file.recordId}).`);
+        }
+        if (result === "exists") {
+          throw httpError(409, `Attachment ${id} is already stored and cannot be replaced.`);
+        }
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/attachments\/([^/]+)$/,
+      handler(_req, res, [id]) {
+        const file = store.loadAttachment(id);
+        if (!file) {
+          sendError(res, 404, `Attachment ${id} not found.`);
+          return;
+        }
+        res.writeHead(200, {
+          "Content-Type": file.type,
+          "Content-Length": file.bytes.byteLength,
+          "X-Record-Id": encodeURIComponent(file.recordId),
+          "X-File-Name": encodeURIComponent(file.name),
+        });
+        res.end(file.bytes);
+      },
+    },
+  ];
+}
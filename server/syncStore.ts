@@ -0,0 +1,216 @@
+import { DatabaseSync } from "node:sqlite";
+
+// --- Wire types (mirrored in services/syncService.ts) ---
+
+// A write that replaced a version the writer had not seen. The last writer
+// wins; the overwritten copy is kept here until someone marks it reviewed.
+export interface SyncConflict {
+  at: string;
+  // Version and device of the overwritten copy
+  version: number;
+  deviceId: string;
+  data: Record<string, unknown>;
+}
+
+export interface RemoteRecord {
+  id: string;
+  version: number;
+  updatedAt: string;
+  deviceId: string;
+  // The record as the app stores it, without sync bookkeeping
+  data: Record<string, unknown>;
+  conflicto?: SyncConflict;
+}
+
+export interface PushResult {
+  version: number;
+  conflicto?: SyncConflict;
+  // Attachments the record lists whose files the server does not hold yet
+  missingAttachments: string[];
+}
+
+export interface ChangesPage {
+  records: RemoteRecord[];
+  // Pass back as `since` to get the changes after this page
+  cursor: number;
+  more: boolean;
+}
+
+export interface StoredFile {
+  recordId: string;
+  name: string;
+  type: string;
+  bytes: Uint8Array;
+}
+
+// Receipts are payment evidence: a stored file is never replaced
+export type SaveAttachmentResult = "saved" | "exists" | "unknownRecord";
+
+export interface SyncStore {
+  pushRecord(id: string, baseVersion: number, deviceId: string, data: Record<string, unknown>): PushResult;
+  resolveConflict(id: string, deviceId: string): RemoteRecord | undefined;
+  changesSince(since: number, limit: number): ChangesPage;
+  saveAttachment(id: string, file: StoredFile): SaveAttachmentResult;
+  loadAttachment(id: string): StoredFile | undefined;
+}
+
+// --- SQLite store ---
+
+// Every write takes the next `seq`, so a device asks for "everything after the
+// last seq I saw" instead of comparing clocks across phones.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    conflict TEXT
+  );
+  CREATE INDEX IF NOT EXISTS records_seq ON records (seq);
+  CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    record_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    bytes BLOB NOT NULL,
+    uploaded_at TEXT NOT NULL
+  );
+`;
+
+interface RecordRow {
+  id: string;
+  version: number;
+  updated_at: string;
+  device_id: string;
+  data: string;
+  conflict: string | null;
+}
+
+function toRemoteRecord(row: RecordRow): RemoteRecord {
+  return {
+    id: row.id,
+    version: row.version,
+    updatedAt: row.updated_at,
+    deviceId: row.device_id,
+    data: JSON.parse(row.data),
+    conflicto: row.conflict ? JSON.parse(row.conflict) : undefined,
+  };
+}
+
+// Receipts and payment proofs listed on a stored record
+function attachmentIds(data: Record<string, unknown>): string[] {
+  const receipts = Array.isArray(data.comprobantes) ? data.comprobantes : [];
+  const payments = Array.isArray(data.pagos) ? data.pagos : [];
+  return [...receipts, ...payments.map(payment => payment?.comprobante)]
+    .map(attachment => attachment?.id)
+    .filter((id): id is string => typeof id === "string");
+}
+
+export function createSyncStore(path: string): SyncStore {
+  const db = new DatabaseSync(path);
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec(SCHEMA);
+
+  const selectRecord = db.prepare("SELECT id, version, updated_at, device_id, data, conflict FROM records WHERE id = ?");
+  const upsertRecord = db.prepare(`
+    INSERT INTO records (id, version, seq, updated_at, device_id, data, conflict)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      version = excluded.version, seq = excluded.seq, updated_at = excluded.updated_at,
+      device_id = excluded.device_id, data = excluded.data, conflict = excluded.conflict
+  `);
+  const selectNextSeq = db.prepare("SELECT COALESCE(MAX(seq), 0) + 1 AS seq FROM records");
+  const selectChanges = db.prepare("SELECT id, version, seq, updated_at, device_id, data, conflict FROM records WHERE seq > ? ORDER BY seq LIMIT ?");
+  const touchRecord = db.prepare("UPDATE records SET seq = ? WHERE id = ?");
+  const selectAttachmentId = db.prepare("SELECT id FROM attachments WHERE id = ?");
+  const selectAttachment = db.prepare("SELECT record_id, name, type, bytes FROM attachments WHERE id = ?");
+  const insertAttachment = db.prepare(`
+    INSERT OR IGNORE INTO attachments (id, record_id, name, type, bytes, uploaded_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const nextSeq = () => Number(selectNextSeq.get()!.seq);
+
+  const transaction = <T>(work: () => T): T => {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = work();
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  const writeRecord = (id: string, version: number, deviceId: string, data: Record<string, unknown>, conflict: SyncConflict | undefined): RecordRow => {
+    const row: RecordRow = {
+      id,
+      version,
+      updated_at: new Date().toISOString(),
+      device_id: deviceId,
+      data: JSON.stringify(data),
+      conflict: conflict ? JSON.stringify(conflict) : null,
+    };
+    upsertRecord.run(row.id, row.version, nextSeq(), row.updated_at, row.device_id, row.data, row.conflict);
+    return row;
+  };
+
+  return {
+    pushRecord(id, baseVersion, deviceId, data) {
+      return transaction(() => {
+        const row = selectRecord.get(id) as RecordRow | undefined;
+        let conflicto: SyncConflict | undefined = row?.conflict ? JSON.parse(row.conflict) : undefined;
+        // The writer edited an older version than the one stored: keep its
+        // write (last writer wins) and flag the copy it replaced
+        if (row && baseVersion < row.version) {
+          conflicto = { at: new Date().toISOString(), version: row.version, deviceId: row.device_id, data: JSON.parse(row.data) };
+        }
+        // A base ahead of the server means the server lost data; keep counting from the device
+        const version = Math.max(row?.version ?? 0, baseVersion) + 1;
+        writeRecord(id, version, deviceId, data, conflicto);
+        const missingAttachments = attachmentIds(data).filter(attachmentId => !selectAttachmentId.get(attachmentId));
+        return { version, conflicto, missingAttachments };
+      });
+    },
+
+    resolveConflict(id, deviceId) {
+      return transaction(() => {
+        const row = selectRecord.get(id) as RecordRow | undefined;
+        if (!row) return undefined;
+        // A new version, so devices that already pulled the conflict drop it too
+        return toRemoteRecord(writeRecord(id, row.version + 1, deviceId, JSON.parse(row.data), undefined));
+      });
+    },
+
+    changesSince(since, limit) {
+      const rows = selectChanges.all(since, limit + 1) as unknown as (RecordRow & { seq: number })[];
+      const page = rows.slice(0, limit);
+      return {
+        records: page.map(toRemoteRecord),
+        cursor: page.length > 0 ? page[page.length - 1].seq : since,
+        more: rows.length > limit,
+      };
+    },
+
+    saveAttachment(id, file) {
+      return transaction(() => {
+        if (!selectRecord.get(file.recordId)) return "unknownRecord";
+        if (insertAttachment.run(id, file.recordId, file.name, file.type, file.bytes, new Date().toISOString()).changes === 0) {
+          return "exists";
+        }
+        // Devices that pulled the record before its files arrived fetch it again
+        touchRecord.run(nextSeq(), file.recordId);
+        return "saved";
+      });
+    },
+
+    loadAttachment(id) {
+      const row = selectAttachment.get(id);
+      if (!row) return undefined;
+      return { recordId: String(row.record_id), name: String(row.name), type: String(row.type), bytes: row.bytes as Uint8Array };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+// --- Server access key ---
+// The server in server/ only answers requests that carry its SYNC_TOKEN as a
+// bearer token. Each device keeps the key typed in Settings; it is never built
+// into the app, which anyone who opens it can read.
+
+const API_TOKEN_STORAGE_KEY = "apiToken";
+
+export function loadApiToken(): string {
+  return localStorage.getItem(API_TOKEN_STORAGE_KEY) ?? "";
+}
+
+export function saveApiToken(token: string): void {
+  if (token) {
+    localStorage.setItem(API_TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(API_TOKEN_STORAGE_KEY);
+  }
+}
+
+/** `headers` plus the `Authorization` header, when the device has a key. */
+export function withApiToken(headers: Record<string, string> = {}): Record<string, string> {
+  const token = loadApiToken();
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+}
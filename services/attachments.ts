@@ -0,0 +1,113 @@
+import type { Attachment, LiquidationRecord } from "../App";
+
+// A file picked in the calculator or the edit modal that is not persisted yet.
+// Its object URL is created up front so it can be previewed before saving.
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  url: string;
+  monto?: number;
+  sha256?: string;
+}
+
+export const ACCEPTED_ATTACHMENT_TYPES = "image/*,.pdf";
+
+/**
+ * Hex SHA-256 of the file contents. Web Crypto only exists in secure contexts
+ * (HTTPS or localhost); elsewhere the hash is left out rather than blocking the upload.
+ */
+export async function hashFile(file: Blob): Promise<string | undefined> {
+  try {
+    const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+  } catch (error) {
+    console.error("Error hashing attachment:", error);
+    return undefined;
+  }
+}
+
+export async function createPendingAttachments(files: Iterable<File>): Promise<PendingAttachment[]> {
+  return Promise.all(
+    [...files].map(async file => ({
+      id: `${Date.now()}-${Math.random()}`,
+      file,
+      url: URL.createObjectURL(file),
+      sha256: await hashFile(file),
+    }))
+  );
+}
+
+export function toAttachment({ id, file, url, monto, sha256 }: PendingAttachment): Attachment {
+  return { id, name: file.name, type: file.type, size: file.size, monto, url, sha256 };
+}
+
+export function revokeAttachmentUrls(attachments: { url: string }[]): void {
+  attachments.forEach(attachment => {
+    if (attachment.url) {
+      URL.revokeObjectURL(attachment.url);
+    }
+  });
+}
+
+export function isImageAttachment({ type, name }: { type: string; name: string }): boolean {
+  return type.startsWith("image/") || /\.(png|jpe?g|gif|webp|bmp)$/i.test(name);
+}
+
+export function isPdfAttachment({ type, name }: { type: string; name: string }): boolean {
+  return type === "application/pdf" || /\.pdf$/i.test(name);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Every file of a record: its receipts plus the proofs of its BRL payments. Also takes stored records. */
+export function recordAttachments<T>(record: { comprobantes: T[]; pagos: { comprobante?: T }[] }): T[] {
+  return [...record.comprobantes, ...record.pagos.flatMap(payment => (payment.comprobante ? [payment.comprobante] : []))];
+}
+
+export function attachmentNames(attachments: Attachment[]): string {
+  return attachments.map(attachment => attachment.name).join(" | ");
+}
+
+// --- Duplicate receipts ---
+
+export interface DuplicateReceipt {
+  // Name of the attachment being checked
+  name: string;
+  record: LiquidationRecord;
+}
+
+/** Maps every attachment hash to the records holding a file with that content. */
+export function indexReceiptHashes(records: LiquidationRecord[]): Map<string, LiquidationRecord[]> {
+  const index = new Map<string, LiquidationRecord[]>();
+  for (const record of records) {
+    for (const attachment of record.comprobantes) {
+      if (!attachment.sha256) continue;
+      const holders = index.get(attachment.sha256) ?? [];
+      if (!holders.includes(record)) {
+        holders.push(record);
+      }
+      index.set(attachment.sha256, holders);
+    }
+  }
+  return index;
+}
+
+/**
+ * Other records that already hold one of `attachments`. `excludeRecordId` is the
+ * record being edited, which naturally holds its own files.
+ */
+export function findDuplicateReceipts(
+  attachments: { name: string; sha256?: string }[],
+  hashIndex: Map<string, LiquidationRecord[]>,
+  excludeRecordId?: string,
+): DuplicateReceipt[] {
+  return attachments.flatMap(attachment =>
+    (attachment.sha256 ? hashIndex.get(attachment.sha256) ?? [] : [])
+      .filter(record => record.id !== excludeRecordId)
+      .map(record => ({ name: attachment.name, record }))
+  );
+}
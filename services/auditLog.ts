@@ -0,0 +1,114 @@
+import type { LiquidationRecord, Payment, RecordStatus } from "../App";
+import { attachmentNames } from "./attachments";
+import { formatNumber, t } from "./i18n";
+import { statusLabel } from "./payments";
+
+// --- Audit trail ---
+// Entries are only ever appended, by storageService in the same transaction as
+// the record write they describe; nothing updates or deletes them.
+
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+export interface FieldChange {
+  field: string;
+  // JSON values as stored on the record; undefined when the field was absent
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  recordId: string;
+  action: AuditAction;
+  // ISO timestamp of the change
+  at: string;
+  changes: FieldChange[];
+  reason?: string;
+}
+
+// Fields with a label; any other field is shown by its name
+const AUDIT_FIELDS = [
+  "fecha",
+  "monedaOrigen",
+  "monedaDestino",
+  "direccionTasa",
+  "valorOrigen",
+  "montosPorCanal",
+  "comisionOrigen",
+  "liquidoOrigen",
+  "tasa",
+  "totalDestino",
+  "comprobantes",
+  "referencia",
+  "estado",
+  "pagos",
+  "tasaFuente",
+  "tasaFecha",
+  "tasaCotizada",
+  "reglaComision",
+  "porcentajeComision",
+  "clienteId",
+  "eliminadoEn",
+  // Fields of entries logged before records carried a currency pair (schema v6)
+  "valorCop",
+  "comisionCop",
+  "liquidoCop",
+  "tasaBrlCop",
+  "totalBrl",
+  "pagosBrl",
+] as const;
+
+export function auditActionLabel(action: AuditAction): string {
+  return t(`audit.action.${action}`);
+}
+
+export function auditFieldLabel(field: string): string {
+  const known = AUDIT_FIELDS.find(f => f === field);
+  return known ? t(`audit.field.${known}`) : field;
+}
+
+// Bookkeeping fields that change without the operator touching the record
+const IGNORED_FIELDS = new Set(["id", "schemaVersion", "createdAt", "syncVersion", "conflicto"]);
+
+/**
+ * Field-by-field differences between two versions of a record, compared by
+ * their JSON form. `before` is null for a newly created record.
+ */
+export function diffRecords(before: object | null, after: object): FieldChange[] {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])].filter(field => !IGNORED_FIELDS.has(field));
+  return fields
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, before: previous[field], after: next[field] }));
+}
+
+export function createAuditEntry(recordId: string, action: AuditAction, changes: FieldChange[], reason?: string): AuditEntry {
+  const at = new Date().toISOString();
+  return { id: `${at}-${Math.random()}`, recordId, action, at, changes, reason: reason?.trim() || undefined };
+}
+
+/** Human-readable form of a logged value, for the change history and exports. */
+export function formatAuditValue(field: string, value: unknown, clientName?: (clientId?: string) => string): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (field === "clienteId" && clientName) return clientName(String(value)) || String(value);
+  if (field === "comprobantes" && Array.isArray(value)) return attachmentNames(value as LiquidationRecord["comprobantes"]) || "—";
+  if (field === "estado") return statusLabel(value as RecordStatus);
+  if (field === "pagos" && Array.isArray(value)) {
+    return (value as Payment[])
+      .map(payment => `${payment.fecha}: ${payment.monto.toFixed(2)}${payment.referencia ? ` (${payment.referencia})` : ""}`)
+      .join(", ") || "—";
+  }
+  if (field === "pagosBrl" && Array.isArray(value)) {
+    return (value as { fecha: string; montoBrl: number; referencia?: string }[])
+      .map(payment => `${payment.fecha}: ${payment.montoBrl.toFixed(2)} BRL${payment.referencia ? ` (${payment.referencia})` : ""}`)
+      .join(", ") || "—";
+  }
+  if (field === "reglaComision" && typeof value === "object" && "name" in value) return String(value.name);
+  if (field === "montosPorCanal" && typeof value === "object") {
+    return Object.entries(value as Record<string, number>).map(([channel, amount]) => `${channel}: ${amount.toFixed(2)}`).join(", ") || "—";
+  }
+  if (typeof value === "number") return formatNumber(value, { maximumFractionDigits: 6 });
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
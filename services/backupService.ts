@@ -0,0 +1,139 @@
+import type { Client } from "../App";
+import { RECORD_SCHEMA_VERSION, readSnapshot, restoreSnapshot, type RestoreReport, type StoredAttachment, type StoredRecord } from "./storageService";
+import type { AuditEntry } from "./auditLog";
+import { t } from "./i18n";
+import type { RateLogEntry } from "./rateHistory";
+import { createZip, readZip } from "./zip";
+
+const BACKUP_FORMAT = "liquidacion-brl-cop-backup";
+// Bump when the archive layout changes; restore refuses versions it does not know.
+export const BACKUP_VERSION = 4;
+const MANIFEST_PATH = "manifest.json";
+
+interface AttachmentEntry {
+  id: string;
+  recordId: string;
+  name: string;
+  type: string;
+  path: string;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  recordSchemaVersion: number;
+  records: StoredRecord[];
+  clients: Client[];
+  // Exchange-rate log; absent before v3
+  rates?: RateLogEntry[];
+  // Audit trail; absent before v4
+  audit?: AuditEntry[];
+  // Attachment bytes live next to the manifest at `path`.
+  attachments: AttachmentEntry[];
+}
+
+// v1 archives held one receipt per record; it becomes the attachment whose id is the record id.
+type LegacyManifest = Omit<BackupManifest, "attachments"> & { receipts: Omit<AttachmentEntry, "id">[] };
+
+export interface BackupSummary {
+  records: number;
+  attachments: number;
+  clients: number;
+  rates: number;
+  auditEntries: number;
+}
+
+/** Packs every record, client and attachment file into one ZIP archive. */
+export async function createBackup(): Promise<{ blob: Blob; summary: BackupSummary }> {
+  const snapshot = await readSnapshot();
+  const attachmentEntries = await Promise.all(
+    snapshot.attachments.map(async attachment => ({
+      id: attachment.id,
+      recordId: attachment.recordId,
+      name: attachment.name,
+      type: attachment.blob.type,
+      path: `attachments/${attachment.recordId}/${attachment.id}-${attachment.name.replace(/[\\/]/g, "_")}`,
+      data: new Uint8Array(await attachment.blob.arrayBuffer()),
+    }))
+  );
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    recordSchemaVersion: RECORD_SCHEMA_VERSION,
+    records: snapshot.records,
+    clients: snapshot.clients,
+    rates: snapshot.rates,
+    audit: snapshot.audit,
+    attachments: attachmentEntries.map(({ data: _data, ...entry }) => entry),
+  };
+
+  const blob = createZip([
+    { name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) },
+    ...attachmentEntries.map(entry => ({ name: entry.path, data: entry.data })),
+  ]);
+  return {
+    blob,
+    summary: { records: snapshot.records.length, attachments: attachmentEntries.length, clients: snapshot.clients.length, rates: snapshot.rates.length, auditEntries: snapshot.audit.length },
+  };
+}
+
+function validateManifest(value: unknown): BackupManifest {
+  const manifest = value as Partial<BackupManifest & LegacyManifest> | null;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    throw new Error(t("backup.notBackup"));
+  }
+  if (typeof manifest.version !== "number" || manifest.version > BACKUP_VERSION) {
+    throw new Error(t("backup.newerVersion", { version: String(manifest.version) }));
+  }
+  if (manifest.version < 2 && Array.isArray(manifest.receipts)) {
+    manifest.attachments = manifest.receipts.map(entry => ({ ...entry, id: entry.recordId }));
+  }
+  if (!Array.isArray(manifest.records) || !Array.isArray(manifest.clients) || !Array.isArray(manifest.attachments)) {
+    throw new Error(t("backup.incomplete"));
+  }
+  const invalid = manifest.records.find(record =>
+    typeof record?.id !== "string" ||
+    typeof record.fecha !== "string" ||
+    // Records from before currency pairs (schema v6) still carry valorCop
+    typeof (record.valorOrigen ?? (record as { valorCop?: unknown }).valorCop) !== "number" ||
+    typeof record.schemaVersion !== "number" ||
+    record.schemaVersion > RECORD_SCHEMA_VERSION
+  );
+  if (invalid) {
+    throw new Error(t("backup.invalidRecord", { id: invalid?.id ?? t("backup.noId") }));
+  }
+  return manifest as BackupManifest;
+}
+
+/**
+ * Restores an archive produced by createBackup. Attachments whose file is
+ * missing from the archive are skipped; their records are still restored.
+ */
+export async function restoreBackup(file: Blob, mode: "merge" | "replace"): Promise<RestoreReport> {
+  let files: Map<string, Uint8Array>;
+  let manifest: BackupManifest;
+  try {
+    files = await readZip(file);
+    const manifestBytes = files.get(MANIFEST_PATH);
+    if (!manifestBytes) {
+      throw new Error(t("backup.noManifest"));
+    }
+    manifest = validateManifest(JSON.parse(new TextDecoder().decode(manifestBytes)));
+  } catch (error) {
+    console.error("Error reading backup archive:", error);
+    // Our own validation errors are already user-facing; parser errors are not
+    throw error instanceof Error && error.name === "Error" ? error : new Error(t("backup.unreadable"));
+  }
+
+  const attachments: StoredAttachment[] = manifest.attachments.flatMap(entry => {
+    const data = files.get(entry.path);
+    return data
+      ? [{ id: entry.id, recordId: entry.recordId, name: entry.name, blob: new File([data], entry.name, { type: entry.type }) }]
+      : [];
+  });
+
+  return restoreSnapshot({ records: manifest.records, clients: manifest.clients, attachments, rates: manifest.rates ?? [], audit: manifest.audit ?? [] }, mode);
+}
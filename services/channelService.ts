@@ -0,0 +1,54 @@
+// A way money is received in COP (Nequi, Bancolombia, cash, a Bre-B key...).
+// Channels are archived rather than deleted so old records keep resolving their names.
+export interface PaymentChannel {
+  id: string;
+  label: string;
+  archived: boolean;
+  // Optional default commission for this channel; a rule set's channel percentage wins over it.
+  percent?: number;
+}
+
+export const DEFAULT_CHANNELS: PaymentChannel[] = [
+  { id: "nequi", label: "Nequi", archived: false },
+  { id: "bancolombia", label: "Bancolombia", archived: false },
+  { id: "daviplata", label: "Daviplata", archived: false },
+];
+
+const CHANNELS_STORAGE_KEY = "paymentChannels";
+
+// Returns the whole catalog, archived channels included, in display order.
+export function loadChannels(): PaymentChannel[] {
+  try {
+    const stored = localStorage.getItem(CHANNELS_STORAGE_KEY);
+    const channels: PaymentChannel[] = stored ? JSON.parse(stored) : [];
+    return channels.length > 0 ? channels : DEFAULT_CHANNELS;
+  } catch (error) {
+    console.error("Error loading payment channels:", error);
+    return DEFAULT_CHANNELS;
+  }
+}
+
+export function saveChannels(channels: PaymentChannel[]): void {
+  localStorage.setItem(CHANNELS_STORAGE_KEY, JSON.stringify(channels));
+}
+
+export function getActiveChannels(channels: PaymentChannel[]): PaymentChannel[] {
+  return channels.filter(channel => !channel.archived);
+}
+
+export function channelLabel(channels: PaymentChannel[], id: string): string {
+  return channels.find(channel => channel.id === id)?.label ?? id;
+}
+
+/**
+ * Channels that appear in any of the given breakdowns, in catalog order.
+ * Ids no longer in the catalog are appended so their amounts are never dropped.
+ */
+export function channelsUsedIn(channels: PaymentChannel[], breakdowns: Record<string, number>[]): PaymentChannel[] {
+  const usedIds = new Set(breakdowns.flatMap(breakdown => Object.keys(breakdown)));
+  const known = channels.filter(channel => usedIds.has(channel.id));
+  const unknown = [...usedIds]
+    .filter(id => !channels.some(channel => channel.id === id))
+    .map(id => ({ id, label: id, archived: true }));
+  return [...known, ...unknown];
+}
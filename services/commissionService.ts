@@ -0,0 +1,139 @@
+import { fromCents, percentOfScaled, roundToCurrency, toCents, unscalePercent, type Currency } from "./money";
+import type { PaymentChannel } from "./channelService";
+import { t } from "./i18n";
+
+// Applies `percent` to totals up to and including `upTo`; `null` means no upper limit.
+// Thresholds and fees are in the source currency of the liquidation they are applied to.
+export interface CommissionTier {
+  upTo: number | null;
+  percent: number;
+}
+
+export interface CommissionRuleSet {
+  id: string;
+  name: string;
+  // Base percentage, used when no tier matches the total.
+  percent: number;
+  // Percentage by total amount; tiers are matched in ascending `upTo` order.
+  tiers: CommissionTier[];
+  // Percentages keyed by channel id that replace the base/tier percentage for that channel.
+  channelPercents: Record<string, number>;
+  fixedFee: number;
+  minimumFee: number;
+}
+
+// Amounts in integer cents, see money.ts.
+export type ChannelAmounts = Record<string, bigint>;
+
+export interface CommissionResult {
+  comisionCents: bigint;
+  // Effective percentage over the total, for display and for storing on the record.
+  porcentaje: number;
+}
+
+// The rule that was hard-coded before rule sets existed; also used to migrate old records.
+export const LEGACY_RULE_SET: CommissionRuleSet = {
+  id: "default",
+  name: "Estándar 10%",
+  percent: 10,
+  tiers: [],
+  channelPercents: {},
+  fixedFee: 0,
+  minimumFee: 0,
+};
+
+const RULE_SETS_STORAGE_KEY = "commissionRuleSets";
+const ACTIVE_RULE_SET_STORAGE_KEY = "activeCommissionRuleSet";
+
+export function loadRuleSets(): CommissionRuleSet[] {
+  try {
+    const stored = localStorage.getItem(RULE_SETS_STORAGE_KEY);
+    const ruleSets: CommissionRuleSet[] = stored ? JSON.parse(stored) : [];
+    return ruleSets.length > 0 ? ruleSets : [LEGACY_RULE_SET];
+  } catch (error) {
+    console.error("Error loading commission rule sets:", error);
+    return [LEGACY_RULE_SET];
+  }
+}
+
+export function saveRuleSets(ruleSets: CommissionRuleSet[]): void {
+  localStorage.setItem(RULE_SETS_STORAGE_KEY, JSON.stringify(ruleSets));
+}
+
+export function loadActiveRuleSetId(): string {
+  return localStorage.getItem(ACTIVE_RULE_SET_STORAGE_KEY) ?? LEGACY_RULE_SET.id;
+}
+
+export function saveActiveRuleSetId(id: string): void {
+  localStorage.setItem(ACTIVE_RULE_SET_STORAGE_KEY, id);
+}
+
+function percentForTotal(ruleSet: CommissionRuleSet, total: number): number {
+  const tier = [...ruleSet.tiers]
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+    .find(t => t.upTo === null || total <= t.upTo);
+  return tier ? tier.percent : ruleSet.percent;
+}
+
+/**
+ * Computes the commission for a set of channel amounts. Amounts that are not
+ * attributed to a channel can be passed under `totalCents` only. The result is
+ * rounded to the currency the amounts are in (whole pesos for COP).
+ */
+export function computeCommission(ruleSet: CommissionRuleSet, amounts: ChannelAmounts, totalCents?: bigint, currency: Currency = "COP"): CommissionResult {
+  const channelTotal = Object.values(amounts).reduce<bigint>((sum, value) => sum + value, 0n);
+  const saldo = totalCents ?? channelTotal;
+  if (saldo <= 0n) {
+    return { comisionCents: 0n, porcentaje: 0 };
+  }
+
+  const basePercent = percentForTotal(ruleSet, fromCents(saldo));
+  let variableScaled = 0n;
+  for (const [channel, amount] of Object.entries(amounts)) {
+    variableScaled += percentOfScaled(amount, ruleSet.channelPercents[channel] ?? basePercent);
+  }
+  // Anything not broken down by channel is charged at the base/tier percentage
+  if (saldo > channelTotal) {
+    variableScaled += percentOfScaled(saldo - channelTotal, basePercent);
+  }
+
+  // The fixed fee is 100% of itself, so it joins the exact sum and everything is rounded once
+  const fixedScaled = percentOfScaled(toCents(ruleSet.fixedFee), 100);
+  let comision = unscalePercent(variableScaled + fixedScaled, currency);
+  const minimum = roundToCurrency(toCents(ruleSet.minimumFee), currency);
+  if (comision < minimum) comision = minimum;
+  if (comision > saldo) comision = saldo;
+
+  return { comisionCents: comision, porcentaje: (Number(comision) / Number(saldo)) * 100 };
+}
+
+/**
+ * Folds the channels' own default percentages into a rule set. The rule set's
+ * explicit channel percentages still win. The result is what gets snapshotted
+ * on a record.
+ */
+export function withChannelDefaults(ruleSet: CommissionRuleSet, channels: PaymentChannel[]): CommissionRuleSet {
+  const defaults: Record<string, number> = {};
+  for (const channel of channels) {
+    if (channel.percent !== undefined) {
+      defaults[channel.id] = channel.percent;
+    }
+  }
+  return { ...ruleSet, channelPercents: { ...defaults, ...ruleSet.channelPercents } };
+}
+
+export function describeRuleSet(ruleSet: CommissionRuleSet): string {
+  const parts: string[] = [];
+  parts.push(ruleSet.tiers.length > 0 ? t("commission.formulaTiers") : t("commission.formulaPercent", { percent: ruleSet.percent }));
+  if (ruleSet.fixedFee > 0) {
+    parts.push(`$${ruleSet.fixedFee}`);
+  }
+  let description = `=${parts.join(" + ")}`;
+  if (Object.keys(ruleSet.channelPercents).length > 0) {
+    description += t("commission.channelRates");
+  }
+  if (ruleSet.minimumFee > 0) {
+    description += t("commission.minimumFee", { amount: ruleSet.minimumFee });
+  }
+  return description;
+}
@@ -0,0 +1,88 @@
+import { divideByRate, multiplyByRate, type Currency } from "./money";
+
+// --- Currency pairs ---
+// A liquidation receives money in the source currency and pays it out in the
+// target currency. Rates are quoted the way the market quotes them, as units of
+// `quote` per one unit of `base` (BRL/COP ≈ 750 COP per BRL), so COP → BRL and
+// BRL → COP share the same rate and only differ in the direction it is applied.
+
+// "divide": target = source / rate (source is the quote currency).
+// "multiply": target = source * rate (source is the base currency).
+export type RateDirection = "divide" | "multiply";
+
+export interface CurrencyPair {
+  id: string;
+  source: Currency;
+  target: Currency;
+  base: Currency;
+  quote: Currency;
+}
+
+export const CURRENCY_PAIRS: CurrencyPair[] = [
+  { id: "COP-BRL", source: "COP", target: "BRL", base: "BRL", quote: "COP" },
+  { id: "COP-USD", source: "COP", target: "USD", base: "USD", quote: "COP" },
+  { id: "COP-USDT", source: "COP", target: "USDT", base: "USDT", quote: "COP" },
+  { id: "BRL-COP", source: "BRL", target: "COP", base: "BRL", quote: "COP" },
+];
+
+// Every record registered before currency pairs existed settled COP → BRL
+export const DEFAULT_PAIR = CURRENCY_PAIRS[0];
+
+export const CURRENCY_NAMES: Record<Currency, string> = {
+  COP: "Colombian Pesos",
+  BRL: "Brazilian Reais",
+  USD: "US Dollars",
+  USDT: "Tether USD stablecoin",
+};
+
+export function rateDirection(pair: CurrencyPair): RateDirection {
+  return pair.source === pair.base ? "multiply" : "divide";
+}
+
+export function findPair(source: Currency, target: Currency): CurrencyPair | undefined {
+  return CURRENCY_PAIRS.find(pair => pair.source === source && pair.target === target);
+}
+
+/** The pair a record was settled in. */
+export function pairOf(record: { monedaOrigen: Currency; monedaDestino: Currency }): CurrencyPair {
+  return findPair(record.monedaOrigen, record.monedaDestino) ?? DEFAULT_PAIR;
+}
+
+export function findPairById(id: string): CurrencyPair | undefined {
+  return CURRENCY_PAIRS.find(pair => pair.id === id);
+}
+
+// "COP → BRL"
+export function pairLabel(pair: CurrencyPair): string {
+  return `${pair.source} → ${pair.target}`;
+}
+
+// The market a pair's rate is quoted in, e.g. "BRL/COP"; rate logs and caches are keyed by it
+export function marketOf(pair: CurrencyPair): string {
+  return `${pair.base}/${pair.quote}`;
+}
+
+export const DEFAULT_MARKET = marketOf(DEFAULT_PAIR);
+
+/** Converts source-currency cents to the target currency, rounded to what the target is settled in. */
+export function convertAtRate(cents: bigint, rate: number, pair: CurrencyPair): bigint {
+  return rateDirection(pair) === "divide" ? divideByRate(cents, rate, pair.target) : multiplyByRate(cents, rate, pair.target);
+}
+
+// --- Formatting ---
+
+const CURRENCY_LOCALES: Record<Currency, string> = {
+  COP: "es-CO",
+  BRL: "pt-BR",
+  USD: "en-US",
+  USDT: "en-US",
+};
+
+export function formatCurrency(value: number, currency: Currency): string {
+  const options = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+  // Intl only knows ISO 4217 codes; the stablecoin is written as a plain amount
+  if (currency === "USDT") {
+    return `${new Intl.NumberFormat(CURRENCY_LOCALES.USDT, options).format(value)} USDT`;
+  }
+  return new Intl.NumberFormat(CURRENCY_LOCALES[currency], { style: "currency", currency, ...options }).format(value);
+}
@@ -1,40 +1,207 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { DEFAULT_MARKET, marketOf, type CurrencyPair } from "./currencyPairs";
+import { postToGeminiProxy } from "./geminiProxy";
+import { t } from "./i18n";
+import { isRateInBand, loadRateValidationConfig, type RateValidationConfig } from "./rateValidation";
 
-// The API key is expected to be available in the environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// A single exchange-rate answer together with where and when it came from.
+export interface RateQuote {
+  // Market the rate is quoted in, e.g. "BRL/COP" (see marketOf)
+  market: string;
+  rate: number;
+  provider: string;
+  fetchedAt: string;
+  // Quote from the next provider in the chain, used to cross-check this one
+  crossCheck?: RateQuote;
+  // Set when no provider could be reached and the last known quote is reused
+  stale?: boolean;
+}
+
+// A source of exchange rates, quoted as units of pair.quote per pair.base.
+// Providers are tried in order by fetchRate.
+export interface RateProvider {
+  name: string;
+  fetchRate(pair: CurrencyPair): Promise<number>;
+}
+
+// --- Gemini provider ---
+
+// Asks Gemini through the server's proxy (see services/geminiProxy.ts), which
+// may answer from its cache for a few minutes.
+export function createGeminiRateProvider(): RateProvider {
+  return {
+    name: "Gemini",
+    async fetchRate({ base, quote }) {
+      const { rate } = await postToGeminiProxy<{ rate: unknown }>("rate", JSON.stringify({ base, quote }), "application/json");
+      if (typeof rate !== "number" || isNaN(rate)) {
+        throw new Error(t("rates.error.unparsable"));
+      }
+      return rate;
+    },
+  };
+}
 
-export async function fetchBrlCopRate(): Promise<number> {
+// --- Generic JSON HTTP provider ---
+
+export interface JsonHttpRateProviderOptions {
+  name?: string;
+  // "{base}" and "{quote}" in the url and path are replaced with the pair's
+  // currency codes. Without them the endpoint only answers BRL/COP.
+  url: string;
+  // Dot-separated path to the rate inside the JSON body, e.g. "rates.COP".
+  path: string;
+}
+
+function readPath(body: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>((value, key) => (value != null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined), body);
+}
+
+export function createJsonHttpRateProvider({ name = "HTTP JSON", url, path }: JsonHttpRateProviderOptions): RateProvider {
+  return {
+    name,
+    async fetchRate(pair) {
+      const fill = (template: string) => template.replace(/\{base\}/g, pair.base).replace(/\{quote\}/g, pair.quote);
+      const isTemplate = /\{(base|quote)\}/.test(url + path);
+      if (!isTemplate && marketOf(pair) !== DEFAULT_MARKET) {
+        throw new Error(t("rates.error.endpointMarket", { market: marketOf(pair) }));
+      }
+      const response = await fetch(fill(url), { headers: { Accept: "application/json" } });
+      if (!response.ok) {
+        throw new Error(t("rates.error.endpointStatus", { status: response.status }));
+      }
+      const value = readPath(await response.json(), fill(path));
+      const rate = typeof value === "string" ? parseFloat(value) : value;
+      if (typeof rate !== "number" || isNaN(rate)) {
+        throw new Error(t("rates.error.endpointPath", { path: fill(path) }));
+      }
+      return rate;
+    },
+  };
+}
+
+// --- Manual provider ---
+
+// BRL/COP keeps the key it had before other markets existed
+const manualRateStorageKey = (market: string) =>
+  market === DEFAULT_MARKET ? "manualBrlCopRate" : `manualRate:${market}`;
+
+// Remembers the last rate the operator typed so it can act as the final fallback.
+export function saveManualRate(rate: number, market: string = DEFAULT_MARKET): void {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: "What is the current exchange rate for 1 Brazilian Real (BRL) to Colombian Pesos (COP)? Provide only the numerical value, using a period as the decimal separator and no thousands separators.",
-      config: {
-        tools: [{ googleSearch: {} }],
-        // Set temperature to 0 for a deterministic, factual answer
-        temperature: 0,
-      },
-    });
-
-    const text = response.text;
-    
-    // Extract the first number found in the text.
-    // This regex handles numbers with an optional decimal part.
-    const match = text.match(/[\d.]+/);
-
-    if (match && match[0]) {
-      const rate = parseFloat(match[0]);
-      if (!isNaN(rate)) {
-        return rate;
+    localStorage.setItem(manualRateStorageKey(market), String(rate));
+  } catch (error) {
+    console.error("Error saving manual exchange rate:", error);
+  }
+}
+
+export function createManualRateProvider(): RateProvider {
+  return {
+    name: "Manual",
+    async fetchRate(pair) {
+      const stored = parseFloat(localStorage.getItem(manualRateStorageKey(marketOf(pair))) ?? "");
+      if (isNaN(stored) || stored <= 0) {
+        throw new Error(t("rates.error.noManualRate", { market: marketOf(pair) }));
       }
-    }
-    
-    // This error will be caught and displayed to the user.
-    throw new Error("Could not parse a valid exchange rate from the AI response.");
+      return stored;
+    },
+  };
+}
+
+// --- Last known quote ---
+
+const lastQuoteStorageKey = (market: string) =>
+  market === DEFAULT_MARKET ? "lastBrlCopQuote" : `lastRateQuote:${market}`;
 
+// The most recent quote fetchRate returned for the market, kept for offline use.
+export function loadLastQuote(market: string = DEFAULT_MARKET): RateQuote | null {
+  try {
+    const stored = localStorage.getItem(lastQuoteStorageKey(market));
+    // Quotes saved before markets were recorded are BRL/COP
+    return stored ? { market, ...JSON.parse(stored) } : null;
   } catch (error) {
-    console.error("Error fetching exchange rate:", error);
+    console.error("Error loading last exchange rate quote:", error);
+    return null;
+  }
+}
+
+function saveLastQuote({ market, rate, provider, fetchedAt }: RateQuote): void {
+  try {
+    localStorage.setItem(lastQuoteStorageKey(market), JSON.stringify({ market, rate, provider, fetchedAt }));
+  } catch (error) {
+    console.error("Error saving last exchange rate quote:", error);
+  }
+}
+
+function staleLastQuote(market: string): RateQuote | null {
+  const last = loadLastQuote(market);
+  return last ? { ...last, stale: true } : null;
+}
+
+// --- Fallback chain ---
+
+export function getDefaultRateProviders(): RateProvider[] {
+  const providers: RateProvider[] = [createGeminiRateProvider()];
+  if (process.env.RATE_API_URL) {
+    providers.push(createJsonHttpRateProvider({ url: process.env.RATE_API_URL, path: process.env.RATE_API_PATH ?? "" }));
+  }
+  providers.push(createManualRateProvider());
+  return providers;
+}
+
+async function fetchFirstValidQuote(
+  pair: CurrencyPair,
+  providers: RateProvider[],
+  config: RateValidationConfig,
+): Promise<{ quote: RateQuote; index: number } | null> {
+  const market = marketOf(pair);
+  for (const [index, provider] of providers.entries()) {
+    try {
+      const rate = await provider.fetchRate(pair);
+      if (!isRateInBand(rate, config, market)) {
+        // An implausible answer (a year, a percentage, "1") falls through to the next provider.
+        console.error(`Rejected implausible exchange rate ${rate} from ${provider.name}.`);
+        continue;
+      }
+      return { quote: { market, rate, provider: provider.name, fetchedAt: new Date().toISOString() }, index };
+    } catch (error) {
+      console.error(`Error fetching exchange rate from ${provider.name}:`, error);
+    }
+  }
+  return null;
+}
+
+/** Quotes the rate of the pair's market; COP → BRL and BRL → COP get the same BRL/COP quote. */
+export async function fetchRate(
+  pair: CurrencyPair,
+  providers: RateProvider[] = getDefaultRateProviders(),
+  config: RateValidationConfig = loadRateValidationConfig(),
+): Promise<RateQuote> {
+  const market = marketOf(pair);
+  // Offline the network providers cannot answer; the last fetched quote beats an old manual rate
+  const offlineQuote = navigator.onLine ? null : staleLastQuote(market);
+  if (offlineQuote) {
+    return offlineQuote;
+  }
+
+  const first = await fetchFirstValidQuote(pair, providers, config);
+  if (!first) {
+    const lastQuote = staleLastQuote(market);
+    if (lastQuote) {
+      return lastQuote;
+    }
     // Re-throw a user-friendly error message.
-    throw new Error("Failed to fetch BRL-COP exchange rate from the AI service.");
+    throw new Error(t("rates.error.allFailed", { market }));
+  }
+  saveLastQuote(first.quote);
+
+  if (config.requireAgreement) {
+    const second = await fetchFirstValidQuote(pair, providers.slice(first.index + 1), config);
+    if (second) {
+      return { ...first.quote, crossCheck: second.quote };
+    }
   }
+  return first.quote;
 }
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { LiquidationRecord, Payment } from "../App";
+import { DEFAULT_CHANNELS } from "./channelService";
+import { LEGACY_RULE_SET } from "./commissionService";
+import { findPair, rateDirection, type CurrencyPair } from "./currencyPairs";
+import { buildExportTable, toCsv, type CsvOptions } from "./exportService";
+import { getLocale, setLocale } from "./i18n";
+import { guessMapping, parseCsv, validateImport } from "./importService";
+import { calculateLiquidation } from "./liquidationCalculator";
+import { paidTotal } from "./payments";
+
+function record(
+  id: string,
+  fecha: string,
+  pair: CurrencyPair,
+  amounts: Record<string, number>,
+  tasa: number,
+  estado: LiquidationRecord["estado"] = "pendiente",
+  paidShare = 0,
+): LiquidationRecord {
+  const result = calculateLiquidation({ ruleSet: LEGACY_RULE_SET, amounts, rate: tasa, pair });
+  return {
+    id,
+    fecha,
+    monedaOrigen: pair.source,
+    monedaDestino: pair.target,
+    direccionTasa: rateDirection(pair),
+    valorOrigen: result.saldoMovimiento,
+    montosPorCanal: amounts,
+    comisionOrigen: result.comision,
+    liquidoOrigen: result.liquido,
+    tasa,
+    totalDestino: result.totalDestino,
+    comprobantes: [{ id: `${id}-receipt`, name: `${id}.jpg`, type: "image/jpeg", size: 1, url: "" }],
+    estado,
+    // Paid in two transfers; an import gives them back as one
+    pagos: paidShare > 0 ? [payment(`${id}-1`, fecha, result.totalDestino * paidShare / 2), payment(`${id}-2`, fecha, result.totalDestino * paidShare / 2)] : [],
+    reglaComision: LEGACY_RULE_SET,
+    porcentajeComision: result.porcentajeComision,
+  };
+}
+
+const payment = (id: string, fecha: string, monto: number): Payment => ({ id, fecha, monto: Math.round(monto * 100) / 100 });
+
+const COP_BRL = findPair("COP", "BRL")!;
+const COP_USD = findPair("COP", "USD")!;
+const BRL_COP = findPair("BRL", "COP")!;
+
+// What an export keeps of a record and an import gives back
+const exported = (r: LiquidationRecord) => ({
+  fecha: r.fecha,
+  monedaOrigen: r.monedaOrigen,
+  monedaDestino: r.monedaDestino,
+  valorOrigen: r.valorOrigen,
+  montosPorCanal: r.montosPorCanal,
+  comisionOrigen: r.comisionOrigen,
+  liquidoOrigen: r.liquidoOrigen,
+  tasa: r.tasa,
+  totalDestino: r.totalDestino,
+  comprobantes: r.comprobantes.map(a => a.name),
+  estado: r.estado,
+  pagado: paidTotal(r),
+});
+
+function roundTrip(records: LiquidationRecord[], options: CsvOptions) {
+  const csv = toCsv(buildExportTable(records, DEFAULT_CHANNELS, () => ""), options);
+  const sheet = parseCsv(csv);
+  return validateImport(sheet, {
+    mapping: guessMapping(sheet.headers, DEFAULT_CHANNELS),
+    decimalSeparator: sheet.decimalSeparator,
+    ruleSet: LEGACY_RULE_SET,
+    clients: [],
+    existing: [],
+    useRecomputed: false,
+    pair: COP_BRL,
+  });
+}
+
+describe("CSV export → import", () => {
+  const records = [
+    record("a", "2024-03-01", COP_BRL, { nequi: 1_250_000.5, bancolombia: 300_000 }, 749.9495, "pagado", 1),
+    record("b", "2024-03-02", COP_USD, { daviplata: 2_000_000 }, 4123.4567, "pendiente", 0.5),
+    record("c", "2024-03-03", BRL_COP, { nequi: 1234.56 }, 750.123456, "conciliado", 1),
+    record("d", "2024-03-04", COP_BRL, { nequi: 500_000 }, 750, "anulado"),
+  ];
+
+  for (const options of [
+    { delimiter: ";", decimalSeparator: "," },
+    { delimiter: ",", decimalSeparator: "." },
+  ] as CsvOptions[]) {
+    it(`gives back the exported records with "${options.delimiter}" and "${options.decimalSeparator}"`, () => {
+      const rows = roundTrip(records, options);
+      expect(rows.map(row => row.status)).toEqual(["ok", "ok", "ok", "ok"]);
+      expect(rows.every(row => !row.mismatch)).toBe(true);
+      expect(rows.map(row => exported(row.record!))).toEqual(records.map(exported));
+    });
+  }
+
+  it("reads back the status written in another language", () => {
+    const locale = getLocale();
+    setLocale("en");
+    try {
+      const rows = roundTrip(records, { delimiter: ",", decimalSeparator: "." });
+      expect(rows.map(row => row.record?.estado)).toEqual(["pagado", "pendiente", "conciliado", "anulado"]);
+    } finally {
+      setLocale(locale);
+    }
+  });
+
+  it("keeps a status only when the amount paid backs it", () => {
+    const csv = [
+      "Fecha;Valor COP;TASA BRL/COP;ESTADO;PAGADO BRL",
+      "2024-03-01;750000;750;Pagado;0",
+      "2024-03-02;750000;750;;",
+      "2024-03-03;750000;750;Liquidado;",
+    ].join("\n");
+    const sheet = parseCsv(csv);
+    const rows = validateImport(sheet, {
+      mapping: guessMapping(sheet.headers, DEFAULT_CHANNELS),
+      decimalSeparator: sheet.decimalSeparator,
+      ruleSet: LEGACY_RULE_SET,
+      clients: [],
+      existing: [],
+      useRecomputed: false,
+      pair: COP_BRL,
+    });
+    expect(rows[0].record?.estado).toBe("pendiente");
+    expect(rows[0].warnings).toHaveLength(2);
+    expect(rows[1].record).toMatchObject({ estado: "pendiente", pagos: [] });
+    expect(rows[2].status).toBe("error");
+  });
+
+  it("names the currencies in the headers when every record shares one pair", () => {
+    const rows = roundTrip([records[0]], { delimiter: ";", decimalSeparator: "," });
+    expect(rows[0].record && exported(rows[0].record)).toEqual(exported(records[0]));
+  });
+
+  it("flags a re-import of the same records as duplicates", () => {
+    const csv = toCsv(buildExportTable(records, DEFAULT_CHANNELS, () => ""), { delimiter: ";", decimalSeparator: "," });
+    const sheet = parseCsv(csv);
+    const rows = validateImport(sheet, {
+      mapping: guessMapping(sheet.headers, DEFAULT_CHANNELS),
+      decimalSeparator: sheet.decimalSeparator,
+      ruleSet: LEGACY_RULE_SET,
+      clients: [],
+      existing: records,
+      useRecomputed: false,
+      pair: COP_BRL,
+    });
+    expect(rows.map(row => row.status)).toEqual(["duplicate", "duplicate", "duplicate", "duplicate"]);
+  });
+});
@@ -0,0 +1,431 @@
+import type { Client, LiquidationRecord } from "../App";
+import { attachmentNames, isImageAttachment } from "./attachments";
+import { auditActionLabel, auditFieldLabel, formatAuditValue, type AuditEntry } from "./auditLog";
+import { channelsUsedIn, type PaymentChannel } from "./channelService";
+import { CURRENCY_PAIRS, DEFAULT_PAIR, formatCurrency, marketOf, pairLabel, pairOf } from "./currencyPairs";
+import { formatDateTime, getLocale, t } from "./i18n";
+import { RATE_DIGITS, fromCents, toCents } from "./money";
+import { outstandingBalance, paidTotal, statusLabel } from "./payments";
+import { createZip } from "./zip";
+
+// --- Export table ---
+
+export type ColumnKind = "date" | "text" | "money" | "rate";
+
+export interface ExportColumn {
+  header: string;
+  kind: ColumnKind;
+  // Money columns are summed in the totals row of formats that have one.
+  total?: boolean;
+}
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  // Dates are "YYYY-MM-DD" strings, numbers are plain numbers, missing values are null.
+  rows: (string | number | null)[][];
+  totals: (number | null)[];
+}
+
+/**
+ * The one tabular view of the records shared by every export format, so CSV,
+ * XLSX and the statement always agree on columns and totals.
+ */
+export function buildExportTable(
+  records: LiquidationRecord[],
+  channels: PaymentChannel[],
+  clientName: (clientId?: string) => string,
+): ExportTable {
+  // One column per channel used by the exported records, including archived ones
+  const exportChannels = channelsUsedIn(channels, records.map(r => r.montosPorCanal));
+  // Headers name the currencies and money columns are totalled only when every
+  // record shares one pair; amounts in different currencies are never added up.
+  const pairIds = new Set(records.map(r => pairOf(r).id));
+  const pair = pairIds.size <= 1 ? CURRENCY_PAIRS.find(p => pairIds.has(p.id)) ?? DEFAULT_PAIR : null;
+  const source = pair ? pair.source : "origen";
+  const target = pair ? pair.target : "destino";
+  const total = pair !== null;
+  const columns: ExportColumn[] = [
+    { header: "Fecha", kind: "date" },
+    { header: `Valor ${source}`, kind: "money", total },
+    { header: `Comision ${source}`, kind: "money", total },
+    { header: `Liquido ${source}`, kind: "money", total },
+    { header: pair ? `TASA ${marketOf(pair)}` : "TASA", kind: "rate" },
+    { header: `TOTAL ${target}`, kind: "money", total },
+    { header: "COMPROBANTE", kind: "text" },
+    { header: "CLIENTE", kind: "text" },
+    { header: "ESTADO", kind: "text" },
+    { header: `PAGADO ${target}`, kind: "money", total },
+    { header: `SALDO ${target}`, kind: "money", total },
+    { header: "PAR", kind: "text" },
+    ...exportChannels.map(c => ({ header: `${c.label} ${source}`, kind: "money" as const, total })),
+  ];
+
+  const rows = records.map(r => [
+    r.fecha,
+    r.valorOrigen,
+    r.comisionOrigen,
+    r.liquidoOrigen,
+    r.tasa,
+    r.totalDestino,
+    attachmentNames(r.comprobantes),
+    clientName(r.clienteId),
+    statusLabel(r.estado),
+    paidTotal(r),
+    outstandingBalance(r),
+    pairOf(r).id,
+    // Records registered before the breakdown was stored leave these cells empty
+    ...exportChannels.map(c => r.montosPorCanal[c.id] ?? null),
+  ]);
+
+  const totals = columns.map((column, index) =>
+    column.total
+      ? fromCents(rows.reduce<bigint>((sum, row) => sum + toCents((row[index] as number | null) ?? 0), 0n))
+      : null
+  );
+
+  return { columns, rows, totals };
+}
+
+/**
+ * The change history of the exported records: one row per changed field, or a
+ * single row for actions that carry no field changes. Has no totals.
+ */
+export function buildAuditTable(
+  entries: AuditEntry[],
+  records: LiquidationRecord[],
+  clientName: (clientId?: string) => string,
+): ExportTable {
+  const columns: ExportColumn[] = [
+    { header: t("export.audit.at"), kind: "text" },
+    { header: t("export.audit.record"), kind: "text" },
+    { header: t("export.audit.action"), kind: "text" },
+    { header: t("export.audit.field"), kind: "text" },
+    { header: t("export.audit.before"), kind: "text" },
+    { header: t("export.audit.after"), kind: "text" },
+    { header: t("export.audit.reason"), kind: "text" },
+  ];
+  const recordsById = new Map(records.map(r => [r.id, r]));
+
+  const rows = entries.flatMap(entry => {
+    const record = recordsById.get(entry.recordId);
+    const recordLabel = record ? `${record.fecha} ${clientName(record.clienteId)}`.trim() : entry.recordId;
+    const base = [formatDateTime(entry.at), recordLabel, auditActionLabel(entry.action)];
+    // A creation lists every field of the new record; its snapshot is not repeated here
+    if (entry.action === "create" || entry.changes.length === 0) {
+      return [[...base, null, null, null, entry.reason ?? null]];
+    }
+    return entry.changes.map(change => [
+      ...base,
+      auditFieldLabel(change.field),
+      formatAuditValue(change.field, change.before, clientName),
+      formatAuditValue(change.field, change.after, clientName),
+      entry.reason ?? null,
+    ]);
+  });
+
+  return { columns, rows, totals: columns.map(() => null) };
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// --- CSV ---
+
+export interface CsvOptions {
+  delimiter: "," | ";" | "\t";
+  decimalSeparator: "." | ",";
+}
+
+// Semicolon and decimal comma is what Excel expects under es-CO and pt-BR locales.
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ";", decimalSeparator: "," };
+
+const CSV_OPTIONS_STORAGE_KEY = "csvExportOptions";
+
+export function loadCsvOptions(): CsvOptions {
+  try {
+    const stored = localStorage.getItem(CSV_OPTIONS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CSV_OPTIONS, ...JSON.parse(stored) } : DEFAULT_CSV_OPTIONS;
+  } catch (error) {
+    console.error("Error loading CSV export options:", error);
+    return DEFAULT_CSV_OPTIONS;
+  }
+}
+
+export function saveCsvOptions(options: CsvOptions): void {
+  localStorage.setItem(CSV_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+}
+
+// Rates keep every stored decimal so the file imports back to the same rate;
+// trailing zeros past the second decimal are dropped ("750.25", "0.000243").
+function formatRate(rate: number): string {
+  return rate.toFixed(RATE_DIGITS).replace(new RegExp(`0{1,${RATE_DIGITS - 2}}$`), "");
+}
+
+export function toCsv(table: ExportTable, { delimiter, decimalSeparator }: CsvOptions): string {
+  const sanitizeCell = (cellData: string): string => {
+    if (cellData.includes(delimiter) || cellData.includes('"') || cellData.includes("\n")) {
+      return `"${cellData.replace(/"/g, '""')}"`;
+    }
+    return cellData;
+  };
+  const formatCell = (value: string | number | null, column: ExportColumn): string => {
+    if (value === null) return "";
+    if (typeof value === "number") {
+      const text = column.kind === "rate" ? formatRate(value) : value.toFixed(2);
+      return sanitizeCell(text.replace(".", decimalSeparator));
+    }
+    return sanitizeCell(value);
+  };
+
+  const lines = [
+    table.columns.map(c => sanitizeCell(c.header)).join(delimiter),
+    ...table.rows.map(row => row.map((value, i) => formatCell(value, table.columns[i])).join(delimiter)),
+  ];
+  // The BOM makes Excel read the file as UTF-8 instead of the system code page
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+// --- XLSX ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Excel stores dates as days since 1899-12-30.
+function excelDateSerial(fecha: string): number {
+  const [year, month, day] = fecha.split("-").map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+// First cell of the totals row; the importer skips the row it starts
+export const XLSX_TOTALS_LABEL = "TOTAL";
+
+// Indices into cellXfs in STYLES_XML.
+const STYLE = { text: 0, date: 1, number: 2, header: 3, totalNumber: 4 } as const;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="#,##0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="165" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+function sheetXml(table: ExportTable): string {
+  const textCell = (ref: string, value: string, style: number) =>
+    `<c r="${ref}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+  const headerRow = `<row r="1">${table.columns.map((c, i) => textCell(`${columnLetter(i)}1`, c.header, STYLE.header)).join("")}</row>`;
+
+  const dataRows = table.rows.map((row, rowIndex) => {
+    const r = rowIndex + 2;
+    const cells = row.map((value, i) => {
+      const ref = `${columnLetter(i)}${r}`;
+      if (value === null) return "";
+      if (table.columns[i].kind === "date") return `<c r="${ref}" s="${STYLE.date}"><v>${excelDateSerial(String(value))}</v></c>`;
+      if (typeof value === "number") return `<c r="${ref}" s="${STYLE.number}"><v>${value}</v></c>`;
+      return textCell(ref, value, STYLE.text);
+    });
+    return `<row r="${r}">${cells.join("")}</row>`;
+  });
+
+  // Totals are written as SUM formulas with the computed value cached, so the
+  // sheet shows them immediately and keeps them right if rows are edited.
+  // Tables without any total, such as the audit trail, get no totals row.
+  const hasTotals = table.totals.some(total => total !== null);
+  const totalsIndex = table.rows.length + 2;
+  const lastDataRow = table.rows.length + 1;
+  const totalsCells = table.totals.map((total, i) => {
+    const col = columnLetter(i);
+    if (i === 0) return textCell(`${col}${totalsIndex}`, XLSX_TOTALS_LABEL, STYLE.header);
+    if (total === null) return "";
+    return `<c r="${col}${totalsIndex}" s="${STYLE.totalNumber}"><f>SUM(${col}2:${col}${lastDataRow})</f><v>${total}</v></c>`;
+  });
+  const totalsRow = hasTotals ? `<row r="${totalsIndex}">${totalsCells.join("")}</row>` : "";
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols><col min="1" max="${table.columns.length}" width="16" customWidth="1"/></cols>
+<sheetData>${headerRow}${dataRows.join("")}${totalsRow}</sheetData>
+</worksheet>`;
+}
+
+export interface XlsxSheet {
+  name: string;
+  table: ExportTable;
+}
+
+export function toXlsx(sheets: XlsxSheet[]): Blob {
+  const zip = createZip([
+    {
+      name: "[Content_Types].xml",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("\n")}
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet.table) })),
+  ]);
+  return new Blob([zip], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
+
+// --- Printable statement ---
+
+export interface StatementOptions {
+  client?: Client;
+  // Requested period; falls back to the first and last record dates.
+  startDate?: string;
+  endDate?: string;
+}
+
+
+/**
+ * A self-contained HTML statement that opens the print dialog on load. The app
+ * writes no PDF itself; the browser's "Save as PDF" printer is the way to get
+ * one. Image attachments are embedded by their object URLs; other attachments
+ * are listed by name.
+ */
+export function buildStatementHtml(records: LiquidationRecord[], clientName: (clientId?: string) => string, options: StatementOptions = {}): string {
+  const dates = records.map(r => r.fecha).sort();
+  const start = options.startDate || dates[0] || "";
+  const end = options.endDate || dates[dates.length - 1] || "";
+  const client = options.client;
+
+  const rows = records.map(r => `
+      <tr>
+        <td>${escapeXml(r.fecha)}</td>
+        ${client ? "" : `<td>${escapeXml(clientName(r.clienteId))}</td>`}
+        <td>${escapeXml(pairLabel(pairOf(r)))}</td>
+        <td class="num">${formatCurrency(r.valorOrigen, r.monedaOrigen)}</td>
+        <td class="num">${formatCurrency(r.comisionOrigen, r.monedaOrigen)}</td>
+        <td class="num">${formatCurrency(r.liquidoOrigen, r.monedaOrigen)}</td>
+        <td class="num">${formatRate(r.tasa)}</td>
+        <td class="num">${formatCurrency(r.totalDestino, r.monedaDestino)}</td>
+        <td class="receipt">${r.comprobantes.map(a => a.url && isImageAttachment(a)
+          ? `<img src="${escapeXml(a.url)}" alt="${escapeXml(a.name)}">`
+          : `<div>${escapeXml(a.name)}</div>`).join("")}</td>
+      </tr>`).join("");
+
+  // One totals row per currency pair, since amounts in different currencies do not add up
+  const totals = CURRENCY_PAIRS.map(pair => {
+    const group = records.filter(r => pairOf(r).id === pair.id);
+    if (group.length === 0) return "";
+    const sum = (field: "valorOrigen" | "comisionOrigen" | "liquidoOrigen" | "totalDestino") =>
+      fromCents(group.reduce<bigint>((total, r) => total + toCents(r[field]), 0n));
+    return `
+      <tr>
+        <td${client ? "" : ' colspan="2"'}>${escapeXml(t("statement.total", { count: group.length }))}</td>
+        <td>${escapeXml(pairLabel(pair))}</td>
+        <td class="num">${formatCurrency(sum("valorOrigen"), pair.source)}</td>
+        <td class="num">${formatCurrency(sum("comisionOrigen"), pair.source)}</td>
+        <td class="num">${formatCurrency(sum("liquidoOrigen"), pair.source)}</td>
+        <td></td>
+        <td class="num">${formatCurrency(sum("totalDestino"), pair.target)}</td>
+        <td></td>
+      </tr>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(t("statement.title"))} ${escapeXml(client?.nombre ?? "")} ${escapeXml(start)} - ${escapeXml(end)}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #111827; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #4b5563; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: middle; }
+  th { background: #f3f4f6; font-size: 11px; text-transform: uppercase; }
+  .num { text-align: right; font-family: monospace; white-space: nowrap; }
+  tfoot td { font-weight: bold; border-top: 2px solid #111827; }
+  .receipt img { max-width: 80px; max-height: 80px; object-fit: contain; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body onload="window.print()">
+  <h1>${escapeXml(t("statement.title"))}</h1>
+  <div class="meta">
+    ${client ? `<div><strong>${escapeXml(client.nombre)}</strong>${client.documento ? ` &middot; ${escapeXml(client.documento)}` : ""}</div>` : `<div><strong>${escapeXml(t("statement.allClients"))}</strong></div>`}
+    ${client?.pixKey ? `<div>PIX: ${escapeXml(client.pixKey)}</div>` : ""}
+    <div>${escapeXml(t("statement.period", { start, end }))}</div>
+    <div>${escapeXml(t("statement.generated", { date: formatDateTime(new Date().toISOString()) }))}</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>${t("statement.date")}</th>${client ? "" : `<th>${t("common.client")}</th>`}<th>${t("statement.pair")}</th><th>${t("statement.amount")}</th><th>${t("statement.commission")}</th><th>${t("statement.net")}</th><th>${t("statement.rate")}</th><th>${t("payments.total")}</th><th>${t("statement.receipt")}</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>${totals}
+    </tfoot>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Opens the statement in a new window. The HTML is served from an object URL
+ * of this origin, so the receipt object URLs it references still resolve.
+ */
+export function openStatement(html: string): void {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  const statementWindow = window.open(url, "_blank");
+  if (!statementWindow) {
+    URL.revokeObjectURL(url);
+    throw new Error(t("statement.popupBlocked"));
+  }
+  // Give the new window time to load before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,32 @@
+import { withApiToken } from "./apiToken";
+import { t } from "./i18n";
+
+// --- Gemini proxy ---
+// Gemini is only reached through the server in server/, which holds the API key
+// and caches and rate-limits the calls. The browser never sees the key; it sends
+// the device's access key instead (see apiToken).
+
+// Base URL of that server; empty for the app's own origin, where the dev server forwards /api to it
+const API_PROXY_URL = (process.env.API_PROXY_URL ?? "").replace(/\/+$/, "");
+
+/** Posts `body` to a proxy endpoint and resolves to its JSON answer. */
+export async function postToGeminiProxy<T>(endpoint: "rate" | "receipt", body: BodyInit, contentType: string): Promise<T> {
+  const response = await fetch(`${API_PROXY_URL}/api/gemini/${endpoint}`, {
+    method: "POST",
+    headers: withApiToken({ "Content-Type": contentType }),
+    body,
+  });
+  if (response.status === 401) {
+    throw new Error(t("proxy.unauthorized"));
+  }
+  if (response.status === 429) {
+    throw new Error(t("proxy.rateLimited", { seconds: response.headers.get("Retry-After") ?? "60" }));
+  }
+  if (response.status === 503) {
+    throw new Error(t("rates.error.noApiKey"));
+  }
+  if (!response.ok) {
+    throw new Error(t("proxy.status", { status: response.status }));
+  }
+  return response.json();
+}
@@ -0,0 +1,92 @@
+import type { LiquidationRecord } from "../App";
+import { pairOf } from "./currencyPairs";
+
+// Filter values are kept as the raw input strings; empty means "no constraint".
+export interface HistoryFilters {
+  startDate: string;
+  endDate: string;
+  minAmount: string;
+  maxAmount: string;
+  minRate: string;
+  maxRate: string;
+  clientId: string;
+  receiptText: string;
+  // A RecordStatus, or empty for every status
+  status: string;
+  // A CurrencyPair id ("COP-BRL"), or empty for every pair
+  pair: string;
+}
+
+export const EMPTY_FILTERS: HistoryFilters = {
+  startDate: "",
+  endDate: "",
+  minAmount: "",
+  maxAmount: "",
+  minRate: "",
+  maxRate: "",
+  clientId: "",
+  receiptText: "",
+  status: "",
+  pair: "",
+};
+
+export type SortKey = "fecha" | "cliente" | "valorOrigen" | "comisionOrigen" | "liquidoOrigen" | "tasa" | "totalDestino" | "comprobantes";
+
+export const SORT_KEYS: SortKey[] = ["fecha", "cliente", "valorOrigen", "comisionOrigen", "liquidoOrigen", "tasa", "totalDestino", "comprobantes"];
+
+export interface SortState {
+  key: SortKey;
+  direction: "asc" | "desc";
+}
+
+export const DEFAULT_SORT: SortState = { key: "fecha", direction: "desc" };
+
+export function hasActiveFilters(filters: HistoryFilters): boolean {
+  return Object.values(filters).some(value => value !== "");
+}
+
+function inRange(value: number, min: string, max: string): boolean {
+  const minValue = parseFloat(min);
+  const maxValue = parseFloat(max);
+  if (!isNaN(minValue) && value < minValue) return false;
+  if (!isNaN(maxValue) && value > maxValue) return false;
+  return true;
+}
+
+export function applyFilters(records: LiquidationRecord[], filters: HistoryFilters): LiquidationRecord[] {
+  const receiptText = filters.receiptText.trim().toLowerCase();
+  return records.filter(record =>
+    (!filters.startDate || record.fecha >= filters.startDate) &&
+    (!filters.endDate || record.fecha <= filters.endDate) &&
+    inRange(record.valorOrigen, filters.minAmount, filters.maxAmount) &&
+    inRange(record.tasa, filters.minRate, filters.maxRate) &&
+    (!filters.pair || pairOf(record).id === filters.pair) &&
+    (!filters.clientId || record.clienteId === filters.clientId) &&
+    (!filters.status || record.estado === filters.status) &&
+    (!receiptText || record.comprobantes.some(a => a.name.toLowerCase().includes(receiptText)))
+  );
+}
+
+/**
+ * Returns a sorted copy. The sort is stable, so records that compare equal keep
+ * their incoming (newest first) order.
+ */
+export function sortRecords(
+  records: LiquidationRecord[],
+  sort: SortState,
+  clientName: (clientId?: string) => string,
+): LiquidationRecord[] {
+  const valueOf = (record: LiquidationRecord): string | number =>
+    sort.key === "cliente" ? clientName(record.clienteId)
+      : sort.key === "comprobantes" ? record.comprobantes[0]?.name ?? ""
+      : record[sort.key];
+  const factor = sort.direction === "asc" ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    const comparison = typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right), "es");
+    return comparison * factor;
+  });
+}
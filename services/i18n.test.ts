@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { formatAmountInput, hasValidGrouping, parseAmountInput } from "./i18n";
+
+describe("amount input", () => {
+  it("reads amounts the way each locale writes them", () => {
+    expect(parseAmountInput("1.500.000,5", "es-CO")).toBe("1500000.5");
+    expect(parseAmountInput("1,500,000.5", "en")).toBe("1500000.5");
+    expect(parseAmountInput("1500000,", "pt-BR")).toBe("1500000.");
+    expect(parseAmountInput("1,5,0", "es-CO")).toBeNull();
+    expect(formatAmountInput("1500000.5", "es-CO")).toBe("1.500.000,5");
+  });
+
+  it("only accepts group separators every three digits", () => {
+    expect(hasValidGrouping("1.500.000,50", "es-CO")).toBe(true);
+    expect(hasValidGrouping("750,25", "es-CO")).toBe(true);
+    expect(hasValidGrouping("750.25", "es-CO")).toBe(false);
+    expect(hasValidGrouping("1.5000", "es-CO")).toBe(false);
+    expect(hasValidGrouping("1500.000", "pt-BR")).toBe(false);
+    expect(hasValidGrouping("750.", "es-CO")).toBe(false);
+    expect(hasValidGrouping("750.25", "en")).toBe(true);
+    expect(hasValidGrouping("7,50.25", "en")).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import esCO, { type MessageKey } from "./locales/es-CO";
+import ptBR from "./locales/pt-BR";
+import en from "./locales/en";
+
+// --- Locales ---
+// UI text comes from one catalog per locale. es-CO is the reference catalog the
+// other two are type-checked against, so a key missing from any of them fails the build.
+
+export type Locale = "es-CO" | "pt-BR" | "en";
+export type { MessageKey };
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: "es-CO", name: "Español (Colombia)" },
+  { id: "pt-BR", name: "Português (Brasil)" },
+  { id: "en", name: "English" },
+];
+
+export const DEFAULT_LOCALE: Locale = "es-CO";
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { "es-CO": esCO, "pt-BR": ptBR, en };
+
+const LOCALE_STORAGE_KEY = "locale";
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(locale => locale.id === value);
+}
+
+// The saved choice, else the browser's language when we have a catalog for it
+function initialLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (error) {
+    console.error("Error loading the language setting:", error);
+  }
+  const language = typeof navigator === "undefined" ? "" : navigator.language.toLowerCase();
+  if (language.startsWith("pt")) return "pt-BR";
+  if (language.startsWith("en")) return "en";
+  return DEFAULT_LOCALE;
+}
+
+let activeLocale: Locale = initialLocale();
+
+export function getLocale(): Locale {
+  return activeLocale;
+}
+
+/** Switches the UI language. Components pick it up on their next render; App re-renders them all. */
+export function setLocale(locale: Locale): void {
+  activeLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (error) {
+    console.error("Error saving the language setting:", error);
+  }
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** The text for `key` in the active locale, with `{name}` placeholders filled from `params`. */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[activeLocale][key] ?? esCO[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
+
+/** The text for `key` in every locale, e.g. to read back a label an export wrote in any of them. */
+export function translations(key: MessageKey): string[] {
+  return LOCALES.map(locale => CATALOGS[locale.id][key]);
+}
+
+/** Date and time of an ISO timestamp in the active locale. */
+export function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(activeLocale);
+}
+
+export function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(activeLocale);
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(activeLocale, options);
+}
+
+// --- Amount input ---
+// Amounts are typed the way the locale writes them: "1.500.000,50" in es-CO and
+// pt-BR, "1,500,000.50" in en. The group separator is optional while typing and
+// is put back as the operator types, so "1.500.000" and "1500000,50" both work.
+// A group separator the operator enters must fall every three digits: in es-CO
+// "750.25" is an en-style decimal, not 75025.
+
+const SEPARATORS: Record<Locale, { group: string; decimal: string }> = {
+  "es-CO": { group: ".", decimal: "," },
+  "pt-BR": { group: ".", decimal: "," },
+  en: { group: ",", decimal: "." },
+};
+
+export function decimalSeparator(locale: Locale = activeLocale): string {
+  return SEPARATORS[locale].decimal;
+}
+
+export function groupSeparator(locale: Locale = activeLocale): string {
+  return SEPARATORS[locale].group;
+}
+
+/** Whether every group separator in `text` is followed by exactly three digits ("1.500.000", not "750.25"). */
+export function hasValidGrouping(text: string, locale: Locale = activeLocale): boolean {
+  const { group, decimal } = SEPARATORS[locale];
+  const [first, ...groups] = text.replace(/\s/g, "").split(decimal)[0].split(group);
+  return groups.length === 0 || (/^\d{1,3}$/.test(first) && groups.every(digits => /^\d{3}$/.test(digits)));
+}
+
+/**
+ * Reads typed text as a plain decimal string ("1.500.000,5" → "1500000.5"),
+ * keeping a trailing decimal separator so typing can continue. Null when the
+ * text is not an amount in the locale, e.g. a second decimal separator.
+ */
+export function parseAmountInput(text: string, locale: Locale = activeLocale): string | null {
+  const { group, decimal } = SEPARATORS[locale];
+  const compact = text.replace(/\s/g, "");
+  const [whole, fraction, ...rest] = compact.split(decimal);
+  if (rest.length > 0) return null;
+  const digits = whole.split(group).join("");
+  if (!/^\d*$/.test(digits) || (fraction !== undefined && !/^\d*$/.test(fraction))) return null;
+  return fraction === undefined ? digits : `${digits}.${fraction}`;
+}
+
+/** Writes a plain decimal string the way the locale shows it, thousands grouped. */
+export function formatAmountInput(value: string, locale: Locale = activeLocale): string {
+  const { group, decimal } = SEPARATORS[locale];
+  const [whole, fraction] = value.split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return fraction === undefined ? grouped : `${grouped}${decimal}${fraction}`;
+}
@@ -0,0 +1,418 @@
+import type { Client, LiquidationRecord, RecordStatus } from "../App";
+import type { PaymentChannel } from "./channelService";
+import type { CommissionRuleSet } from "./commissionService";
+import { CURRENCY_PAIRS, marketOf, pairLabel, rateDirection, type CurrencyPair } from "./currencyPairs";
+import { XLSX_TOTALS_LABEL } from "./exportService";
+import { t, translations } from "./i18n";
+import { calculateLiquidation } from "./liquidationCalculator";
+import { toCents, type Currency } from "./money";
+import { RECORD_STATUSES, statusAfterPayments, statusLabel } from "./payments";
+import { readZip } from "./zip";
+
+// --- Parsing ---
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+  // Decimal separator the numbers most likely use; XLSX cells are always ".".
+  decimalSeparator: "." | ",";
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [";", ",", "\t"];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and newlines.
+export function parseCsv(text: string): ParsedSheet {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell.trim() !== ""));
+  const [headers = [], ...dataRows] = nonEmpty;
+  return {
+    headers: headers.map(h => h.trim()),
+    rows: dataRows,
+    // A semicolon-separated file almost always comes from a decimal-comma locale
+    decimalSeparator: delimiter === ";" ? "," : ".",
+  };
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/\d+$/, "");
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Reads the first worksheet of an XLSX workbook as text cells.
+export async function parseXlsx(file: Blob): Promise<ParsedSheet> {
+  const files = await readZip(file);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const readXml = (path: string) => {
+    const data = files.get(path);
+    return data ? parser.parseFromString(decoder.decode(data), "application/xml") : null;
+  };
+
+  const workbook = readXml("xl/workbook.xml");
+  const relationships = readXml("xl/_rels/workbook.xml.rels");
+  const firstSheetId = workbook?.getElementsByTagName("sheet")[0]?.getAttribute("r:id");
+  const target = [...(relationships?.getElementsByTagName("Relationship") ?? [])]
+    .find(rel => rel.getAttribute("Id") === firstSheetId)
+    ?.getAttribute("Target");
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, "")}` : "xl/worksheets/sheet1.xml";
+  const sheet = readXml(sheetPath);
+  if (!sheet) {
+    throw new Error(t("import.error.noSheet"));
+  }
+
+  const textOf = (element: Element) =>
+    [...element.getElementsByTagName("t")].map(node => node.textContent ?? "").join("");
+  const sharedStrings = [...(readXml("xl/sharedStrings.xml")?.getElementsByTagName("si") ?? [])].map(textOf);
+
+  const rows = [...sheet.getElementsByTagName("row")].map(rowElement => {
+    const cells: string[] = [];
+    for (const cell of rowElement.getElementsByTagName("c")) {
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      const index = columnIndex(cell.getAttribute("r") ?? "");
+      cells[index < 0 ? cells.length : index] =
+        type === "s" ? sharedStrings[Number(value)] ?? "" : type === "inlineStr" ? textOf(cell) : value;
+    }
+    return Array.from(cells, cell => cell ?? "");
+  }).filter(r => r.some(cell => cell.trim() !== ""));
+
+  const [headers = [], ...dataRows] = rows;
+  // Our XLSX export ends with a "TOTAL" row of SUM formulas; it is not a liquidation
+  if (dataRows.length > 0 && dataRows[dataRows.length - 1][0]?.trim() === XLSX_TOTALS_LABEL) {
+    dataRows.pop();
+  }
+  return { headers: headers.map(h => h.trim()), rows: dataRows, decimalSeparator: "." };
+}
+
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  try {
+    return /\.xlsx$/i.test(file.name) ? await parseXlsx(file) : parseCsv(await file.text());
+  } catch (error) {
+    console.error("Error parsing import file:", error);
+    throw new Error(t("import.error.unreadable"));
+  }
+}
+
+// --- Column mapping ---
+
+export type ImportField =
+  | "fecha"
+  | "valorOrigen"
+  | "comisionOrigen"
+  | "liquidoOrigen"
+  | "tasa"
+  | "totalDestino"
+  | "comprobanteName"
+  | "cliente"
+  | "par"
+  | "estado"
+  | "pagado";
+
+// Our exports name the currencies in the headers ("Valor COP", "TOTAL BRL") when
+// every row shares one pair and use the generic names otherwise.
+const CURRENCIES: Currency[] = ["COP", "BRL", "USD", "USDT"];
+const currencyHeaders = (prefix: string, generic: string) => [`${prefix} ${generic}`, ...CURRENCIES.map(c => `${prefix} ${c}`)];
+
+export const IMPORT_FIELDS: { field: ImportField; required: boolean; headers: string[] }[] = [
+  { field: "fecha", required: true, headers: ["Fecha"] },
+  { field: "valorOrigen", required: true, headers: currencyHeaders("Valor", "origen") },
+  { field: "comisionOrigen", required: false, headers: currencyHeaders("Comision", "origen") },
+  { field: "liquidoOrigen", required: false, headers: currencyHeaders("Liquido", "origen") },
+  { field: "tasa", required: true, headers: ["TASA", ...CURRENCY_PAIRS.map(p => `TASA ${marketOf(p)}`)] },
+  { field: "totalDestino", required: false, headers: currencyHeaders("TOTAL", "destino") },
+  { field: "comprobanteName", required: false, headers: ["COMPROBANTE"] },
+  { field: "cliente", required: false, headers: ["CLIENTE"] },
+  { field: "par", required: false, headers: ["PAR"] },
+  { field: "estado", required: false, headers: ["ESTADO"] },
+  { field: "pagado", required: false, headers: currencyHeaders("PAGADO", "destino") },
+];
+
+export function importFieldLabel(field: ImportField): string {
+  return t(`import.field.${field}`);
+}
+
+// Column index per import field, and per channel id for the breakdown columns.
+export interface ColumnMapping {
+  fields: Partial<Record<ImportField, number>>;
+  channels: Record<string, number>;
+}
+
+const normalizeHeader = (header: string) =>
+  header.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+// Pre-maps the columns written by our own exports; anything else is left for the user.
+export function guessMapping(headers: string[], channels: PaymentChannel[]): ColumnMapping {
+  const find = (name: string) => {
+    const index = headers.findIndex(h => normalizeHeader(h) === normalizeHeader(name));
+    return index >= 0 ? index : undefined;
+  };
+  const findAny = (names: string[]) => names.map(find).find(index => index !== undefined);
+  const mapping: ColumnMapping = { fields: {}, channels: {} };
+  for (const { field, headers: names } of IMPORT_FIELDS) {
+    const index = findAny(names);
+    if (index !== undefined) mapping.fields[field] = index;
+  }
+  for (const channel of channels) {
+    const index = findAny(currencyHeaders(channel.label, "origen"));
+    if (index !== undefined) mapping.channels[channel.id] = index;
+  }
+  return mapping;
+}
+
+// A "par" cell may hold the pair id ("COP-BRL") or its label ("COP → BRL").
+function parsePair(value: string): CurrencyPair | undefined {
+  const normalized = value.replace(/\s+/g, "").toUpperCase();
+  return CURRENCY_PAIRS.find(pair => pair.id === normalized || pairLabel(pair).replace(/\s+/g, "") === normalized);
+}
+
+// An "estado" cell holds the status in the language of the export ("Pagado", "Paid") or its id.
+function parseStatus(value: string): RecordStatus | undefined {
+  const normalized = normalizeHeader(value);
+  return RECORD_STATUSES.find(status =>
+    [status, ...translations(`status.${status}`)].some(name => normalizeHeader(name) === normalized)
+  );
+}
+
+// --- Validation ---
+
+export function parseImportNumber(value: string, decimalSeparator: "." | ","): number | null {
+  // Plain machine numbers (XLSX cells, including exponent notation) need no cleanup
+  if (decimalSeparator === "." && /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value.trim())) {
+    return Number(value.trim());
+  }
+  const thousands = decimalSeparator === "," ? "." : ",";
+  const cleaned = value.replace(/[^\d.,-]/g, "").split(thousands).join("").replace(decimalSeparator, ".");
+  if (cleaned === "" || cleaned === "-") return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Accepts ISO dates, day-first dates (31/12/2023) and Excel serial numbers.
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(trimmed)) * 86_400_000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export type ImportRowStatus = "ok" | "duplicate" | "error";
+
+export interface ImportRow {
+  // 1-based line in the file, counting the header row.
+  line: number;
+  status: ImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  // The file's líquido or target total differs from the recomputed one.
+  mismatch: boolean;
+  record?: LiquidationRecord;
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  decimalSeparator: "." | ",";
+  ruleSet: CommissionRuleSet;
+  clients: Client[];
+  existing: LiquidationRecord[];
+  // Store the recomputed líquido and target total instead of the file's values when they differ.
+  useRecomputed: boolean;
+  // Pair of the rows that have no "par" column or leave it empty
+  pair: CurrencyPair;
+}
+
+// Date + pair + amount + rate identifies a liquidation well enough to catch re-imports.
+const duplicateKey = (fecha: string, source: Currency, target: Currency, valorOrigen: number, tasa: number) =>
+  `${fecha}|${source}-${target}|${toCents(valorOrigen)}|${tasa.toFixed(4)}`;
+
+// Differences below one centavo/peso fraction come from rounding in the spreadsheet.
+const TOLERANCE = 0.01;
+
+/**
+ * Turns mapped sheet rows into records, checking each one against the
+ * commission rules and the rate. Nothing is saved here.
+ */
+export function validateImport(sheet: ParsedSheet, options: ImportOptions): ImportRow[] {
+  const { mapping, decimalSeparator, ruleSet, clients, existing, useRecomputed } = options;
+  const seen = new Set(existing.map(r => duplicateKey(r.fecha, r.monedaOrigen, r.monedaDestino, r.valorOrigen, r.tasa)));
+  const importedAt = Date.now();
+
+  return sheet.rows.map((cells, index): ImportRow => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping.fields[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    const numberOf = (field: ImportField) => (cell(field) === "" ? null : parseImportNumber(cell(field), decimalSeparator));
+
+    const fecha = parseImportDate(cell("fecha"));
+    if (!fecha) errors.push(t("import.error.date", { value: cell("fecha") }));
+    const pair = cell("par") === "" ? options.pair : parsePair(cell("par"));
+    if (!pair) errors.push(t("import.error.pair", { value: cell("par") }));
+    const valorOrigen = numberOf("valorOrigen");
+    if (valorOrigen === null || valorOrigen <= 0) errors.push(t("import.error.amount", { value: cell("valorOrigen") }));
+    const tasa = numberOf("tasa");
+    if (tasa === null || tasa <= 0) errors.push(t("import.error.rate", { value: cell("tasa") }));
+    const fileComision = numberOf("comisionOrigen");
+    if (cell("comisionOrigen") !== "" && (fileComision === null || fileComision < 0)) {
+      errors.push(t("import.error.commission", { value: cell("comisionOrigen") }));
+    }
+
+    const fileStatus = cell("estado") === "" ? undefined : parseStatus(cell("estado"));
+    if (cell("estado") !== "" && !fileStatus) errors.push(t("import.error.status", { value: cell("estado") }));
+    const pagado = numberOf("pagado");
+    if (cell("pagado") !== "" && (pagado === null || pagado < 0)) {
+      errors.push(t("import.error.paid", { value: cell("pagado") }));
+    }
+
+    const montosPorCanal: Record<string, number> = {};
+    for (const [channelId, column] of Object.entries(mapping.channels)) {
+      const amount = parseImportNumber(cells[column] ?? "", decimalSeparator);
+      if (amount !== null && amount !== 0) montosPorCanal[channelId] = amount;
+    }
+
+    if (errors.length > 0 || !fecha || !pair || valorOrigen === null || tasa === null) {
+      return { line, status: "error", errors, warnings, mismatch: false };
+    }
+
+    const channelSum = Object.values(montosPorCanal).reduce<bigint>((sum, amount) => sum + toCents(amount), 0n);
+    if (Object.keys(montosPorCanal).length > 0 && channelSum !== toCents(valorOrigen)) {
+      warnings.push(t("import.warning.channelSum", { currency: pair.source }));
+    }
+
+    // A commission in the file was settled back then; otherwise apply the current rules
+    const computed = calculateLiquidation({
+      ruleSet,
+      amounts: montosPorCanal,
+      total: valorOrigen,
+      comision: fileComision ?? undefined,
+      rate: tasa,
+      pair,
+    });
+    if (fileComision === null) {
+      warnings.push(t("import.warning.ruleSet", { rule: ruleSet.name }));
+    }
+
+    const fileLiquido = numberOf("liquidoOrigen");
+    const fileTotal = numberOf("totalDestino");
+    const liquidoMismatch = fileLiquido !== null && Math.abs(fileLiquido - computed.liquido) >= TOLERANCE;
+    const totalMismatch = fileTotal !== null && Math.abs(fileTotal - computed.totalDestino) >= TOLERANCE;
+    if (liquidoMismatch) {
+      warnings.push(t("import.warning.net", { file: fileLiquido!.toFixed(2), computed: computed.liquido.toFixed(2) }));
+    }
+    if (totalMismatch) {
+      warnings.push(t("import.warning.total", { currency: pair.target, file: fileTotal!.toFixed(2), computed: computed.totalDestino.toFixed(2) }));
+    }
+
+    const clientText = cell("cliente");
+    const client = clientText
+      ? clients.find(c => normalizeHeader(c.nombre) === normalizeHeader(clientText) || (c.documento && c.documento === clientText))
+      : undefined;
+    if (clientText && !client) {
+      warnings.push(t("import.warning.client", { client: clientText }));
+    }
+
+    const record: LiquidationRecord = {
+      id: `${importedAt}-${index}-${Math.random()}`,
+      fecha,
+      monedaOrigen: pair.source,
+      monedaDestino: pair.target,
+      direccionTasa: rateDirection(pair),
+      valorOrigen: computed.saldoMovimiento,
+      montosPorCanal,
+      comisionOrigen: computed.comision,
+      liquidoOrigen: !useRecomputed && fileLiquido !== null ? fileLiquido : computed.liquido,
+      tasa,
+      totalDestino: !useRecomputed && fileTotal !== null ? fileTotal : computed.totalDestino,
+      // Imported rows have no receipt files; an empty URL marks them as such
+      comprobantes: cell("comprobanteName")
+        .split(" | ")
+        .map(name => name.trim())
+        .filter(Boolean)
+        .map((name, n) => ({ id: `${importedAt}-${index}-${n}`, name, type: "", size: 0, url: "" })),
+      tasaFuente: "Importación",
+      // Our exports carry the status and the amount paid, but not the single payments: what
+      // was paid comes back as one payment. Files without them show the whole total as owed.
+      estado: fileStatus ?? "pendiente",
+      pagos: pagado ? [{ id: `${importedAt}-${index}-pago`, fecha, monto: pagado }] : [],
+      reglaComision: ruleSet,
+      porcentajeComision: computed.porcentajeComision,
+      clienteId: client?.id,
+    };
+
+    // A status the payments do not back (e.g. "Pagado" with a balance left) follows the payments
+    const estado = statusAfterPayments(record);
+    if (fileStatus && estado !== fileStatus) {
+      warnings.push(t("import.warning.status", { file: statusLabel(fileStatus), status: statusLabel(estado) }));
+    }
+    record.estado = estado;
+
+    const key = duplicateKey(fecha, pair.source, pair.target, record.valorOrigen, tasa);
+    const mismatch = liquidoMismatch || totalMismatch;
+    if (seen.has(key)) {
+      return { line, status: "duplicate", errors, warnings, mismatch, record };
+    }
+    seen.add(key);
+    return { line, status: "ok", errors, warnings, mismatch, record };
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { LEGACY_RULE_SET, type CommissionRuleSet } from "./commissionService";
+import { findPair } from "./currencyPairs";
+import { calculateLiquidation } from "./liquidationCalculator";
+
+const ruleSet = (overrides: Partial<CommissionRuleSet>): CommissionRuleSet => ({ ...LEGACY_RULE_SET, ...overrides });
+
+describe("calculateLiquidation", () => {
+  it("runs saldo → comisión → líquido → BRL total", () => {
+    expect(calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: "1000000", rate: 750 })).toEqual({
+      saldoMovimiento: 1_000_000,
+      comision: 100_000,
+      porcentajeComision: 10,
+      liquido: 900_000,
+      totalDestino: 1200,
+    });
+  });
+
+  it("sums the channel amounts when no total is given", () => {
+    const result = calculateLiquidation({ ruleSet: LEGACY_RULE_SET, amounts: { nequi: "150000.50", bancolombia: 49_999.5 }, rate: 800 });
+    expect(result.saldoMovimiento).toBe(200_000);
+    expect(result.comision).toBe(20_000);
+    expect(result.totalDestino).toBe(225);
+  });
+
+  it("applies channel percentages over the base percentage", () => {
+    const result = calculateLiquidation({
+      ruleSet: ruleSet({ channelPercents: { nequi: 5 } }),
+      amounts: { nequi: 100_000, bancolombia: 100_000 },
+      rate: 750,
+    });
+    expect(result.comision).toBe(15_000);
+    expect(result.porcentajeComision).toBe(7.5);
+  });
+
+  it("picks the tier matching the total", () => {
+    const tiered = ruleSet({ tiers: [{ upTo: null, percent: 8 }, { upTo: 1_000_000, percent: 10 }] });
+    expect(calculateLiquidation({ ruleSet: tiered, total: 1_000_000, rate: 750 }).comision).toBe(100_000);
+    expect(calculateLiquidation({ ruleSet: tiered, total: 2_000_000, rate: 750 }).comision).toBe(160_000);
+  });
+
+  it("adds the fixed fee, applies the minimum and never charges more than the saldo", () => {
+    expect(calculateLiquidation({ ruleSet: ruleSet({ fixedFee: 2000 }), total: 100_000, rate: 750 }).comision).toBe(12_000);
+    expect(calculateLiquidation({ ruleSet: ruleSet({ fixedFee: 2000, minimumFee: 5000 }), total: 10_000, rate: 750 }).comision).toBe(5000);
+
+    const capped = calculateLiquidation({ ruleSet: ruleSet({ minimumFee: 5000 }), total: 3000, rate: 750 });
+    expect(capped.comision).toBe(3000);
+    expect(capped.liquido).toBe(0);
+    expect(capped.totalDestino).toBe(0);
+  });
+
+  it("rounds the COP commission once, to whole pesos", () => {
+    expect(calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: 12_345, rate: 750 }).comision).toBe(1235);
+    // 10.5% of 1,004.76 is 105.4998: rounding to cents first would give 105.50 → 106
+    expect(calculateLiquidation({ ruleSet: ruleSet({ percent: 10.5 }), total: "1004.76", rate: 750 }).comision).toBe(105);
+  });
+
+  it("rounds the BRL total to cents", () => {
+    const result = calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: 1_000_000, rate: 777.77 });
+    // 900,000 / 777.77 = 1157.154...
+    expect(result.totalDestino).toBe(1157.15);
+  });
+
+  it("keeps an already settled commission", () => {
+    const result = calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: 200_000, comision: "12345.67", rate: 750 });
+    expect(result.comision).toBe(12_345.67);
+    expect(result.liquido).toBe(187_654.33);
+  });
+
+  it("converts BRL → COP by multiplying and rounds once to whole pesos", () => {
+    const pair = findPair("BRL", "COP")!;
+    const result = calculateLiquidation({ ruleSet: ruleSet({ percent: 0 }), total: "10.00", rate: 749.9495, pair });
+    expect(result.totalDestino).toBe(7499);
+  });
+
+  it("yields a zero target total without a usable rate", () => {
+    expect(calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: 100_000, rate: null }).totalDestino).toBe(0);
+    expect(calculateLiquidation({ ruleSet: LEGACY_RULE_SET, total: 100_000, rate: 0 }).totalDestino).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { computeCommission, type CommissionRuleSet } from "./commissionService";
+import { DEFAULT_PAIR, convertAtRate, type CurrencyPair } from "./currencyPairs";
+import { fromCents, toCents } from "./money";
+
+export interface LiquidationInput {
+  ruleSet: CommissionRuleSet;
+  // Amounts per channel id as typed by the operator (decimal strings or numbers).
+  amounts?: Record<string, string | number>;
+  // Total received when no per-channel breakdown is available.
+  total?: string | number;
+  // Keeps an already settled commission instead of applying the rule set.
+  comision?: string | number;
+  // Units of the pair's quote currency per 1 base currency; a missing or
+  // non-positive rate yields a zero target total.
+  rate: number | null;
+  // Defaults to COP → BRL
+  pair?: CurrencyPair;
+}
+
+export interface LiquidationBreakdown {
+  saldoMovimiento: number;
+  comision: number;
+  porcentajeComision: number;
+  liquido: number;
+  totalDestino: number;
+}
+
+/**
+ * The saldo → comisión → líquido → total chain shared by the calculator and the
+ * edit modal. All arithmetic is done in integer cents:
+ * - comisión is rounded to the source currency (whole pesos for COP, see computeCommission),
+ * - líquido is the exact difference saldo - comisión,
+ * - the target total is líquido / tasa or líquido * tasa, depending on the
+ *   pair's direction, rounded half-up to the target currency.
+ */
+export function calculateLiquidation({ ruleSet, amounts = {}, total, comision, rate, pair = DEFAULT_PAIR }: LiquidationInput): LiquidationBreakdown {
+  const channelCents: Record<string, bigint> = {};
+  for (const [channel, value] of Object.entries(amounts)) {
+    channelCents[channel] = toCents(value);
+  }
+
+  const totalCents = total === undefined ? undefined : toCents(total);
+  const saldo = totalCents ?? Object.values(channelCents).reduce<bigint>((sum, value) => sum + value, 0n);
+  const { comisionCents, porcentaje } = comision === undefined
+    ? computeCommission(ruleSet, channelCents, totalCents, pair.source)
+    : { comisionCents: toCents(comision), porcentaje: saldo > 0n ? (Number(toCents(comision)) / Number(saldo)) * 100 : 0 };
+  const liquido = saldo - comisionCents;
+  const converted = rate && rate > 0 && liquido > 0n ? convertAtRate(liquido, rate, pair) : 0n;
+
+  return {
+    saldoMovimiento: fromCents(saldo),
+    comision: fromCents(comisionCents),
+    porcentajeComision: porcentaje,
+    liquido: fromCents(liquido),
+    totalDestino: fromCents(converted),
+  };
+}
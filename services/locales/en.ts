@@ -0,0 +1,576 @@
+import type { MessageKey } from "./es-CO";
+
+const en: Record<MessageKey, string> = {
+  // --- Common ---
+  "common.loading": "Loading...",
+  "common.unknownError": "An unknown error occurred.",
+  "common.client": "Client",
+  "common.noClient": "No client",
+  "common.remove": "Remove",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.close": "Close",
+  "common.date": "Date",
+  "common.reference": "Reference",
+  "common.referenceShort": "Ref. {reference}",
+  "common.receipts": "Receipts",
+  "common.manual": "Manual",
+  "common.viewRecord": "View record",
+  "common.backToCalculator": "← Back to the Calculator",
+  "common.language": "Language",
+
+  // --- Navigation ---
+  "nav.history": "View History",
+  "nav.dashboard": "Summary",
+  "nav.rates": "Rates",
+  "nav.clients": "Clients",
+  "nav.settings": "Settings",
+
+  // --- Receipts ---
+  "receipts.duplicateLine": "{name}: settlement of {date} for {amount}",
+  "receipts.readFailed": "The receipt could not be read.",
+
+  // --- Calculator ---
+  "calculator.amountInput": "{label} amount",
+  "calculator.fileAlreadyAttached": "You already attached this file: {files}",
+  "calculator.registerMissing": "To register, make sure the 'Net {currency}' is greater than zero and that a receipt is attached.",
+  "calculator.confirmRateFirst": "Confirm the exchange rate or enter a manual rate before registering.",
+  "calculator.duplicateConfirmOne": "WARNING! A receipt is already registered on another settlement:",
+  "calculator.duplicateConfirmMany": "WARNING! Several receipts are already registered on another settlement:",
+  "calculator.duplicateConfirmQuestion": "Registering it again may cause a double payment. Register anyway?",
+  "calculator.title": "SETTLEMENT",
+  "calculator.date": "Settlement date",
+  "calculator.operation": "Operation",
+  "calculator.receivedAmount": "Amount received {currency}",
+  "calculator.noActiveChannels": "There are no active payment channels. Add them in Settings.",
+  "calculator.balance": "Movement Balance",
+  "calculator.ruleSet": "Commission rule",
+  "calculator.commission": "Commission {percent}%",
+  "calculator.net": "Net",
+  "calculator.netFormula": "=Movement Balance - Commission",
+  "calculator.amountUnreadable": "Amount not readable",
+  "calculator.reading": "Reading...",
+  "calculator.readData": "Read data",
+  "calculator.receiptsTotal": "Receipts total:",
+  "calculator.duplicateWarning": "Duplicate receipt! This file is already attached to another settlement; registering it may cause a double payment.",
+  "calculator.mismatch": "The typed total ({typed}) does not match the sum of the receipts ({receipts}).",
+  "calculator.loadingRate": "Loading Rate...",
+  "calculator.register": "Register Settlement",
+  "calculator.fetchingRate": "Fetching the {market} exchange rate...",
+  "calculator.rate": "Exchange rate:",
+  "calculator.fetchedAt": "Fetched {date}",
+  "calculator.staleTitle": "Offline. The rate will be refreshed when the connection returns.",
+  "calculator.stale": "Outdated rate · {date}",
+  "calculator.sourceLink": "View the exchange rate source on Google Finance",
+  "calculator.source": "Source",
+  "calculator.noLoggedRates": "There are no logged rates; the current rate is used for {date}.",
+  "calculator.usingLiveRate": "The current rate is used for a settlement dated {date}.",
+  "calculator.useLoggedRate": "Use the logged rate ({rate})",
+  "calculator.proposedExact": "The rate logged on {date} is proposed ({provider}, {time}).",
+  "calculator.proposedNearest": "There is no rate logged on {date}; the nearest one, from {nearest}, is proposed ({provider}).",
+  "calculator.useLiveRate": "Use the current rate ({rate})",
+  "calculator.rateFailedValidation": "The fetched rate failed validation:",
+  "calculator.manualRateFailedValidation": "The manual rate failed validation:",
+  "calculator.confirmRate": "I confirm the rate is correct",
+  "calculator.manualRate": "Manual rate",
+  "calculator.total": "TOTAL {currency}",
+  "calculator.totalFormula": "=Net {operator} Rate {base}-{quote}",
+
+  // --- Edit dialog ---
+  "edit.duplicateConfirm": "WARNING! The receipt is already registered on another settlement:",
+  "edit.duplicateConfirmQuestion": "This may cause a double payment. Save anyway?",
+  "edit.title": "Edit Record",
+  "edit.rate": "Rate {market}",
+  "edit.sourceTotal": "Amount {currency} (Total)",
+  "edit.noBreakdown": "This record has no per-channel breakdown.",
+  "edit.addBreakdown": "Add breakdown",
+  "edit.commission": "Commission ({rule}, {percent}%):",
+  "edit.net": "Net {currency}:",
+  "edit.total": "Total {currency}:",
+  "edit.duplicateWarning": "Duplicate receipt! This file is already attached to another settlement.",
+  "edit.reason": "Reason for the change (optional)",
+  "edit.reasonPlaceholder": "E.g. correcting the agreed rate",
+  "edit.reasonHint": "It is kept in the record's change history.",
+  "edit.saveChanges": "Save Changes",
+
+  // --- Record status ---
+  "status.pendiente": "Pending",
+  "status.pagado": "Paid",
+  "status.conciliado": "Reconciled",
+  "status.anulado": "Cancelled",
+  "status.invalidTransition": "Cannot move from \"{from}\" to \"{to}\".",
+  "status.paymentsMissing": "Record payments covering the {currency} total before marking the record as paid.",
+
+  // --- Audit trail ---
+  "audit.action.create": "Created",
+  "audit.action.update": "Edited",
+  "audit.action.delete": "Deleted",
+  "audit.action.restore": "Restored",
+  "audit.field.fecha": "Date",
+  "audit.field.monedaOrigen": "Source currency",
+  "audit.field.monedaDestino": "Target currency",
+  "audit.field.direccionTasa": "Rate application",
+  "audit.field.valorOrigen": "Source amount",
+  "audit.field.montosPorCanal": "Amounts per channel",
+  "audit.field.comisionOrigen": "Source commission",
+  "audit.field.liquidoOrigen": "Source net",
+  "audit.field.tasa": "Rate",
+  "audit.field.totalDestino": "Target total",
+  "audit.field.comprobantes": "Receipts",
+  "audit.field.referencia": "Reference",
+  "audit.field.estado": "Status",
+  "audit.field.pagos": "Payments",
+  "audit.field.tasaFuente": "Rate source",
+  "audit.field.tasaFecha": "Rate date",
+  "audit.field.tasaCotizada": "Quoted rate",
+  "audit.field.reglaComision": "Commission rule",
+  "audit.field.porcentajeComision": "Commission %",
+  "audit.field.clienteId": "Client",
+  "audit.field.eliminadoEn": "Deleted at",
+  "audit.field.valorCop": "COP amount",
+  "audit.field.comisionCop": "COP commission",
+  "audit.field.liquidoCop": "COP net",
+  "audit.field.tasaBrlCop": "BRL/COP rate",
+  "audit.field.totalBrl": "BRL total",
+  "audit.field.pagosBrl": "BRL payments",
+  "audit.title": "Change history",
+  "audit.loading": "Loading changes...",
+  "audit.loadFailed": "The change history could not be loaded.",
+  "audit.empty": "There are no recorded changes for this settlement.",
+  "audit.reason": "Reason:",
+  "audit.field": "Field",
+  "audit.before": "Before",
+  "audit.after": "After",
+
+  // --- Attachments ---
+  "attachments.onlyImagesAndPdf": "Only images and PDF files are accepted.",
+  "attachments.dropHere": "Drag the receipts here or click to choose them",
+  "attachments.dropHint": "Images or PDF, one or more files",
+  "attachments.noFile": "No file",
+  "attachments.amountPlaceholder": "COP amount",
+  "attachments.amountOf": "Amount of {name}",
+  "attachments.position": "({index} of {count})",
+  "attachments.download": "Download",
+  "attachments.previous": "Previous",
+  "attachments.next": "Next",
+  "attachments.noPreview": "Preview is not available for this file type.",
+
+  // --- Payments ---
+  "payments.invalidAmount": "Enter the date and a {currency} amount greater than zero.",
+  "payments.exceedsBalance": "The payment exceeds the outstanding balance of {amount}. Record it anyway?",
+  "payments.confirmRemove": "Remove the payment of {date} for {amount}?",
+  "payments.title": "{currency} payments",
+  "payments.settlementOf": "Settlement of {date}",
+  "payments.status": "Status",
+  "payments.total": "Total",
+  "payments.paid": "Paid",
+  "payments.balance": "Balance",
+  "payments.empty": "No payments have been recorded yet.",
+  "payments.amount": "Amount {currency}",
+  "payments.proof": "Proof",
+  "payments.add": "Record payment",
+  "payments.transferReference": "PIX / transfer reference",
+  "payments.proofOptional": "Payment proof (optional)",
+  "payments.addButton": "Add payment",
+
+  // --- Exports ---
+  "export.audit.at": "Date and time",
+  "export.audit.record": "Record",
+  "export.audit.action": "Action",
+  "export.audit.field": "Field",
+  "export.audit.before": "Before",
+  "export.audit.after": "After",
+  "export.audit.reason": "Reason",
+  "statement.title": "Account statement",
+  "statement.allClients": "All clients",
+  "statement.period": "Period: {start} to {end}",
+  "statement.generated": "Generated: {date}",
+  "statement.total": "Total ({count})",
+  "statement.date": "Date",
+  "statement.pair": "Pair",
+  "statement.amount": "Amount",
+  "statement.commission": "Commission",
+  "statement.net": "Net",
+  "statement.rate": "Rate",
+  "statement.receipt": "Receipt",
+  "statement.popupBlocked": "The browser blocked the statement window. Allow pop-ups and try again.",
+
+  // --- Exchange rates ---
+  "rates.error.noApiKey": "The server has no Gemini API key configured (GEMINI_API_KEY).",
+  "rates.error.unparsable": "Could not parse a valid exchange rate from the AI response.",
+  "rates.error.endpointMarket": "Rate endpoint is not configured for {market}.",
+  "rates.error.endpointStatus": "Rate endpoint responded with HTTP {status}.",
+  "rates.error.endpointPath": "No numeric rate found at \"{path}\" in the endpoint response.",
+  "rates.error.noManualRate": "No manual {market} exchange rate has been entered yet.",
+  "rates.error.allFailed": "Failed to fetch a plausible {market} exchange rate from any configured source.",
+
+  // --- Rate validation ---
+  "rateCheck.offline": "Offline: using the last known rate ({provider}, {date}).",
+  "rateCheck.outOfBand": "The {market} rate {rate} is outside the plausible range ({min} - {max}).",
+  "rateCheck.deviation": "The rate deviates {deviation}% from the last recorded rate ({last}); the maximum is {max}%.",
+  "rateCheck.noSecondSource": "No second source was available to confirm the rate.",
+  "rateCheck.disagreement": "{provider} ({rate}) and {otherProvider} ({otherRate}) differ by {disagreement}%; the tolerance is {tolerance}%.",
+
+  // --- Receipt reader ---
+  "receiptReader.unparsable": "Could not parse the receipt data from the AI response.",
+  "receiptReader.failed": "The receipt could not be read. Enter the details manually.",
+
+  // --- Commission ---
+  "commission.formulaTiers": "Movement balance * % per tier",
+  "commission.formulaPercent": "Movement balance * {percent}%",
+  "commission.channelRates": " (per-channel rates)",
+  "commission.minimumFee": " (min. ${amount})",
+
+  // --- Period summary ---
+  "period.weekOf": "Week of {date}",
+
+  // --- Storage ---
+  "storage.loadHistory": "The saved history could not be loaded.",
+  "storage.saveRecord": "The record could not be saved to local storage.",
+  "storage.deleteRecord": "The record could not be deleted from local storage.",
+  "storage.restoreRecord": "The record could not be restored.",
+  "storage.loadAudit": "The change history could not be loaded.",
+  "storage.loadClients": "The client directory could not be loaded.",
+  "storage.saveClient": "The client could not be saved to local storage.",
+  "storage.deleteClient": "The client could not be deleted from local storage.",
+  "storage.loadRates": "The rate history could not be loaded.",
+  "storage.saveRate": "The rate could not be saved to the rate history.",
+  "storage.saveImported": "The imported records could not be saved.",
+  "storage.readSnapshot": "The saved data could not be read.",
+  "storage.restoreBackup": "The backup could not be restored to local storage.",
+
+  // --- Backup ---
+  "backup.notBackup": "The file is not a backup of this application.",
+  "backup.newerVersion": "The backup is from a newer version ({version}). Update the application before restoring it.",
+  "backup.incomplete": "The backup is incomplete.",
+  "backup.invalidRecord": "Record {id} in the backup is invalid or from a newer version.",
+  "backup.noId": "without id",
+  "backup.noManifest": "The backup has no manifest.",
+  "backup.unreadable": "The backup file could not be read.",
+
+  // --- Zip ---
+  "zip.invalid": "The file is not a valid ZIP.",
+  "zip.corruptDirectory": "The ZIP file directory is corrupt.",
+  "zip.unsupportedMethod": "Unsupported ZIP compression method ({method}) in {name}.",
+
+  // --- Import ---
+  "import.title": "Import history",
+  "import.subtitle": "CSV or XLSX files with the same columns as the export.",
+  "import.file": "File",
+  "import.readFailed": "The file could not be read.",
+  "import.rowCount": "{file}: {count} rows",
+  "import.columns": "Columns",
+  "import.skipColumn": "— Do not import —",
+  "import.columnN": "Column {n}",
+  "import.channelSource": "{channel} (source)",
+  "import.decimalSeparator": "Decimal separator",
+  "import.decimalComma": "Comma (1.234,56)",
+  "import.decimalPoint": "Point (1,234.56)",
+  "import.defaultPair": "Pair for rows without a PAR column",
+  "import.ruleSet": "Rule for rows without a commission",
+  "import.useRecomputed": "Use recalculated values when they differ",
+  "import.includeDuplicates": "Also import duplicates",
+  "import.missingFields": "Assign the required columns: {fields}.",
+  "import.preview": "Preview",
+  "import.counts": "{ok} valid · {duplicate} duplicates · {error} with errors · {mismatch} with differences in the calculated values",
+  "import.col.line": "Row",
+  "import.col.status": "Status",
+  "import.col.pair": "Pair",
+  "import.col.amount": "Amount",
+  "import.col.commission": "Commission",
+  "import.col.net": "Net",
+  "import.col.rate": "Rate",
+  "import.col.total": "Total",
+  "import.col.notes": "Notes",
+  "import.status.ok": "Valid",
+  "import.status.duplicate": "Duplicate",
+  "import.status.error": "Error",
+  "import.noReceipt": "No receipt",
+  "import.submit": "Import {count} records",
+  "import.field.fecha": "Date",
+  "import.field.valorOrigen": "Source amount",
+  "import.field.comisionOrigen": "Source commission",
+  "import.field.liquidoOrigen": "Source net",
+  "import.field.tasa": "Rate",
+  "import.field.totalDestino": "Target total",
+  "import.field.comprobanteName": "Receipt",
+  "import.field.cliente": "Client",
+  "import.field.par": "Currency pair",
+  "import.field.estado": "Status",
+  "import.field.pagado": "Paid in target currency",
+  "import.error.noSheet": "The XLSX file has no readable sheet.",
+  "import.error.unreadable": "The file could not be read. Check that it is a valid CSV or XLSX.",
+  "import.error.date": "Invalid date: \"{value}\".",
+  "import.error.pair": "Unknown currency pair: \"{value}\".",
+  "import.error.amount": "Invalid amount: \"{value}\".",
+  "import.error.rate": "Invalid rate: \"{value}\".",
+  "import.error.commission": "Invalid commission: \"{value}\".",
+  "import.error.status": "Unknown status: \"{value}\".",
+  "import.error.paid": "Invalid paid amount: \"{value}\".",
+  "import.warning.channelSum": "The channel breakdown does not add up to the {currency} amount.",
+  "import.warning.ruleSet": "Commission calculated with the \"{rule}\" rule.",
+  "import.warning.net": "Net amount in the file ({file}) does not match the calculated one ({computed}).",
+  "import.warning.total": "{currency} total in the file ({file}) does not match the calculated one ({computed}).",
+  "import.warning.client": "Client \"{client}\" not found; imported without a client.",
+  "import.warning.status": "Status \"{file}\" does not match the amount paid; imported as \"{status}\".",
+
+  // --- History ---
+  "history.filter.startDate": "Start date",
+  "history.filter.endDate": "End date",
+  "history.filter.allClients": "All clients",
+  "history.filter.status": "Status",
+  "history.filter.allStatuses": "All statuses",
+  "history.filter.pair": "Currency pair",
+  "history.filter.allPairs": "All pairs",
+  "history.filter.receipt": "Receipt",
+  "history.filter.receiptPlaceholder": "Search by name",
+  "history.filter.minAmount": "Minimum amount received",
+  "history.filter.maxAmount": "Maximum amount received",
+  "history.filter.minRate": "Minimum rate",
+  "history.filter.maxRate": "Maximum rate",
+  "history.col.pair": "Pair",
+  "history.col.amount": "Amount",
+  "history.col.amountIn": "Amount {currency}",
+  "history.col.commission": "Commission",
+  "history.col.commissionIn": "Commission {currency}",
+  "history.col.net": "Net",
+  "history.col.netIn": "Net {currency}",
+  "history.col.rate": "RATE",
+  "history.col.rateIn": "RATE {market}",
+  "history.col.total": "TOTAL",
+  "history.col.totalIn": "TOTAL {currency}",
+  "history.col.status": "Status",
+  "history.col.running": "Running total",
+  "history.col.receipt": "RECEIPT",
+  "history.col.actions": "Actions",
+  "history.col.records": "Records",
+  "history.col.deletedAt": "Deleted",
+  "history.noRecordsToExport": "There are no records to export with the selected filters.",
+  "history.statementFailed": "The statement could not be opened.",
+  "history.sheetRecords": "Settlements",
+  "history.sheetAudit": "Audit",
+  "history.confirmDelete": "The record will be moved to the trash and can be restored from there.\n\nReason for deleting (optional):",
+  "history.title": "Settlement History",
+  "history.import": "Import",
+  "history.filters": "Filters",
+  "history.clearFilters": "Clear",
+  "history.export.format": "Format",
+  "history.export.statement": "Print account statement",
+  "history.export.delimiter": "Column separator",
+  "history.export.semicolon": "Semicolon (;)",
+  "history.export.comma": "Comma (,)",
+  "history.export.tab": "Tab",
+  "history.export.decimalSeparator": "Decimal separator",
+  "history.export.decimalComma": "Comma (1234,56)",
+  "history.export.decimalPoint": "Point (1234.56)",
+  "history.export.includeAudit": "Include change history",
+  "history.export.submit": "Export {count} records",
+  "history.export.hint": "Exports include only the records that match the filters.",
+  "history.statusTotals": "Totals by Status",
+  "history.outstanding": "Balance due:",
+  "history.filterByStatus": "Filter by this status",
+  "history.clientTotals": "Totals by Client",
+  "history.emptyAll": "No records saved yet. Go back to the calculator to register your first settlement.",
+  "history.emptyFiltered": "No records match the selected filters.",
+  "history.showBreakdown": "Show channel breakdown",
+  "history.balanceDueTitle": "{currency} balance due",
+  "history.balance": "Balance {amount}",
+  "history.duplicateTitle": "The same receipt file is attached to another record",
+  "history.duplicate": "Duplicate: {date} {client}",
+  "history.noReceipt": "No receipt",
+  "history.view": "View",
+  "history.payments": "Payments",
+  "history.changes": "Changes",
+  "history.totalRow": "Total ({count} records)",
+  "history.pagination": "Pagination",
+  "history.rowsPerPage": "Rows per page",
+  "history.previousPage": "← Previous",
+  "history.pageOf": "Page {page} of {count}",
+  "history.nextPage": "Next →",
+  "history.trash": "Trash ({count})",
+  "history.trashEmpty": "The trash is empty.",
+  "history.restore": "Restore",
+
+  // --- Record detail ---
+  "record.backToHistory": "← Back to History",
+  "record.loading": "Loading record…",
+  "record.notFound": "The record was not found. The link may be wrong or the record may belong to another device.",
+  "record.amount": "Amount {currency}",
+  "record.commission": "Commission ({rule}, {percent}%)",
+  "record.net": "Net {currency}",
+  "record.rate": "Rate {market}",
+  "record.quoted": "Quoted: {rate}",
+  "record.total": "Total {currency}",
+  "record.paid": "Paid {currency}",
+  "record.balance": "Balance {currency}",
+  "record.title": "Settlement of {date}",
+  "record.trashed": "This record has been in the trash since {date}. Restore it from the history to edit it.",
+  "record.reference": "Reference:",
+  "record.noReceipts": "This record has no receipts.",
+  "record.duplicates": "The same receipt file is attached to another record:",
+  "record.payments": "Payments {currency}",
+  "record.paymentAmount": "Amount",
+
+  // --- Dashboard ---
+  "dashboard.granularity.day": "Daily",
+  "dashboard.granularity.week": "Weekly",
+  "dashboard.granularity.month": "Monthly",
+  "dashboard.rateChartTooFew": "At least two settlements are needed to chart the rate.",
+  "dashboard.rateOverTime": "{market} rate over time",
+  "dashboard.volumeChart": "Volume and commission per period",
+  "dashboard.volumeTooltip": "{period}: {amount} (commission {commission})",
+  "dashboard.received": "Amount received",
+  "dashboard.commission": "Commission",
+  "dashboard.net": "Net",
+  "dashboard.total": "Total {currency}",
+  "dashboard.weightedAverage": "Weighted average rate",
+  "dashboard.title": "Summary by Period",
+  "dashboard.pair": "Currency pair",
+  "dashboard.volume": "Volume and commission",
+  "dashboard.amountLegend": "Amount {currency}",
+  "dashboard.commissionLegend": "Commission {currency}",
+  "dashboard.periodTotals": "Totals by period",
+  "dashboard.col.period": "Period",
+  "dashboard.col.averageRate": "Average rate",
+  "dashboard.col.weightedRate": "Weighted rate",
+
+  // --- Rate history ---
+  "rateHistory.title": "Rate History",
+  "rateHistory.market": "Market",
+  "rateHistory.from": "From",
+  "rateHistory.to": "To",
+  "rateHistory.source": "Source",
+  "rateHistory.allSources": "All",
+  "rateHistory.quotes": "Quotes",
+  "rateHistory.min": "Lowest",
+  "rateHistory.max": "Highest",
+  "rateHistory.average": "Average",
+  "rateHistory.col.rate": "Rate {market}",
+  "rateHistory.col.change": "Change",
+  "rateHistory.loading": "Loading rates...",
+  "rateHistory.empty": "No rates logged yet. Every rate fetched in the calculator is saved here.",
+  "rateHistory.emptyFiltered": "No rates match the filters.",
+
+  // --- Settings ---
+  "settings.name": "Name",
+  "settings.default": "Default",
+  "settings.makeDefault": "Make default",
+  "settings.basePercent": "Base percentage (%)",
+  "settings.fixedFee": "Fixed fee (COP)",
+  "settings.minimumFee": "Minimum commission (COP)",
+  "settings.tiers": "Tiers by amount",
+  "settings.tiersHint": "Leave \"Up to\" blank for the last tier. Without tiers the base percentage is used.",
+  "settings.upTo": "Up to (COP)",
+  "settings.percent": "Percentage (%)",
+  "settings.addTier": "+ Add tier",
+  "settings.channelPercents": "Percentage per channel",
+  "settings.channelPercentsHint": "Leave blank to use the channel's own commission, or the base or tier percentage.",
+  "settings.channelPercent": "{channel} (%)",
+  "settings.archivedHint": "Archived channels do not appear in the calculator, but records that use them keep them.",
+  "settings.moveUp": "Move {channel} up",
+  "settings.moveDown": "Move {channel} down",
+  "settings.channelCommission": "Commission (%)",
+  "settings.restoreChannel": "Restore",
+  "settings.archiveChannel": "Archive",
+  "settings.newChannel": "New channel",
+  "settings.addChannel": "+ Add channel",
+  "settings.newRule": "New rule",
+  "settings.confirmDeleteRule": "Delete this commission rule? Existing records keep the rule they were calculated with.",
+  "settings.ruleNameRequired": "Every commission rule needs a name.",
+  "settings.channelNameRequired": "Every payment channel needs a name.",
+  "settings.saved": "Settings saved.",
+  "settings.backupCreated": "Backup created: {records} records, {attachments} receipts, {clients} clients, {rates} rates and {auditEntries} audited changes.",
+  "settings.backupFailed": "The backup could not be created.",
+  "settings.confirmReplace": "Current records will be replaced with those in the backup, and the ones it lacks will be moved to the trash. Current clients will be deleted. The change history is kept. Continue?",
+  "settings.restored": "Backup restored.",
+  "settings.restoredRecords": "Records imported: {count}",
+  "settings.restoredSkipped": " ({count} already existed)",
+  "settings.restoredTrashed": "Records moved to the trash: {count}",
+  "settings.restoredAttachments": "Receipts imported: {count}",
+  "settings.restoredClients": "Clients imported: {count}",
+  "settings.restoredRates": "Rates imported: {count}",
+  "settings.restoredAudit": "Audited changes imported: {count}",
+  "settings.restoreFailed": "The backup could not be restored.",
+  "settings.title": "Settings",
+  "settings.channels": "Payment Channels",
+  "settings.rules": "Commission Rules",
+  "settings.rateValidation": "Rate validation",
+  "settings.rateValidationHint": "A {market} quote that fails these checks blocks registration until it is confirmed or replaced with a manual rate.",
+  "settings.minRate": "Minimum {market} rate",
+  "settings.maxRate": "Maximum {market} rate",
+  "settings.maxDeviation": "Maximum change from the last rate (%)",
+  "settings.requireAgreement": "Require a second provider to confirm the rate",
+  "settings.agreementTolerance": "Maximum difference between providers (%)",
+  "settings.rateBandInvalid": "The minimum rate must be above zero and below the maximum.",
+  "settings.ratePercentInvalid": "The rate validation percentages must be above zero.",
+  "settings.addRule": "+ New Rule",
+  "settings.backup": "Backup",
+  "settings.backupHint": "A single ZIP file with every record, client and receipt. Keep it off the phone so no data is lost.",
+  "settings.serverAccess": "Server access",
+  "settings.serverAccessHint": "The key set as SYNC_TOKEN on the server; without it there is no sync and no Gemini. It is stored on this device only.",
+  "settings.serverToken": "Access key",
+  "settings.saveServerToken": "Save key",
+  "settings.serverTokenSaved": "Access key saved.",
+  "settings.exportBackup": "Export backup",
+  "settings.restoreMode": "When restoring",
+  "settings.restoreMerge": "Merge (skip existing records)",
+  "settings.restoreReplace": "Replace all data",
+  "settings.restoreBackup": "Restore backup",
+
+  // --- Clients ---
+  "clients.nameRequired": "The client name is required.",
+  "clients.name": "Name",
+  "clients.document": "ID document",
+  "clients.pixKey": "PIX key",
+  "clients.defaultRule": "Default commission",
+  "clients.activeRule": "Default rule",
+  "clients.bank": "Bank (Brazil)",
+  "clients.branch": "Branch (agência)",
+  "clients.account": "Account (conta)",
+  "clients.save": "Save Client",
+  "clients.confirmDelete": "Are you sure you want to delete {name}?",
+  "clients.add": "+ New Client",
+  "clients.col.document": "Document",
+  "clients.col.payout": "PIX / Bank",
+  "clients.col.settlements": "Settlements",
+  "clients.empty": "No clients registered.",
+
+  // --- App ---
+  "app.loadHistoryFailed": "The saved history could not be loaded.",
+  "app.registerFailed": "The settlement could not be registered.",
+  "app.registered": "Settlement registered.",
+  "app.deleteFailed": "The record could not be deleted.",
+  "app.updateFailed": "The record could not be updated.",
+  "app.importFailed": "The records could not be imported.",
+  "app.imported": "{count} records imported.",
+  "app.saveClientFailed": "The client could not be saved.",
+  "app.clientHasRecords": "A client with registered settlements cannot be deleted.",
+  "app.deleteClientFailed": "The client could not be deleted.",
+
+  // --- Sync ---
+  "sync.status.idle": "Synced",
+  "sync.status.syncing": "Syncing…",
+  "sync.status.offline": "Offline",
+  "sync.status.error": "Sync error",
+  "sync.pending": "{count} changes to send",
+  "sync.lastSynced": "Last synced: {time}",
+  "sync.error.http": "The sync server answered with status {status}.",
+  "sync.error.unreachable": "Could not reach the sync server.",
+  "sync.error.unauthorized": "The server refused the access key. Check it in Settings.",
+  "sync.storage": "Could not update the sync state in local storage.",
+  "sync.conflict.badge": "Conflict",
+  "sync.conflict.badgeTitle": "Changed on two devices at once",
+  "sync.conflict.title": "This record was changed on two devices at once. The last change was kept; the replaced version ({date}) had these values:",
+  "sync.conflict.noDifferences": "The replaced version matches the current one.",
+  "sync.conflict.resolve": "Mark as reviewed",
+  "sync.conflict.resolveFailed": "Could not mark the conflict as reviewed.",
+
+  // --- Gemini proxy ---
+  "proxy.unauthorized": "The server refused the access key. Check it in Settings.",
+  "proxy.rateLimited": "Too many Gemini requests. Try again in {seconds} s.",
+  "proxy.status": "The Gemini proxy answered with HTTP {status}.",
+};
+
+export default en;
@@ -0,0 +1,578 @@
+// Reference catalog: every key the UI uses is defined here first. The other
+// catalogs are typed against it, so they must translate every key.
+const esCO = {
+  // --- Common ---
+  "common.loading": "Cargando...",
+  "common.unknownError": "Ocurrió un error desconocido.",
+  "common.client": "Cliente",
+  "common.noClient": "Sin cliente",
+  "common.remove": "Quitar",
+  "common.cancel": "Cancelar",
+  "common.save": "Guardar",
+  "common.edit": "Editar",
+  "common.delete": "Eliminar",
+  "common.close": "Cerrar",
+  "common.date": "Fecha",
+  "common.reference": "Referencia",
+  "common.referenceShort": "Ref. {reference}",
+  "common.receipts": "Comprobantes",
+  "common.manual": "Manual",
+  "common.viewRecord": "Ver registro",
+  "common.backToCalculator": "← Volver a la Calculadora",
+  "common.language": "Idioma",
+
+  // --- Navigation ---
+  "nav.history": "Ver Historial",
+  "nav.dashboard": "Resumen",
+  "nav.rates": "Tasas",
+  "nav.clients": "Clientes",
+  "nav.settings": "Configuración",
+
+  // --- Receipts ---
+  "receipts.duplicateLine": "{name}: liquidación del {date} por {amount}",
+  "receipts.readFailed": "No se pudo leer el comprobante.",
+
+  // --- Calculator ---
+  "calculator.amountInput": "Valor de {label}",
+  "calculator.fileAlreadyAttached": "Ya adjuntó este archivo: {files}",
+  "calculator.registerMissing": "Para registrar, asegúrese de que el 'Líquido {currency}' sea mayor a cero y que haya adjuntado un comprobante.",
+  "calculator.confirmRateFirst": "Confirme la tasa de cambio o ingrese una tasa manual antes de registrar.",
+  "calculator.duplicateConfirmOne": "¡ATENCIÓN! Un comprobante ya está registrado en otra liquidación:",
+  "calculator.duplicateConfirmMany": "¡ATENCIÓN! Varios comprobantes ya están registrados en otra liquidación:",
+  "calculator.duplicateConfirmQuestion": "Registrarlo de nuevo puede causar un pago doble. ¿Desea registrar de todos modos?",
+  "calculator.title": "LIQUIDACION",
+  "calculator.date": "Fecha de liquidación",
+  "calculator.operation": "Operación",
+  "calculator.receivedAmount": "Valor recibido {currency}",
+  "calculator.noActiveChannels": "No hay canales de pago activos. Agréguelos en Configuración.",
+  "calculator.balance": "Saldo Movimiento",
+  "calculator.ruleSet": "Regla de comisión",
+  "calculator.commission": "Comision {percent}%",
+  "calculator.net": "Liquido",
+  "calculator.netFormula": "=Saldo Movimiento - Comision",
+  "calculator.amountUnreadable": "Monto no legible",
+  "calculator.reading": "Leyendo...",
+  "calculator.readData": "Leer datos",
+  "calculator.receiptsTotal": "Total comprobantes:",
+  "calculator.duplicateWarning": "¡Comprobante duplicado! Este archivo ya está adjunto a otra liquidación; registrarlo puede causar un pago doble.",
+  "calculator.mismatch": "El total digitado ({typed}) no coincide con la suma de los comprobantes ({receipts}).",
+  "calculator.loadingRate": "Cargando Tasa...",
+  "calculator.register": "Registrar Liquidación",
+  "calculator.fetchingRate": "Obteniendo tasa de cambio {market}...",
+  "calculator.rate": "Tasa de cambio:",
+  "calculator.fetchedAt": "Obtenida {date}",
+  "calculator.staleTitle": "Sin conexión. La tasa se actualizará al recuperar la conexión.",
+  "calculator.stale": "Tasa desactualizada · {date}",
+  "calculator.sourceLink": "Ver fuente de la tasa de cambio en Google Finance",
+  "calculator.source": "Fuente",
+  "calculator.noLoggedRates": "No hay tasas registradas en el historial; para el {date} se usa la tasa actual.",
+  "calculator.usingLiveRate": "Se usa la tasa actual para una liquidación del {date}.",
+  "calculator.useLoggedRate": "Usar la tasa registrada ({rate})",
+  "calculator.proposedExact": "Se propone la tasa registrada el {date} ({provider}, {time}).",
+  "calculator.proposedNearest": "No hay tasa registrada el {date}; se propone la más cercana, del {nearest} ({provider}).",
+  "calculator.useLiveRate": "Usar la tasa actual ({rate})",
+  "calculator.rateFailedValidation": "La tasa obtenida no pasó la validación:",
+  "calculator.manualRateFailedValidation": "La tasa manual no pasó la validación:",
+  "calculator.confirmRate": "Confirmo que la tasa es correcta",
+  "calculator.manualRate": "Tasa manual",
+  "calculator.total": "TOTAL {currency}",
+  "calculator.totalFormula": "=Liquido {operator} Tasa {base}-{quote}",
+
+  // --- Edit dialog ---
+  "edit.duplicateConfirm": "¡ATENCIÓN! El comprobante ya está registrado en otra liquidación:",
+  "edit.duplicateConfirmQuestion": "Puede causar un pago doble. ¿Desea guardar de todos modos?",
+  "edit.title": "Editar Registro",
+  "edit.rate": "Tasa {market}",
+  "edit.sourceTotal": "Valor {currency} (Total)",
+  "edit.noBreakdown": "Este registro no tiene desglose por canal.",
+  "edit.addBreakdown": "Agregar desglose",
+  "edit.commission": "Comisión ({rule}, {percent}%):",
+  "edit.net": "Líquido {currency}:",
+  "edit.total": "Total {currency}:",
+  "edit.duplicateWarning": "¡Comprobante duplicado! Este archivo ya está adjunto a otra liquidación.",
+  "edit.reason": "Motivo del cambio (opcional)",
+  "edit.reasonPlaceholder": "Ej.: corrección de la tasa acordada",
+  "edit.reasonHint": "Queda registrado en el historial de cambios del registro.",
+  "edit.saveChanges": "Guardar Cambios",
+
+  // --- Record status ---
+  "status.pendiente": "Pendiente",
+  "status.pagado": "Pagado",
+  "status.conciliado": "Conciliado",
+  "status.anulado": "Anulado",
+  "status.invalidTransition": "No se puede pasar de \"{from}\" a \"{to}\".",
+  "status.paymentsMissing": "Registre pagos que cubran el total {currency} antes de marcar el registro como pagado.",
+
+  // --- Audit trail ---
+  "audit.action.create": "Creación",
+  "audit.action.update": "Edición",
+  "audit.action.delete": "Eliminación",
+  "audit.action.restore": "Restauración",
+  "audit.field.fecha": "Fecha",
+  "audit.field.monedaOrigen": "Moneda origen",
+  "audit.field.monedaDestino": "Moneda destino",
+  "audit.field.direccionTasa": "Aplicación de la tasa",
+  "audit.field.valorOrigen": "Valor origen",
+  "audit.field.montosPorCanal": "Montos por canal",
+  "audit.field.comisionOrigen": "Comisión origen",
+  "audit.field.liquidoOrigen": "Líquido origen",
+  "audit.field.tasa": "Tasa",
+  "audit.field.totalDestino": "Total destino",
+  "audit.field.comprobantes": "Comprobantes",
+  "audit.field.referencia": "Referencia",
+  "audit.field.estado": "Estado",
+  "audit.field.pagos": "Pagos",
+  "audit.field.tasaFuente": "Fuente de la tasa",
+  "audit.field.tasaFecha": "Fecha de la tasa",
+  "audit.field.tasaCotizada": "Tasa cotizada",
+  "audit.field.reglaComision": "Regla de comisión",
+  "audit.field.porcentajeComision": "% comisión",
+  "audit.field.clienteId": "Cliente",
+  "audit.field.eliminadoEn": "Eliminado en",
+  "audit.field.valorCop": "Valor COP",
+  "audit.field.comisionCop": "Comisión COP",
+  "audit.field.liquidoCop": "Líquido COP",
+  "audit.field.tasaBrlCop": "Tasa BRL/COP",
+  "audit.field.totalBrl": "Total BRL",
+  "audit.field.pagosBrl": "Pagos BRL",
+  "audit.title": "Historial de cambios",
+  "audit.loading": "Cargando cambios...",
+  "audit.loadFailed": "No se pudo cargar el historial de cambios.",
+  "audit.empty": "No hay cambios registrados para esta liquidación.",
+  "audit.reason": "Motivo:",
+  "audit.field": "Campo",
+  "audit.before": "Antes",
+  "audit.after": "Después",
+
+  // --- Attachments ---
+  "attachments.onlyImagesAndPdf": "Solo se aceptan imágenes y archivos PDF.",
+  "attachments.dropHere": "Arrastre los comprobantes aquí o haga clic para elegirlos",
+  "attachments.dropHint": "Imágenes o PDF, uno o varios archivos",
+  "attachments.noFile": "Sin archivo",
+  "attachments.amountPlaceholder": "Monto COP",
+  "attachments.amountOf": "Monto de {name}",
+  "attachments.position": "({index} de {count})",
+  "attachments.download": "Descargar",
+  "attachments.previous": "Anterior",
+  "attachments.next": "Siguiente",
+  "attachments.noPreview": "Vista previa no disponible para este tipo de archivo.",
+
+  // --- Payments ---
+  "payments.invalidAmount": "Ingrese la fecha y un monto {currency} mayor que cero.",
+  "payments.exceedsBalance": "El pago supera el saldo pendiente de {amount}. ¿Desea registrarlo de todos modos?",
+  "payments.confirmRemove": "¿Quitar el pago del {date} por {amount}?",
+  "payments.title": "Pagos {currency}",
+  "payments.settlementOf": "Liquidación del {date}",
+  "payments.status": "Estado",
+  "payments.total": "Total",
+  "payments.paid": "Pagado",
+  "payments.balance": "Saldo",
+  "payments.empty": "Aún no hay pagos registrados.",
+  "payments.amount": "Monto {currency}",
+  "payments.proof": "Comprobante",
+  "payments.add": "Registrar pago",
+  "payments.transferReference": "Referencia PIX / transferencia",
+  "payments.proofOptional": "Comprobante del pago (opcional)",
+  "payments.addButton": "Agregar pago",
+
+  // --- Exports ---
+  "export.audit.at": "Fecha y hora",
+  "export.audit.record": "Registro",
+  "export.audit.action": "Acción",
+  "export.audit.field": "Campo",
+  "export.audit.before": "Antes",
+  "export.audit.after": "Después",
+  "export.audit.reason": "Motivo",
+  "statement.title": "Estado de cuenta",
+  "statement.allClients": "Todos los clientes",
+  "statement.period": "Periodo: {start} a {end}",
+  "statement.generated": "Generado: {date}",
+  "statement.total": "Total ({count})",
+  "statement.date": "Fecha",
+  "statement.pair": "Par",
+  "statement.amount": "Valor",
+  "statement.commission": "Comisión",
+  "statement.net": "Líquido",
+  "statement.rate": "Tasa",
+  "statement.receipt": "Comprobante",
+  "statement.popupBlocked": "El navegador bloqueó la ventana del estado de cuenta. Permita las ventanas emergentes e intente de nuevo.",
+
+  // --- Exchange rates ---
+  "rates.error.noApiKey": "El servidor no tiene configurada la clave de la API de Gemini (GEMINI_API_KEY).",
+  "rates.error.unparsable": "No se pudo leer una tasa de cambio válida en la respuesta de la IA.",
+  "rates.error.endpointMarket": "El servicio de tasas no está configurado para {market}.",
+  "rates.error.endpointStatus": "El servicio de tasas respondió con HTTP {status}.",
+  "rates.error.endpointPath": "No hay una tasa numérica en \"{path}\" de la respuesta del servicio.",
+  "rates.error.noManualRate": "Aún no se ha ingresado una tasa manual {market}.",
+  "rates.error.allFailed": "No se pudo obtener una tasa {market} plausible de ninguna fuente configurada.",
+
+  // --- Rate validation ---
+  "rateCheck.offline": "Sin conexión: se usa la última tasa conocida ({provider}, {date}).",
+  "rateCheck.outOfBand": "La tasa {market} {rate} está fuera del rango plausible ({min} - {max}).",
+  "rateCheck.deviation": "La tasa se desvía {deviation}% de la última tasa registrada ({last}); el máximo es {max}%.",
+  "rateCheck.noSecondSource": "No hubo una segunda fuente disponible para confirmar la tasa.",
+  "rateCheck.disagreement": "{provider} ({rate}) y {otherProvider} ({otherRate}) difieren {disagreement}%; la tolerancia es {tolerance}%.",
+
+  // --- Receipt reader ---
+  "receiptReader.unparsable": "No se pudieron leer los datos del comprobante en la respuesta de la IA.",
+  "receiptReader.failed": "No se pudo leer el comprobante. Ingrese los datos manualmente.",
+
+  // --- Commission ---
+  "commission.formulaTiers": "Saldo Movimiento * % por tramo",
+  "commission.formulaPercent": "Saldo Movimiento * {percent}%",
+  "commission.channelRates": " (tarifas por canal)",
+  "commission.minimumFee": " (mín. ${amount})",
+
+  // --- Period summary ---
+  "period.weekOf": "Semana del {date}",
+
+  // --- Storage ---
+  "storage.loadHistory": "No se pudo cargar el historial guardado.",
+  "storage.saveRecord": "No se pudo guardar el registro en el almacenamiento local.",
+  "storage.deleteRecord": "No se pudo eliminar el registro del almacenamiento local.",
+  "storage.restoreRecord": "No se pudo restaurar el registro.",
+  "storage.loadAudit": "No se pudo cargar el historial de cambios.",
+  "storage.loadClients": "No se pudo cargar el directorio de clientes.",
+  "storage.saveClient": "No se pudo guardar el cliente en el almacenamiento local.",
+  "storage.deleteClient": "No se pudo eliminar el cliente del almacenamiento local.",
+  "storage.loadRates": "No se pudo cargar el historial de tasas.",
+  "storage.saveRate": "No se pudo guardar la tasa en el historial de tasas.",
+  "storage.saveImported": "No se pudieron guardar los registros importados.",
+  "storage.readSnapshot": "No se pudieron leer los datos guardados.",
+  "storage.restoreBackup": "No se pudo restaurar el respaldo en el almacenamiento local.",
+
+  // --- Backup ---
+  "backup.notBackup": "El archivo no es un respaldo de esta aplicación.",
+  "backup.newerVersion": "El respaldo es de una versión más reciente ({version}). Actualice la aplicación antes de restaurarlo.",
+  "backup.incomplete": "El respaldo está incompleto.",
+  "backup.invalidRecord": "El registro {id} del respaldo no es válido o es de una versión más reciente.",
+  "backup.noId": "sin id",
+  "backup.noManifest": "El respaldo no contiene el manifiesto.",
+  "backup.unreadable": "No se pudo leer el archivo de respaldo.",
+
+  // --- Zip ---
+  "zip.invalid": "El archivo no es un ZIP válido.",
+  "zip.corruptDirectory": "El directorio del archivo ZIP está dañado.",
+  "zip.unsupportedMethod": "Método de compresión ZIP no soportado ({method}) en {name}.",
+
+  // --- Import ---
+  "import.title": "Importar historial",
+  "import.subtitle": "Archivos CSV o XLSX con las mismas columnas que la exportación.",
+  "import.file": "Archivo",
+  "import.readFailed": "No se pudo leer el archivo.",
+  "import.rowCount": "{file}: {count} filas",
+  "import.columns": "Columnas",
+  "import.skipColumn": "— No importar —",
+  "import.columnN": "Columna {n}",
+  "import.channelSource": "{channel} (origen)",
+  "import.decimalSeparator": "Separador decimal",
+  "import.decimalComma": "Coma (1.234,56)",
+  "import.decimalPoint": "Punto (1,234.56)",
+  "import.defaultPair": "Par para filas sin columna PAR",
+  "import.ruleSet": "Regla para filas sin comisión",
+  "import.useRecomputed": "Usar valores recalculados si no coinciden",
+  "import.includeDuplicates": "Importar también los duplicados",
+  "import.missingFields": "Asigne las columnas obligatorias: {fields}.",
+  "import.preview": "Vista previa",
+  "import.counts": "{ok} válidas · {duplicate} duplicadas · {error} con errores · {mismatch} con diferencias en los valores calculados",
+  "import.col.line": "Fila",
+  "import.col.status": "Estado",
+  "import.col.pair": "Par",
+  "import.col.amount": "Valor",
+  "import.col.commission": "Comisión",
+  "import.col.net": "Líquido",
+  "import.col.rate": "Tasa",
+  "import.col.total": "Total",
+  "import.col.notes": "Observaciones",
+  "import.status.ok": "Válido",
+  "import.status.duplicate": "Duplicado",
+  "import.status.error": "Error",
+  "import.noReceipt": "Sin comprobante",
+  "import.submit": "Importar {count} registros",
+  "import.field.fecha": "Fecha",
+  "import.field.valorOrigen": "Valor origen",
+  "import.field.comisionOrigen": "Comisión origen",
+  "import.field.liquidoOrigen": "Líquido origen",
+  "import.field.tasa": "Tasa",
+  "import.field.totalDestino": "Total destino",
+  "import.field.comprobanteName": "Comprobante",
+  "import.field.cliente": "Cliente",
+  "import.field.par": "Par de monedas",
+  "import.field.estado": "Estado",
+  "import.field.pagado": "Pagado destino",
+  "import.error.noSheet": "El archivo XLSX no contiene ninguna hoja legible.",
+  "import.error.unreadable": "No se pudo leer el archivo. Verifique que sea un CSV o XLSX válido.",
+  "import.error.date": "Fecha inválida: \"{value}\".",
+  "import.error.pair": "Par de monedas desconocido: \"{value}\".",
+  "import.error.amount": "Valor inválido: \"{value}\".",
+  "import.error.rate": "Tasa inválida: \"{value}\".",
+  "import.error.commission": "Comisión inválida: \"{value}\".",
+  "import.error.status": "Estado desconocido: \"{value}\".",
+  "import.error.paid": "Valor pagado inválido: \"{value}\".",
+  "import.warning.channelSum": "El desglose por canal no suma el Valor {currency}.",
+  "import.warning.ruleSet": "Comisión calculada con la regla \"{rule}\".",
+  "import.warning.net": "Líquido del archivo ({file}) no coincide con el calculado ({computed}).",
+  "import.warning.total": "Total {currency} del archivo ({file}) no coincide con el calculado ({computed}).",
+  "import.warning.client": "Cliente \"{client}\" no encontrado; se importa sin cliente.",
+  "import.warning.status": "El estado \"{file}\" no corresponde a lo pagado; se importa como \"{status}\".",
+
+  // --- History ---
+  "history.filter.startDate": "Fecha de inicio",
+  "history.filter.endDate": "Fecha de fin",
+  "history.filter.allClients": "Todos los clientes",
+  "history.filter.status": "Estado",
+  "history.filter.allStatuses": "Todos los estados",
+  "history.filter.pair": "Par de monedas",
+  "history.filter.allPairs": "Todos los pares",
+  "history.filter.receipt": "Comprobante",
+  "history.filter.receiptPlaceholder": "Buscar por nombre",
+  "history.filter.minAmount": "Valor recibido mínimo",
+  "history.filter.maxAmount": "Valor recibido máximo",
+  "history.filter.minRate": "Tasa mínima",
+  "history.filter.maxRate": "Tasa máxima",
+  "history.col.pair": "Par",
+  "history.col.amount": "Valor",
+  "history.col.amountIn": "Valor {currency}",
+  "history.col.commission": "Comision",
+  "history.col.commissionIn": "Comision {currency}",
+  "history.col.net": "Liquido",
+  "history.col.netIn": "Liquido {currency}",
+  "history.col.rate": "TASA",
+  "history.col.rateIn": "TASA {market}",
+  "history.col.total": "TOTAL",
+  "history.col.totalIn": "TOTAL {currency}",
+  "history.col.status": "Estado",
+  "history.col.running": "Acumulado",
+  "history.col.receipt": "COMPROBANTE",
+  "history.col.actions": "Acciones",
+  "history.col.records": "Registros",
+  "history.col.deletedAt": "Eliminado",
+  "history.noRecordsToExport": "No hay registros para exportar con los filtros seleccionados.",
+  "history.statementFailed": "No se pudo abrir el estado de cuenta.",
+  "history.sheetRecords": "Liquidaciones",
+  "history.sheetAudit": "Auditoria",
+  "history.confirmDelete": "El registro se moverá a la papelera y podrá restaurarse desde allí.\n\nMotivo de la eliminación (opcional):",
+  "history.title": "Historial de Liquidaciones",
+  "history.import": "Importar",
+  "history.filters": "Filtros",
+  "history.clearFilters": "Limpiar",
+  "history.export.format": "Formato",
+  "history.export.statement": "Imprimir estado de cuenta",
+  "history.export.delimiter": "Separador de columnas",
+  "history.export.semicolon": "Punto y coma (;)",
+  "history.export.comma": "Coma (,)",
+  "history.export.tab": "Tabulador",
+  "history.export.decimalSeparator": "Separador decimal",
+  "history.export.decimalComma": "Coma (1234,56)",
+  "history.export.decimalPoint": "Punto (1234.56)",
+  "history.export.includeAudit": "Incluir historial de cambios",
+  "history.export.submit": "Exportar {count} registros",
+  "history.export.hint": "Las exportaciones incluyen solo los registros que coinciden con los filtros.",
+  "history.statusTotals": "Totales por Estado",
+  "history.outstanding": "Saldo por pagar:",
+  "history.filterByStatus": "Filtrar por este estado",
+  "history.clientTotals": "Totales por Cliente",
+  "history.emptyAll": "No hay registros guardados. Vuelva a la calculadora para registrar su primera liquidación.",
+  "history.emptyFiltered": "Ningún registro coincide con los filtros seleccionados.",
+  "history.showBreakdown": "Ver desglose por canal",
+  "history.balanceDueTitle": "Saldo {currency} por pagar",
+  "history.balance": "Saldo {amount}",
+  "history.duplicateTitle": "El mismo archivo de comprobante está adjunto a otro registro",
+  "history.duplicate": "Duplicado: {date} {client}",
+  "history.noReceipt": "Sin comprobante",
+  "history.view": "Ver",
+  "history.payments": "Pagos",
+  "history.changes": "Cambios",
+  "history.totalRow": "Total ({count} registros)",
+  "history.pagination": "Paginación",
+  "history.rowsPerPage": "Filas por página",
+  "history.previousPage": "← Anterior",
+  "history.pageOf": "Página {page} de {count}",
+  "history.nextPage": "Siguiente →",
+  "history.trash": "Papelera ({count})",
+  "history.trashEmpty": "La papelera está vacía.",
+  "history.restore": "Restaurar",
+
+  // --- Record detail ---
+  "record.backToHistory": "← Volver al Historial",
+  "record.loading": "Cargando registro…",
+  "record.notFound": "No se encontró el registro. Puede que el enlace sea incorrecto o que el registro pertenezca a otro dispositivo.",
+  "record.amount": "Valor {currency}",
+  "record.commission": "Comisión ({rule}, {percent}%)",
+  "record.net": "Líquido {currency}",
+  "record.rate": "Tasa {market}",
+  "record.quoted": "Cotizada: {rate}",
+  "record.total": "Total {currency}",
+  "record.paid": "Pagado {currency}",
+  "record.balance": "Saldo {currency}",
+  "record.title": "Liquidación del {date}",
+  "record.trashed": "Este registro está en la papelera desde el {date}. Restáurelo desde el historial para editarlo.",
+  "record.reference": "Referencia:",
+  "record.noReceipts": "Este registro no tiene comprobantes.",
+  "record.duplicates": "El mismo archivo de comprobante está adjunto a otro registro:",
+  "record.payments": "Pagos {currency}",
+  "record.paymentAmount": "Monto",
+
+  // --- Dashboard ---
+  "dashboard.granularity.day": "Diario",
+  "dashboard.granularity.week": "Semanal",
+  "dashboard.granularity.month": "Mensual",
+  "dashboard.rateChartTooFew": "Se necesitan al menos dos liquidaciones para graficar la tasa.",
+  "dashboard.rateOverTime": "Tasa {market} en el tiempo",
+  "dashboard.volumeChart": "Volumen y comisión por periodo",
+  "dashboard.volumeTooltip": "{period}: {amount} (comisión {commission})",
+  "dashboard.received": "Valor recibido",
+  "dashboard.commission": "Comisión",
+  "dashboard.net": "Líquido",
+  "dashboard.total": "Total {currency}",
+  "dashboard.weightedAverage": "Tasa promedio ponderada",
+  "dashboard.title": "Resumen por Periodo",
+  "dashboard.pair": "Par de monedas",
+  "dashboard.volume": "Volumen y comisión",
+  "dashboard.amountLegend": "Valor {currency}",
+  "dashboard.commissionLegend": "Comisión {currency}",
+  "dashboard.periodTotals": "Totales por periodo",
+  "dashboard.col.period": "Periodo",
+  "dashboard.col.averageRate": "Tasa promedio",
+  "dashboard.col.weightedRate": "Tasa ponderada",
+
+  // --- Rate history ---
+  "rateHistory.title": "Historial de Tasas",
+  "rateHistory.market": "Mercado",
+  "rateHistory.from": "Desde",
+  "rateHistory.to": "Hasta",
+  "rateHistory.source": "Fuente",
+  "rateHistory.allSources": "Todas",
+  "rateHistory.quotes": "Cotizaciones",
+  "rateHistory.min": "Mínima",
+  "rateHistory.max": "Máxima",
+  "rateHistory.average": "Promedio",
+  "rateHistory.col.rate": "Tasa {market}",
+  "rateHistory.col.change": "Variación",
+  "rateHistory.loading": "Cargando tasas...",
+  "rateHistory.empty": "Aún no hay tasas registradas. Cada tasa obtenida en la calculadora se guarda aquí.",
+  "rateHistory.emptyFiltered": "Ninguna tasa coincide con los filtros.",
+
+  // --- Settings ---
+  "settings.name": "Nombre",
+  "settings.default": "Predeterminada",
+  "settings.makeDefault": "Usar por defecto",
+  "settings.basePercent": "Porcentaje base (%)",
+  "settings.fixedFee": "Tarifa fija (COP)",
+  "settings.minimumFee": "Comisión mínima (COP)",
+  "settings.tiers": "Tramos por monto",
+  "settings.tiersHint": "Deje \"Hasta\" en blanco para el último tramo. Sin tramos se usa el porcentaje base.",
+  "settings.upTo": "Hasta (COP)",
+  "settings.percent": "Porcentaje (%)",
+  "settings.addTier": "+ Agregar tramo",
+  "settings.channelPercents": "Porcentaje por canal",
+  "settings.channelPercentsHint": "Deje en blanco para usar la comisión propia del canal, o el porcentaje base o el del tramo.",
+  "settings.channelPercent": "{channel} (%)",
+  "settings.archivedHint": "Los canales archivados no aparecen en la calculadora, pero los registros que los usan los conservan.",
+  "settings.moveUp": "Subir {channel}",
+  "settings.moveDown": "Bajar {channel}",
+  "settings.channelCommission": "Comisión (%)",
+  "settings.restoreChannel": "Restaurar",
+  "settings.archiveChannel": "Archivar",
+  "settings.newChannel": "Nuevo canal",
+  "settings.addChannel": "+ Agregar canal",
+  "settings.newRule": "Nueva regla",
+  "settings.confirmDeleteRule": "¿Eliminar esta regla de comisión? Los registros existentes conservan la regla con la que se calcularon.",
+  "settings.ruleNameRequired": "Cada regla de comisión debe tener un nombre.",
+  "settings.channelNameRequired": "Cada canal de pago debe tener un nombre.",
+  "settings.saved": "Configuración guardada.",
+  "settings.backupCreated": "Respaldo generado: {records} registros, {attachments} comprobantes, {clients} clientes, {rates} tasas y {auditEntries} cambios auditados.",
+  "settings.backupFailed": "No se pudo generar el respaldo.",
+  "settings.confirmReplace": "Los registros actuales se reemplazarán por los del respaldo y los que no estén en él pasarán a la papelera. Los clientes actuales se eliminarán. El historial de cambios se conserva. ¿Desea continuar?",
+  "settings.restored": "Respaldo restaurado.",
+  "settings.restoredRecords": "Registros importados: {count}",
+  "settings.restoredSkipped": " ({count} ya existían)",
+  "settings.restoredTrashed": "Registros movidos a la papelera: {count}",
+  "settings.restoredAttachments": "Comprobantes importados: {count}",
+  "settings.restoredClients": "Clientes importados: {count}",
+  "settings.restoredRates": "Tasas importadas: {count}",
+  "settings.restoredAudit": "Cambios auditados importados: {count}",
+  "settings.restoreFailed": "No se pudo restaurar el respaldo.",
+  "settings.title": "Configuración",
+  "settings.channels": "Canales de Pago",
+  "settings.rules": "Reglas de Comisión",
+  "settings.rateValidation": "Validación de la tasa",
+  "settings.rateValidationHint": "Una cotización {market} que no pase estas comprobaciones bloquea el registro hasta que se confirme o se reemplace por una tasa manual.",
+  "settings.minRate": "Tasa mínima {market}",
+  "settings.maxRate": "Tasa máxima {market}",
+  "settings.maxDeviation": "Variación máxima frente a la última tasa (%)",
+  "settings.requireAgreement": "Exigir que un segundo proveedor confirme la tasa",
+  "settings.agreementTolerance": "Diferencia máxima entre proveedores (%)",
+  "settings.rateBandInvalid": "La tasa mínima debe ser mayor que cero y menor que la máxima.",
+  "settings.ratePercentInvalid": "Los porcentajes de la validación de la tasa deben ser mayores que cero.",
+  "settings.addRule": "+ Nueva Regla",
+  "settings.backup": "Respaldo",
+  "settings.backupHint": "Un único archivo ZIP con todos los registros, clientes y comprobantes. Guárdelo fuera del teléfono para no perder datos.",
+  "settings.serverAccess": "Acceso al servidor",
+  "settings.serverAccessHint": "La clave configurada como SYNC_TOKEN en el servidor; sin ella no se sincroniza ni se consulta Gemini. Se guarda solo en este dispositivo.",
+  "settings.serverToken": "Clave de acceso",
+  "settings.saveServerToken": "Guardar clave",
+  "settings.serverTokenSaved": "Clave de acceso guardada.",
+  "settings.exportBackup": "Exportar respaldo",
+  "settings.restoreMode": "Al restaurar",
+  "settings.restoreMerge": "Combinar (omitir registros existentes)",
+  "settings.restoreReplace": "Reemplazar todos los datos",
+  "settings.restoreBackup": "Restaurar respaldo",
+
+  // --- Clients ---
+  "clients.nameRequired": "El nombre del cliente es obligatorio.",
+  "clients.name": "Nombre",
+  "clients.document": "Documento de identidad",
+  "clients.pixKey": "Llave PIX",
+  "clients.defaultRule": "Comisión por defecto",
+  "clients.activeRule": "Regla predeterminada",
+  "clients.bank": "Banco (Brasil)",
+  "clients.branch": "Agência",
+  "clients.account": "Conta",
+  "clients.save": "Guardar Cliente",
+  "clients.confirmDelete": "¿Está seguro de que desea eliminar a {name}?",
+  "clients.add": "+ Nuevo Cliente",
+  "clients.col.document": "Documento",
+  "clients.col.payout": "PIX / Banco",
+  "clients.col.settlements": "Liquidaciones",
+  "clients.empty": "No hay clientes registrados.",
+
+  // --- App ---
+  "app.loadHistoryFailed": "No se pudo cargar el historial guardado.",
+  "app.registerFailed": "No se pudo registrar la liquidación.",
+  "app.registered": "Liquidación registrada con éxito.",
+  "app.deleteFailed": "No se pudo eliminar el registro.",
+  "app.updateFailed": "No se pudo actualizar el registro.",
+  "app.importFailed": "No se pudieron importar los registros.",
+  "app.imported": "{count} registros importados con éxito.",
+  "app.saveClientFailed": "No se pudo guardar el cliente.",
+  "app.clientHasRecords": "No se puede eliminar un cliente que tiene liquidaciones registradas.",
+  "app.deleteClientFailed": "No se pudo eliminar el cliente.",
+
+  // --- Sync ---
+  "sync.status.idle": "Sincronizado",
+  "sync.status.syncing": "Sincronizando…",
+  "sync.status.offline": "Sin conexión",
+  "sync.status.error": "Error de sincronización",
+  "sync.pending": "{count} cambios por enviar",
+  "sync.lastSynced": "Última sincronización: {time}",
+  "sync.error.http": "El servidor de sincronización respondió con el código {status}.",
+  "sync.error.unreachable": "No se pudo contactar el servidor de sincronización.",
+  "sync.error.unauthorized": "El servidor rechazó la clave de acceso. Revísela en Configuración.",
+  "sync.storage": "No se pudo actualizar el estado de sincronización en el almacenamiento local.",
+  "sync.conflict.badge": "Conflicto",
+  "sync.conflict.badgeTitle": "Modificado en dos dispositivos a la vez",
+  "sync.conflict.title": "Este registro se modificó en dos dispositivos a la vez. Se conservó el último cambio; la versión reemplazada ({date}) tenía estos valores:",
+  "sync.conflict.noDifferences": "La versión reemplazada es igual a la actual.",
+  "sync.conflict.resolve": "Marcar como revisado",
+  "sync.conflict.resolveFailed": "No se pudo marcar el conflicto como revisado.",
+
+  // --- Gemini proxy ---
+  "proxy.unauthorized": "El servidor rechazó la clave de acceso. Revísela en Configuración.",
+  "proxy.rateLimited": "Demasiadas consultas a Gemini. Intente de nuevo en {seconds} s.",
+  "proxy.status": "El proxy de Gemini respondió con HTTP {status}.",
+};
+
+export type MessageKey = keyof typeof esCO;
+
+export default esCO;
@@ -0,0 +1,576 @@
+import type { MessageKey } from "./es-CO";
+
+const ptBR: Record<MessageKey, string> = {
+  // --- Common ---
+  "common.loading": "Carregando...",
+  "common.unknownError": "Ocorreu um erro desconhecido.",
+  "common.client": "Cliente",
+  "common.noClient": "Sem cliente",
+  "common.remove": "Remover",
+  "common.cancel": "Cancelar",
+  "common.save": "Salvar",
+  "common.edit": "Editar",
+  "common.delete": "Excluir",
+  "common.close": "Fechar",
+  "common.date": "Data",
+  "common.reference": "Referência",
+  "common.referenceShort": "Ref. {reference}",
+  "common.receipts": "Comprovantes",
+  "common.manual": "Manual",
+  "common.viewRecord": "Ver registro",
+  "common.backToCalculator": "← Voltar à Calculadora",
+  "common.language": "Idioma",
+
+  // --- Navigation ---
+  "nav.history": "Ver Histórico",
+  "nav.dashboard": "Resumo",
+  "nav.rates": "Cotações",
+  "nav.clients": "Clientes",
+  "nav.settings": "Configurações",
+
+  // --- Receipts ---
+  "receipts.duplicateLine": "{name}: liquidação de {date} no valor de {amount}",
+  "receipts.readFailed": "Não foi possível ler o comprovante.",
+
+  // --- Calculator ---
+  "calculator.amountInput": "Valor de {label}",
+  "calculator.fileAlreadyAttached": "Você já anexou este arquivo: {files}",
+  "calculator.registerMissing": "Para registrar, verifique se o 'Líquido {currency}' é maior que zero e se um comprovante foi anexado.",
+  "calculator.confirmRateFirst": "Confirme a cotação ou informe uma cotação manual antes de registrar.",
+  "calculator.duplicateConfirmOne": "ATENÇÃO! Um comprovante já está registrado em outra liquidação:",
+  "calculator.duplicateConfirmMany": "ATENÇÃO! Vários comprovantes já estão registrados em outra liquidação:",
+  "calculator.duplicateConfirmQuestion": "Registrá-lo novamente pode causar um pagamento em dobro. Deseja registrar mesmo assim?",
+  "calculator.title": "LIQUIDAÇÃO",
+  "calculator.date": "Data da liquidação",
+  "calculator.operation": "Operação",
+  "calculator.receivedAmount": "Valor recebido {currency}",
+  "calculator.noActiveChannels": "Não há canais de pagamento ativos. Adicione-os em Configurações.",
+  "calculator.balance": "Saldo Movimento",
+  "calculator.ruleSet": "Regra de comissão",
+  "calculator.commission": "Comissão {percent}%",
+  "calculator.net": "Líquido",
+  "calculator.netFormula": "=Saldo Movimento - Comissão",
+  "calculator.amountUnreadable": "Valor ilegível",
+  "calculator.reading": "Lendo...",
+  "calculator.readData": "Ler dados",
+  "calculator.receiptsTotal": "Total dos comprovantes:",
+  "calculator.duplicateWarning": "Comprovante duplicado! Este arquivo já está anexado a outra liquidação; registrá-lo pode causar um pagamento em dobro.",
+  "calculator.mismatch": "O total digitado ({typed}) não confere com a soma dos comprovantes ({receipts}).",
+  "calculator.loadingRate": "Carregando Cotação...",
+  "calculator.register": "Registrar Liquidação",
+  "calculator.fetchingRate": "Obtendo cotação {market}...",
+  "calculator.rate": "Cotação:",
+  "calculator.fetchedAt": "Obtida em {date}",
+  "calculator.staleTitle": "Sem conexão. A cotação será atualizada quando a conexão voltar.",
+  "calculator.stale": "Cotação desatualizada · {date}",
+  "calculator.sourceLink": "Ver a fonte da cotação no Google Finance",
+  "calculator.source": "Fonte",
+  "calculator.noLoggedRates": "Não há cotações registradas no histórico; para {date} é usada a cotação atual.",
+  "calculator.usingLiveRate": "É usada a cotação atual para uma liquidação de {date}.",
+  "calculator.useLoggedRate": "Usar a cotação registrada ({rate})",
+  "calculator.proposedExact": "É proposta a cotação registrada em {date} ({provider}, {time}).",
+  "calculator.proposedNearest": "Não há cotação registrada em {date}; é proposta a mais próxima, de {nearest} ({provider}).",
+  "calculator.useLiveRate": "Usar a cotação atual ({rate})",
+  "calculator.rateFailedValidation": "A cotação obtida não passou na validação:",
+  "calculator.manualRateFailedValidation": "A taxa manual não passou na validação:",
+  "calculator.confirmRate": "Confirmo que a cotação está correta",
+  "calculator.manualRate": "Cotação manual",
+  "calculator.total": "TOTAL {currency}",
+  "calculator.totalFormula": "=Líquido {operator} Cotação {base}-{quote}",
+
+  // --- Edit dialog ---
+  "edit.duplicateConfirm": "ATENÇÃO! O comprovante já está registrado em outra liquidação:",
+  "edit.duplicateConfirmQuestion": "Isso pode causar um pagamento em dobro. Deseja salvar mesmo assim?",
+  "edit.title": "Editar Registro",
+  "edit.rate": "Cotação {market}",
+  "edit.sourceTotal": "Valor {currency} (Total)",
+  "edit.noBreakdown": "Este registro não tem detalhamento por canal.",
+  "edit.addBreakdown": "Adicionar detalhamento",
+  "edit.commission": "Comissão ({rule}, {percent}%):",
+  "edit.net": "Líquido {currency}:",
+  "edit.total": "Total {currency}:",
+  "edit.duplicateWarning": "Comprovante duplicado! Este arquivo já está anexado a outra liquidação.",
+  "edit.reason": "Motivo da alteração (opcional)",
+  "edit.reasonPlaceholder": "Ex.: correção da cotação combinada",
+  "edit.reasonHint": "Fica registrado no histórico de alterações do registro.",
+  "edit.saveChanges": "Salvar Alterações",
+
+  // --- Record status ---
+  "status.pendiente": "Pendente",
+  "status.pagado": "Pago",
+  "status.conciliado": "Conciliado",
+  "status.anulado": "Anulado",
+  "status.invalidTransition": "Não é possível passar de \"{from}\" para \"{to}\".",
+  "status.paymentsMissing": "Registre pagamentos que cubram o total {currency} antes de marcar o registro como pago.",
+
+  // --- Audit trail ---
+  "audit.action.create": "Criação",
+  "audit.action.update": "Edição",
+  "audit.action.delete": "Exclusão",
+  "audit.action.restore": "Restauração",
+  "audit.field.fecha": "Data",
+  "audit.field.monedaOrigen": "Moeda de origem",
+  "audit.field.monedaDestino": "Moeda de destino",
+  "audit.field.direccionTasa": "Aplicação da cotação",
+  "audit.field.valorOrigen": "Valor de origem",
+  "audit.field.montosPorCanal": "Valores por canal",
+  "audit.field.comisionOrigen": "Comissão de origem",
+  "audit.field.liquidoOrigen": "Líquido de origem",
+  "audit.field.tasa": "Cotação",
+  "audit.field.totalDestino": "Total de destino",
+  "audit.field.comprobantes": "Comprovantes",
+  "audit.field.referencia": "Referência",
+  "audit.field.estado": "Status",
+  "audit.field.pagos": "Pagamentos",
+  "audit.field.tasaFuente": "Fonte da cotação",
+  "audit.field.tasaFecha": "Data da cotação",
+  "audit.field.tasaCotizada": "Cotação obtida",
+  "audit.field.reglaComision": "Regra de comissão",
+  "audit.field.porcentajeComision": "% comissão",
+  "audit.field.clienteId": "Cliente",
+  "audit.field.eliminadoEn": "Excluído em",
+  "audit.field.valorCop": "Valor COP",
+  "audit.field.comisionCop": "Comissão COP",
+  "audit.field.liquidoCop": "Líquido COP",
+  "audit.field.tasaBrlCop": "Cotação BRL/COP",
+  "audit.field.totalBrl": "Total BRL",
+  "audit.field.pagosBrl": "Pagamentos BRL",
+  "audit.title": "Histórico de alterações",
+  "audit.loading": "Carregando alterações...",
+  "audit.loadFailed": "Não foi possível carregar o histórico de alterações.",
+  "audit.empty": "Não há alterações registradas para esta liquidação.",
+  "audit.reason": "Motivo:",
+  "audit.field": "Campo",
+  "audit.before": "Antes",
+  "audit.after": "Depois",
+
+  // --- Attachments ---
+  "attachments.onlyImagesAndPdf": "Apenas imagens e arquivos PDF são aceitos.",
+  "attachments.dropHere": "Arraste os comprovantes aqui ou clique para escolhê-los",
+  "attachments.dropHint": "Imagens ou PDF, um ou vários arquivos",
+  "attachments.noFile": "Sem arquivo",
+  "attachments.amountPlaceholder": "Valor COP",
+  "attachments.amountOf": "Valor de {name}",
+  "attachments.position": "({index} de {count})",
+  "attachments.download": "Baixar",
+  "attachments.previous": "Anterior",
+  "attachments.next": "Próximo",
+  "attachments.noPreview": "Pré-visualização indisponível para este tipo de arquivo.",
+
+  // --- Payments ---
+  "payments.invalidAmount": "Informe a data e um valor {currency} maior que zero.",
+  "payments.exceedsBalance": "O pagamento supera o saldo pendente de {amount}. Deseja registrá-lo mesmo assim?",
+  "payments.confirmRemove": "Remover o pagamento de {date} no valor de {amount}?",
+  "payments.title": "Pagamentos {currency}",
+  "payments.settlementOf": "Liquidação de {date}",
+  "payments.status": "Status",
+  "payments.total": "Total",
+  "payments.paid": "Pago",
+  "payments.balance": "Saldo",
+  "payments.empty": "Ainda não há pagamentos registrados.",
+  "payments.amount": "Valor {currency}",
+  "payments.proof": "Comprovante",
+  "payments.add": "Registrar pagamento",
+  "payments.transferReference": "Referência PIX / transferência",
+  "payments.proofOptional": "Comprovante do pagamento (opcional)",
+  "payments.addButton": "Adicionar pagamento",
+
+  // --- Exports ---
+  "export.audit.at": "Data e hora",
+  "export.audit.record": "Registro",
+  "export.audit.action": "Ação",
+  "export.audit.field": "Campo",
+  "export.audit.before": "Antes",
+  "export.audit.after": "Depois",
+  "export.audit.reason": "Motivo",
+  "statement.title": "Extrato",
+  "statement.allClients": "Todos os clientes",
+  "statement.period": "Período: {start} a {end}",
+  "statement.generated": "Gerado: {date}",
+  "statement.total": "Total ({count})",
+  "statement.date": "Data",
+  "statement.pair": "Par",
+  "statement.amount": "Valor",
+  "statement.commission": "Comissão",
+  "statement.net": "Líquido",
+  "statement.rate": "Taxa",
+  "statement.receipt": "Comprovante",
+  "statement.popupBlocked": "O navegador bloqueou a janela do extrato. Permita pop-ups e tente novamente.",
+
+  // --- Exchange rates ---
+  "rates.error.noApiKey": "O servidor não tem a chave da API do Gemini configurada (GEMINI_API_KEY).",
+  "rates.error.unparsable": "Não foi possível ler uma taxa de câmbio válida na resposta da IA.",
+  "rates.error.endpointMarket": "O serviço de taxas não está configurado para {market}.",
+  "rates.error.endpointStatus": "O serviço de taxas respondeu com HTTP {status}.",
+  "rates.error.endpointPath": "Não há uma taxa numérica em \"{path}\" na resposta do serviço.",
+  "rates.error.noManualRate": "Ainda não foi informada uma taxa manual {market}.",
+  "rates.error.allFailed": "Não foi possível obter uma taxa {market} plausível de nenhuma fonte configurada.",
+
+  // --- Rate validation ---
+  "rateCheck.offline": "Sem conexão: usando a última taxa conhecida ({provider}, {date}).",
+  "rateCheck.outOfBand": "A taxa {market} {rate} está fora da faixa plausível ({min} - {max}).",
+  "rateCheck.deviation": "A taxa se desvia {deviation}% da última taxa registrada ({last}); o máximo é {max}%.",
+  "rateCheck.noSecondSource": "Não havia uma segunda fonte disponível para confirmar a taxa.",
+  "rateCheck.disagreement": "{provider} ({rate}) e {otherProvider} ({otherRate}) diferem {disagreement}%; a tolerância é {tolerance}%.",
+
+  // --- Receipt reader ---
+  "receiptReader.unparsable": "Não foi possível ler os dados do comprovante na resposta da IA.",
+  "receiptReader.failed": "Não foi possível ler o comprovante. Informe os dados manualmente.",
+
+  // --- Commission ---
+  "commission.formulaTiers": "Saldo Movimento * % por faixa",
+  "commission.formulaPercent": "Saldo Movimento * {percent}%",
+  "commission.channelRates": " (tarifas por canal)",
+  "commission.minimumFee": " (mín. ${amount})",
+
+  // --- Period summary ---
+  "period.weekOf": "Semana de {date}",
+
+  // --- Storage ---
+  "storage.loadHistory": "Não foi possível carregar o histórico salvo.",
+  "storage.saveRecord": "Não foi possível salvar o registro no armazenamento local.",
+  "storage.deleteRecord": "Não foi possível excluir o registro do armazenamento local.",
+  "storage.restoreRecord": "Não foi possível restaurar o registro.",
+  "storage.loadAudit": "Não foi possível carregar o histórico de alterações.",
+  "storage.loadClients": "Não foi possível carregar o diretório de clientes.",
+  "storage.saveClient": "Não foi possível salvar o cliente no armazenamento local.",
+  "storage.deleteClient": "Não foi possível excluir o cliente do armazenamento local.",
+  "storage.loadRates": "Não foi possível carregar o histórico de taxas.",
+  "storage.saveRate": "Não foi possível salvar a taxa no histórico de taxas.",
+  "storage.saveImported": "Não foi possível salvar os registros importados.",
+  "storage.readSnapshot": "Não foi possível ler os dados salvos.",
+  "storage.restoreBackup": "Não foi possível restaurar o backup no armazenamento local.",
+
+  // --- Backup ---
+  "backup.notBackup": "O arquivo não é um backup deste aplicativo.",
+  "backup.newerVersion": "O backup é de uma versão mais recente ({version}). Atualize o aplicativo antes de restaurá-lo.",
+  "backup.incomplete": "O backup está incompleto.",
+  "backup.invalidRecord": "O registro {id} do backup não é válido ou é de uma versão mais recente.",
+  "backup.noId": "sem id",
+  "backup.noManifest": "O backup não contém o manifesto.",
+  "backup.unreadable": "Não foi possível ler o arquivo de backup.",
+
+  // --- Zip ---
+  "zip.invalid": "O arquivo não é um ZIP válido.",
+  "zip.corruptDirectory": "O diretório do arquivo ZIP está danificado.",
+  "zip.unsupportedMethod": "Método de compressão ZIP não suportado ({method}) em {name}.",
+
+  // --- Import ---
+  "import.title": "Importar histórico",
+  "import.subtitle": "Arquivos CSV ou XLSX com as mesmas colunas da exportação.",
+  "import.file": "Arquivo",
+  "import.readFailed": "Não foi possível ler o arquivo.",
+  "import.rowCount": "{file}: {count} linhas",
+  "import.columns": "Colunas",
+  "import.skipColumn": "— Não importar —",
+  "import.columnN": "Coluna {n}",
+  "import.channelSource": "{channel} (origem)",
+  "import.decimalSeparator": "Separador decimal",
+  "import.decimalComma": "Vírgula (1.234,56)",
+  "import.decimalPoint": "Ponto (1,234.56)",
+  "import.defaultPair": "Par para linhas sem coluna PAR",
+  "import.ruleSet": "Regra para linhas sem comissão",
+  "import.useRecomputed": "Usar valores recalculados se não coincidirem",
+  "import.includeDuplicates": "Importar também os duplicados",
+  "import.missingFields": "Atribua as colunas obrigatórias: {fields}.",
+  "import.preview": "Pré-visualização",
+  "import.counts": "{ok} válidas · {duplicate} duplicadas · {error} com erros · {mismatch} com diferenças nos valores calculados",
+  "import.col.line": "Linha",
+  "import.col.status": "Status",
+  "import.col.pair": "Par",
+  "import.col.amount": "Valor",
+  "import.col.commission": "Comissão",
+  "import.col.net": "Líquido",
+  "import.col.rate": "Taxa",
+  "import.col.total": "Total",
+  "import.col.notes": "Observações",
+  "import.status.ok": "Válido",
+  "import.status.duplicate": "Duplicado",
+  "import.status.error": "Erro",
+  "import.noReceipt": "Sem comprovante",
+  "import.submit": "Importar {count} registros",
+  "import.field.fecha": "Data",
+  "import.field.valorOrigen": "Valor origem",
+  "import.field.comisionOrigen": "Comissão origem",
+  "import.field.liquidoOrigen": "Líquido origem",
+  "import.field.tasa": "Taxa",
+  "import.field.totalDestino": "Total destino",
+  "import.field.comprobanteName": "Comprovante",
+  "import.field.cliente": "Cliente",
+  "import.field.par": "Par de moedas",
+  "import.field.estado": "Status",
+  "import.field.pagado": "Pago destino",
+  "import.error.noSheet": "O arquivo XLSX não contém nenhuma planilha legível.",
+  "import.error.unreadable": "Não foi possível ler o arquivo. Verifique se é um CSV ou XLSX válido.",
+  "import.error.date": "Data inválida: \"{value}\".",
+  "import.error.pair": "Par de moedas desconhecido: \"{value}\".",
+  "import.error.amount": "Valor inválido: \"{value}\".",
+  "import.error.rate": "Taxa inválida: \"{value}\".",
+  "import.error.commission": "Comissão inválida: \"{value}\".",
+  "import.error.status": "Status desconhecido: \"{value}\".",
+  "import.error.paid": "Valor pago inválido: \"{value}\".",
+  "import.warning.channelSum": "O detalhamento por canal não soma o Valor {currency}.",
+  "import.warning.ruleSet": "Comissão calculada com a regra \"{rule}\".",
+  "import.warning.net": "Líquido do arquivo ({file}) não coincide com o calculado ({computed}).",
+  "import.warning.total": "Total {currency} do arquivo ({file}) não coincide com o calculado ({computed}).",
+  "import.warning.client": "Cliente \"{client}\" não encontrado; importado sem cliente.",
+  "import.warning.status": "O status \"{file}\" não corresponde ao valor pago; é importado como \"{status}\".",
+
+  // --- History ---
+  "history.filter.startDate": "Data inicial",
+  "history.filter.endDate": "Data final",
+  "history.filter.allClients": "Todos os clientes",
+  "history.filter.status": "Status",
+  "history.filter.allStatuses": "Todos os status",
+  "history.filter.pair": "Par de moedas",
+  "history.filter.allPairs": "Todos os pares",
+  "history.filter.receipt": "Comprovante",
+  "history.filter.receiptPlaceholder": "Buscar por nome",
+  "history.filter.minAmount": "Valor recebido mínimo",
+  "history.filter.maxAmount": "Valor recebido máximo",
+  "history.filter.minRate": "Taxa mínima",
+  "history.filter.maxRate": "Taxa máxima",
+  "history.col.pair": "Par",
+  "history.col.amount": "Valor",
+  "history.col.amountIn": "Valor {currency}",
+  "history.col.commission": "Comissão",
+  "history.col.commissionIn": "Comissão {currency}",
+  "history.col.net": "Líquido",
+  "history.col.netIn": "Líquido {currency}",
+  "history.col.rate": "TAXA",
+  "history.col.rateIn": "TAXA {market}",
+  "history.col.total": "TOTAL",
+  "history.col.totalIn": "TOTAL {currency}",
+  "history.col.status": "Status",
+  "history.col.running": "Acumulado",
+  "history.col.receipt": "COMPROVANTE",
+  "history.col.actions": "Ações",
+  "history.col.records": "Registros",
+  "history.col.deletedAt": "Excluído",
+  "history.noRecordsToExport": "Não há registros para exportar com os filtros selecionados.",
+  "history.statementFailed": "Não foi possível abrir o extrato.",
+  "history.sheetRecords": "Liquidações",
+  "history.sheetAudit": "Auditoria",
+  "history.confirmDelete": "O registro será movido para a lixeira e poderá ser restaurado de lá.\n\nMotivo da exclusão (opcional):",
+  "history.title": "Histórico de Liquidações",
+  "history.import": "Importar",
+  "history.filters": "Filtros",
+  "history.clearFilters": "Limpar",
+  "history.export.format": "Formato",
+  "history.export.statement": "Imprimir extrato",
+  "history.export.delimiter": "Separador de colunas",
+  "history.export.semicolon": "Ponto e vírgula (;)",
+  "history.export.comma": "Vírgula (,)",
+  "history.export.tab": "Tabulação",
+  "history.export.decimalSeparator": "Separador decimal",
+  "history.export.decimalComma": "Vírgula (1234,56)",
+  "history.export.decimalPoint": "Ponto (1234.56)",
+  "history.export.includeAudit": "Incluir histórico de alterações",
+  "history.export.submit": "Exportar {count} registros",
+  "history.export.hint": "As exportações incluem apenas os registros que correspondem aos filtros.",
+  "history.statusTotals": "Totais por Status",
+  "history.outstanding": "Saldo a pagar:",
+  "history.filterByStatus": "Filtrar por este status",
+  "history.clientTotals": "Totais por Cliente",
+  "history.emptyAll": "Não há registros salvos. Volte à calculadora para registrar sua primeira liquidação.",
+  "history.emptyFiltered": "Nenhum registro corresponde aos filtros selecionados.",
+  "history.showBreakdown": "Ver detalhamento por canal",
+  "history.balanceDueTitle": "Saldo {currency} a pagar",
+  "history.balance": "Saldo {amount}",
+  "history.duplicateTitle": "O mesmo arquivo de comprovante está anexado a outro registro",
+  "history.duplicate": "Duplicado: {date} {client}",
+  "history.noReceipt": "Sem comprovante",
+  "history.view": "Ver",
+  "history.payments": "Pagamentos",
+  "history.changes": "Alterações",
+  "history.totalRow": "Total ({count} registros)",
+  "history.pagination": "Paginação",
+  "history.rowsPerPage": "Linhas por página",
+  "history.previousPage": "← Anterior",
+  "history.pageOf": "Página {page} de {count}",
+  "history.nextPage": "Próxima →",
+  "history.trash": "Lixeira ({count})",
+  "history.trashEmpty": "A lixeira está vazia.",
+  "history.restore": "Restaurar",
+
+  // --- Record detail ---
+  "record.backToHistory": "← Voltar ao Histórico",
+  "record.loading": "Carregando registro…",
+  "record.notFound": "O registro não foi encontrado. O link pode estar incorreto ou o registro pode pertencer a outro dispositivo.",
+  "record.amount": "Valor {currency}",
+  "record.commission": "Comissão ({rule}, {percent}%)",
+  "record.net": "Líquido {currency}",
+  "record.rate": "Taxa {market}",
+  "record.quoted": "Cotada: {rate}",
+  "record.total": "Total {currency}",
+  "record.paid": "Pago {currency}",
+  "record.balance": "Saldo {currency}",
+  "record.title": "Liquidação de {date}",
+  "record.trashed": "Este registro está na lixeira desde {date}. Restaure-o pelo histórico para editá-lo.",
+  "record.reference": "Referência:",
+  "record.noReceipts": "Este registro não tem comprovantes.",
+  "record.duplicates": "O mesmo arquivo de comprovante está anexado a outro registro:",
+  "record.payments": "Pagamentos {currency}",
+  "record.paymentAmount": "Valor",
+
+  // --- Dashboard ---
+  "dashboard.granularity.day": "Diário",
+  "dashboard.granularity.week": "Semanal",
+  "dashboard.granularity.month": "Mensal",
+  "dashboard.rateChartTooFew": "São necessárias pelo menos duas liquidações para o gráfico da taxa.",
+  "dashboard.rateOverTime": "Taxa {market} ao longo do tempo",
+  "dashboard.volumeChart": "Volume e comissão por período",
+  "dashboard.volumeTooltip": "{period}: {amount} (comissão {commission})",
+  "dashboard.received": "Valor recebido",
+  "dashboard.commission": "Comissão",
+  "dashboard.net": "Líquido",
+  "dashboard.total": "Total {currency}",
+  "dashboard.weightedAverage": "Taxa média ponderada",
+  "dashboard.title": "Resumo por Período",
+  "dashboard.pair": "Par de moedas",
+  "dashboard.volume": "Volume e comissão",
+  "dashboard.amountLegend": "Valor {currency}",
+  "dashboard.commissionLegend": "Comissão {currency}",
+  "dashboard.periodTotals": "Totais por período",
+  "dashboard.col.period": "Período",
+  "dashboard.col.averageRate": "Taxa média",
+  "dashboard.col.weightedRate": "Taxa ponderada",
+
+  // --- Rate history ---
+  "rateHistory.title": "Histórico de Taxas",
+  "rateHistory.market": "Mercado",
+  "rateHistory.from": "De",
+  "rateHistory.to": "Até",
+  "rateHistory.source": "Fonte",
+  "rateHistory.allSources": "Todas",
+  "rateHistory.quotes": "Cotações",
+  "rateHistory.min": "Mínima",
+  "rateHistory.max": "Máxima",
+  "rateHistory.average": "Média",
+  "rateHistory.col.rate": "Taxa {market}",
+  "rateHistory.col.change": "Variação",
+  "rateHistory.loading": "Carregando taxas...",
+  "rateHistory.empty": "Ainda não há taxas registradas. Cada taxa obtida na calculadora é salva aqui.",
+  "rateHistory.emptyFiltered": "Nenhuma taxa corresponde aos filtros.",
+
+  // --- Settings ---
+  "settings.name": "Nome",
+  "settings.default": "Padrão",
+  "settings.makeDefault": "Usar como padrão",
+  "settings.basePercent": "Porcentagem base (%)",
+  "settings.fixedFee": "Tarifa fixa (COP)",
+  "settings.minimumFee": "Comissão mínima (COP)",
+  "settings.tiers": "Faixas por valor",
+  "settings.tiersHint": "Deixe \"Até\" em branco na última faixa. Sem faixas, usa-se a porcentagem base.",
+  "settings.upTo": "Até (COP)",
+  "settings.percent": "Porcentagem (%)",
+  "settings.addTier": "+ Adicionar faixa",
+  "settings.channelPercents": "Porcentagem por canal",
+  "settings.channelPercentsHint": "Deixe em branco para usar a comissão do próprio canal, ou a porcentagem base ou a da faixa.",
+  "settings.channelPercent": "{channel} (%)",
+  "settings.archivedHint": "Os canais arquivados não aparecem na calculadora, mas os registros que os usam os mantêm.",
+  "settings.moveUp": "Subir {channel}",
+  "settings.moveDown": "Descer {channel}",
+  "settings.channelCommission": "Comissão (%)",
+  "settings.restoreChannel": "Restaurar",
+  "settings.archiveChannel": "Arquivar",
+  "settings.newChannel": "Novo canal",
+  "settings.addChannel": "+ Adicionar canal",
+  "settings.newRule": "Nova regra",
+  "settings.confirmDeleteRule": "Excluir esta regra de comissão? Os registros existentes mantêm a regra com que foram calculados.",
+  "settings.ruleNameRequired": "Cada regra de comissão deve ter um nome.",
+  "settings.channelNameRequired": "Cada canal de pagamento deve ter um nome.",
+  "settings.saved": "Configurações salvas.",
+  "settings.backupCreated": "Backup gerado: {records} registros, {attachments} comprovantes, {clients} clientes, {rates} taxas e {auditEntries} alterações auditadas.",
+  "settings.backupFailed": "Não foi possível gerar o backup.",
+  "settings.confirmReplace": "Os registros atuais serão substituídos pelos do backup e os que não estiverem nele irão para a lixeira. Os clientes atuais serão excluídos. O histórico de alterações é mantido. Deseja continuar?",
+  "settings.restored": "Backup restaurado.",
+  "settings.restoredRecords": "Registros importados: {count}",
+  "settings.restoredSkipped": " ({count} já existiam)",
+  "settings.restoredTrashed": "Registros movidos para a lixeira: {count}",
+  "settings.restoredAttachments": "Comprovantes importados: {count}",
+  "settings.restoredClients": "Clientes importados: {count}",
+  "settings.restoredRates": "Taxas importadas: {count}",
+  "settings.restoredAudit": "Alterações auditadas importadas: {count}",
+  "settings.restoreFailed": "Não foi possível restaurar o backup.",
+  "settings.title": "Configurações",
+  "settings.channels": "Canais de Pagamento",
+  "settings.rules": "Regras de Comissão",
+  "settings.rateValidation": "Validação da cotação",
+  "settings.rateValidationHint": "Uma cotação {market} que não passe nestas verificações bloqueia o registro até ser confirmada ou substituída por uma taxa manual.",
+  "settings.minRate": "Taxa mínima {market}",
+  "settings.maxRate": "Taxa máxima {market}",
+  "settings.maxDeviation": "Variação máxima em relação à última taxa (%)",
+  "settings.requireAgreement": "Exigir que um segundo provedor confirme a taxa",
+  "settings.agreementTolerance": "Diferença máxima entre provedores (%)",
+  "settings.rateBandInvalid": "A taxa mínima deve ser maior que zero e menor que a máxima.",
+  "settings.ratePercentInvalid": "As porcentagens da validação da cotação devem ser maiores que zero.",
+  "settings.addRule": "+ Nova Regra",
+  "settings.backup": "Backup",
+  "settings.backupHint": "Um único arquivo ZIP com todos os registros, clientes e comprovantes. Guarde-o fora do telefone para não perder dados.",
+  "settings.serverAccess": "Acesso ao servidor",
+  "settings.serverAccessHint": "A chave configurada como SYNC_TOKEN no servidor; sem ela não há sincronização nem consultas ao Gemini. Fica salva só neste dispositivo.",
+  "settings.serverToken": "Chave de acesso",
+  "settings.saveServerToken": "Salvar chave",
+  "settings.serverTokenSaved": "Chave de acesso salva.",
+  "settings.exportBackup": "Exportar backup",
+  "settings.restoreMode": "Ao restaurar",
+  "settings.restoreMerge": "Combinar (ignorar registros existentes)",
+  "settings.restoreReplace": "Substituir todos os dados",
+  "settings.restoreBackup": "Restaurar backup",
+
+  // --- Clients ---
+  "clients.nameRequired": "O nome do cliente é obrigatório.",
+  "clients.name": "Nome",
+  "clients.document": "Documento de identidade",
+  "clients.pixKey": "Chave PIX",
+  "clients.defaultRule": "Comissão padrão",
+  "clients.activeRule": "Regra padrão",
+  "clients.bank": "Banco (Brasil)",
+  "clients.branch": "Agência",
+  "clients.account": "Conta",
+  "clients.save": "Salvar Cliente",
+  "clients.confirmDelete": "Tem certeza de que deseja excluir {name}?",
+  "clients.add": "+ Novo Cliente",
+  "clients.col.document": "Documento",
+  "clients.col.payout": "PIX / Banco",
+  "clients.col.settlements": "Liquidações",
+  "clients.empty": "Não há clientes cadastrados.",
+
+  // --- App ---
+  "app.loadHistoryFailed": "Não foi possível carregar o histórico salvo.",
+  "app.registerFailed": "Não foi possível registrar a liquidação.",
+  "app.registered": "Liquidação registrada com sucesso.",
+  "app.deleteFailed": "Não foi possível excluir o registro.",
+  "app.updateFailed": "Não foi possível atualizar o registro.",
+  "app.importFailed": "Não foi possível importar os registros.",
+  "app.imported": "{count} registros importados com sucesso.",
+  "app.saveClientFailed": "Não foi possível salvar o cliente.",
+  "app.clientHasRecords": "Não é possível excluir um cliente com liquidações registradas.",
+  "app.deleteClientFailed": "Não foi possível excluir o cliente.",
+
+  // --- Sync ---
+  "sync.status.idle": "Sincronizado",
+  "sync.status.syncing": "Sincronizando…",
+  "sync.status.offline": "Sem conexão",
+  "sync.status.error": "Erro de sincronização",
+  "sync.pending": "{count} alterações a enviar",
+  "sync.lastSynced": "Última sincronização: {time}",
+  "sync.error.http": "O servidor de sincronização respondeu com o código {status}.",
+  "sync.error.unreachable": "Não foi possível contatar o servidor de sincronização.",
+  "sync.error.unauthorized": "O servidor recusou a chave de acesso. Confira-a em Configurações.",
+  "sync.storage": "Não foi possível atualizar o estado de sincronização no armazenamento local.",
+  "sync.conflict.badge": "Conflito",
+  "sync.conflict.badgeTitle": "Alterado em dois dispositivos ao mesmo tempo",
+  "sync.conflict.title": "Este registro foi alterado em dois dispositivos ao mesmo tempo. A última alteração foi mantida; a versão substituída ({date}) tinha estes valores:",
+  "sync.conflict.noDifferences": "A versão substituída é igual à atual.",
+  "sync.conflict.resolve": "Marcar como revisado",
+  "sync.conflict.resolveFailed": "Não foi possível marcar o conflito como revisado.",
+
+  // --- Gemini proxy ---
+  "proxy.unauthorized": "O servidor recusou a chave de acesso. Confira-a em Configurações.",
+  "proxy.rateLimited": "Muitas consultas ao Gemini. Tente novamente em {seconds} s.",
+  "proxy.status": "O proxy do Gemini respondeu com HTTP {status}.",
+};
+
+export default ptBR;
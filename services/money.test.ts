@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { divRound, divideByRate, multiplyByRate, parseScaled, percentOf, roundToCurrency, toCents, unscalePercent } from "./money";
+
+describe("divRound", () => {
+  it("rounds half away from zero", () => {
+    expect(divRound(5n, 2n)).toBe(3n);
+    expect(divRound(-5n, 2n)).toBe(-3n);
+    expect(divRound(5n, -2n)).toBe(-3n);
+    expect(divRound(-5n, -2n)).toBe(3n);
+  });
+
+  it("rounds below half toward zero", () => {
+    expect(divRound(14n, 10n)).toBe(1n);
+    expect(divRound(-14n, 10n)).toBe(-1n);
+    expect(divRound(16n, 10n)).toBe(2n);
+    expect(divRound(-16n, 10n)).toBe(-2n);
+  });
+
+  it("rejects division by zero", () => {
+    expect(() => divRound(1n, 0n)).toThrow();
+  });
+});
+
+describe("parseScaled", () => {
+  it("scales strings and numbers", () => {
+    expect(parseScaled("12.34", 2)).toBe(1234n);
+    expect(parseScaled(12.34, 2)).toBe(1234n);
+    expect(parseScaled("7", 4)).toBe(70000n);
+    expect(parseScaled(".5", 2)).toBe(50n);
+    expect(parseScaled("", 2)).toBe(0n);
+  });
+
+  it("rounds the first dropped digit half away from zero", () => {
+    expect(parseScaled("0.125", 2)).toBe(13n);
+    expect(parseScaled("0.124", 2)).toBe(12n);
+    expect(parseScaled("-0.125", 2)).toBe(-13n);
+    expect(parseScaled("-0.124", 2)).toBe(-12n);
+  });
+
+  it("reads numbers written in exponent notation", () => {
+    expect(parseScaled(1e-7, 6)).toBe(0n);
+    expect(parseScaled(2.5e-6, 6)).toBe(3n);
+  });
+
+  it("rejects what is not a plain decimal", () => {
+    expect(() => parseScaled("1,5", 2)).toThrow();
+    expect(() => parseScaled("abc", 2)).toThrow();
+    expect(() => parseScaled(NaN, 2)).toThrow();
+    expect(() => parseScaled(Infinity, 2)).toThrow();
+  });
+});
+
+describe("per-currency rounding", () => {
+  it("rounds COP to whole pesos", () => {
+    expect(roundToCurrency(toCents("1234.49"), "COP")).toBe(123400n);
+    expect(roundToCurrency(toCents("1234.50"), "COP")).toBe(123500n);
+    expect(roundToCurrency(toCents("-1234.50"), "COP")).toBe(-123500n);
+  });
+
+  it("keeps cents for BRL, USD and USDT", () => {
+    for (const currency of ["BRL", "USD", "USDT"] as const) {
+      expect(roundToCurrency(toCents("12.34"), currency)).toBe(1234n);
+    }
+  });
+
+  it("rounds a percentage once to the currency", () => {
+    // 10.5% of 4.76 COP is 0.4998, which is 0 pesos and not 0.50 → 1
+    expect(unscalePercent(toCents("4.76") * parseScaled(10.5, 4), "COP")).toBe(0n);
+    expect(percentOf(toCents("100.05"), 10)).toBe(1001n);
+  });
+
+  it("rounds rate conversions once to the target currency", () => {
+    // 10.00 BRL at 749.9495 is exactly 7,499.495 COP
+    expect(multiplyByRate(toCents("10"), 749.9495, "COP")).toBe(749900n);
+    // 1,000,000 COP at 4,123.45 COP per USD is 242.5153... USD
+    expect(divideByRate(toCents("1000000"), 4123.45, "USD")).toBe(24252n);
+    // 1,000,000 COP at 0.000243 USD per COP, quoted the other way round
+    expect(multiplyByRate(toCents("1000000"), 0.000243, "USD")).toBe(24300n);
+  });
+
+  it("converts to zero at a non-positive rate", () => {
+    expect(divideByRate(toCents("100"), 0, "BRL")).toBe(0n);
+    expect(multiplyByRate(toCents("100"), -1, "COP")).toBe(0n);
+  });
+});
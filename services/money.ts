@@ -0,0 +1,117 @@
+// Money is handled as integer cents (bigint) so sums, percentages and rate
+// conversions never accumulate floating-point drift. Numbers only appear at the
+// edges: parsing user input and storing/displaying results.
+
+export type Currency = "COP" | "BRL" | "USD" | "USDT";
+
+// Decimal places each currency is rounded to when a computed amount is final.
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  COP: 0,
+  BRL: 2,
+  USD: 2,
+  USDT: 2,
+};
+
+const CENT_DIGITS = 2;
+const PERCENT_DIGITS = 4;
+// Rates are kept to this many decimals, enough for COP/USD at ~0.000243
+export const RATE_DIGITS = 6;
+
+const pow10 = (digits: number): bigint => 10n ** BigInt(digits);
+
+// Integer division rounding half away from zero.
+export function divRound(numerator: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) {
+    throw new Error("Division by zero.");
+  }
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (n * 2n + d) / (d * 2n);
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Parses a decimal string or number into an integer scaled by 10^digits,
+ * rounding half away from zero on the first dropped digit.
+ */
+export function parseScaled(value: string | number, digits: number): bigint {
+  let text = typeof value === "number" ? String(value) : value.trim();
+  if (typeof value === "number") {
+    if (!isFinite(value)) {
+      throw new Error(`Invalid amount: ${value}`);
+    }
+    if (/e/i.test(text)) {
+      text = value.toFixed(digits + 1);
+    }
+  }
+  if (text === "" || text === ".") {
+    return 0n;
+  }
+
+  const match = text.match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const [, sign, whole = "", fraction = ""] = match;
+  const kept = fraction.padEnd(digits, "0").slice(0, digits);
+  let scaled = BigInt(whole || "0") * pow10(digits) + BigInt(kept || "0");
+  if ((fraction[digits] ?? "0") >= "5") {
+    scaled += 1n;
+  }
+  return sign ? -scaled : scaled;
+}
+
+export function toCents(value: string | number): bigint {
+  return parseScaled(value, CENT_DIGITS);
+}
+
+export function fromCents(cents: bigint): number {
+  return Number(cents) / 100;
+}
+
+// Cents in the smallest amount the currency is settled in (100 for whole pesos).
+const currencyUnit = (currency: Currency): bigint => pow10(CENT_DIGITS - CURRENCY_DECIMALS[currency]);
+
+// Rounds cents to the precision the currency is settled in (e.g. whole pesos for COP).
+export function roundToCurrency(cents: bigint, currency: Currency): bigint {
+  const unit = currencyUnit(currency);
+  return divRound(cents, unit) * unit;
+}
+
+// Exact `cents * percent / 100`, scaled so callers can sum before rounding once.
+export function percentOfScaled(cents: bigint, percent: number): bigint {
+  return cents * parseScaled(percent, PERCENT_DIGITS);
+}
+
+// Back to cents, rounded once to what `currency` is settled in (plain cents when omitted).
+export function unscalePercent(scaled: bigint, currency?: Currency): bigint {
+  const unit = currency ? currencyUnit(currency) : 1n;
+  return divRound(scaled, 100n * pow10(PERCENT_DIGITS) * unit) * unit;
+}
+
+export function percentOf(cents: bigint, percent: number): bigint {
+  return unscalePercent(percentOfScaled(cents, percent));
+}
+
+// Converts an amount in the quote currency to the base currency: `cents / rate`,
+// rounded once to what `currency` is settled in.
+export function divideByRate(cents: bigint, rate: number, currency: Currency): bigint {
+  const scaledRate = parseScaled(rate, RATE_DIGITS);
+  if (scaledRate <= 0n) {
+    return 0n;
+  }
+  const unit = currencyUnit(currency);
+  return divRound(cents * pow10(RATE_DIGITS), scaledRate * unit) * unit;
+}
+
+// Converts an amount in the base currency to the quote currency: `cents * rate`,
+// rounded once to what `currency` is settled in.
+export function multiplyByRate(cents: bigint, rate: number, currency: Currency): bigint {
+  const scaledRate = parseScaled(rate, RATE_DIGITS);
+  if (scaledRate <= 0n) {
+    return 0n;
+  }
+  const unit = currencyUnit(currency);
+  return divRound(cents * scaledRate, pow10(RATE_DIGITS) * unit) * unit;
+}
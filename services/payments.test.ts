@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { LiquidationRecord, Payment } from "../App";
+import { outstandingBalance, statusAfterPayments, statusChangeError } from "./payments";
+
+const payment = (monto: number): Payment => ({ id: String(monto), fecha: "2024-03-02", monto });
+
+const record = (estado: LiquidationRecord["estado"], totalDestino: number, pagos: Payment[]) =>
+  ({ estado, totalDestino, pagos, monedaDestino: "BRL" }) as LiquidationRecord;
+
+describe("outstandingBalance", () => {
+  it("sums payments exactly and never goes negative", () => {
+    expect(outstandingBalance(record("pendiente", 0.3, [payment(0.1), payment(0.1)]))).toBe(0.1);
+    expect(outstandingBalance(record("pendiente", 100, [payment(150)]))).toBe(0);
+    expect(outstandingBalance(record("anulado", 100, []))).toBe(0);
+  });
+});
+
+describe("statusAfterPayments", () => {
+  it("marks a covered pending record as paid", () => {
+    expect(statusAfterPayments(record("pendiente", 100, [payment(60), payment(40)]))).toBe("pagado");
+    expect(statusAfterPayments(record("pendiente", 100, [payment(60)]))).toBe("pendiente");
+  });
+
+  it("sends paid and reconciled records back to pending once the payments fall short", () => {
+    // e.g. the amount or rate was edited up after the record was settled
+    expect(statusAfterPayments(record("pagado", 120, [payment(100)]))).toBe("pendiente");
+    expect(statusAfterPayments(record("conciliado", 120, [payment(100)]))).toBe("pendiente");
+    expect(statusAfterPayments(record("conciliado", 100, [payment(100)]))).toBe("conciliado");
+  });
+
+  it("leaves cancelled records alone", () => {
+    expect(statusAfterPayments(record("anulado", 100, [payment(100)]))).toBe("anulado");
+  });
+});
+
+describe("statusChangeError", () => {
+  it("only lets a record be paid once its payments cover the total", () => {
+    expect(statusChangeError(record("pendiente", 100, [payment(50)]), "pagado")).not.toBeNull();
+    expect(statusChangeError(record("pendiente", 100, [payment(100)]), "pagado")).toBeNull();
+    expect(statusChangeError(record("pendiente", 100, []), "conciliado")).not.toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { LiquidationRecord, RecordStatus } from "../App";
+import { t } from "./i18n";
+import { fromCents, toCents } from "./money";
+
+// --- Status lifecycle ---
+// pendiente → pagado → conciliado; anulado cancels a record that will not be paid.
+
+export const RECORD_STATUSES: RecordStatus[] = ["pendiente", "pagado", "conciliado", "anulado"];
+
+export function statusLabel(status: RecordStatus): string {
+  return t(`status.${status}`);
+}
+
+// Statuses the operator can move a record to from each status. Going back one
+// step is allowed to correct mistakes; a cancelled record can only be reopened.
+const STATUS_TRANSITIONS: Record<RecordStatus, RecordStatus[]> = {
+  pendiente: ["pagado", "anulado"],
+  pagado: ["pendiente", "conciliado", "anulado"],
+  conciliado: ["pagado"],
+  anulado: ["pendiente"],
+};
+
+export function allowedStatuses(current: RecordStatus): RecordStatus[] {
+  return [current, ...STATUS_TRANSITIONS[current]];
+}
+
+// --- Balances ---
+
+/** Target currency paid so far, summed exactly in cents. */
+export function paidTotal(record: LiquidationRecord): number {
+  return fromCents(record.pagos.reduce<bigint>((sum, payment) => sum + toCents(payment.monto), 0n));
+}
+
+/** Target currency still owed to the client; a cancelled record owes nothing. Never negative. */
+export function outstandingBalance(record: LiquidationRecord): number {
+  if (record.estado === "anulado") return 0;
+  const balance = toCents(record.totalDestino) - toCents(paidTotal(record));
+  return balance > 0n ? fromCents(balance) : 0;
+}
+
+/**
+ * Why the record cannot move to `next`, or null when it can. A record only
+ * counts as paid once its payments cover the target total.
+ */
+export function statusChangeError(record: LiquidationRecord, next: RecordStatus): string | null {
+  if (next === record.estado) return null;
+  if (!STATUS_TRANSITIONS[record.estado].includes(next)) {
+    return t("status.invalidTransition", { from: statusLabel(record.estado), to: statusLabel(next) });
+  }
+  if ((next === "pagado" || next === "conciliado") && outstandingBalance(record) > 0) {
+    return t("status.paymentsMissing", { currency: record.monedaDestino });
+  }
+  return null;
+}
+
+/**
+ * Status after the payments or the target total changed: a pending record
+ * becomes paid once fully covered, and a paid or reconciled record goes back
+ * to pending when it no longer is (a payment removed, or the amount or rate
+ * edited). Cancelled records are left to the operator.
+ */
+export function statusAfterPayments(record: LiquidationRecord): RecordStatus {
+  const settled = toCents(paidTotal(record)) >= toCents(record.totalDestino);
+  if (record.estado === "pendiente" && settled) return "pagado";
+  if ((record.estado === "pagado" || record.estado === "conciliado") && !settled) return "pendiente";
+  return record.estado;
+}
@@ -0,0 +1,91 @@
+import type { LiquidationRecord } from "../App";
+import { getLocale, t } from "./i18n";
+import { fromCents, toCents } from "./money";
+
+export type Granularity = "day" | "week" | "month";
+
+export interface PeriodSummary {
+  // Sortable key: the day ("2024-05-17"), the Monday of the week, or the month ("2024-05").
+  period: string;
+  count: number;
+  // Amounts only add up within one currency pair; callers group records by pair first.
+  valorOrigen: number;
+  comisionOrigen: number;
+  liquidoOrigen: number;
+  totalDestino: number;
+  averageRate: number;
+  // Rate weighted by the source amount each liquidation converted (líquido).
+  weightedRate: number;
+}
+
+// Record dates are plain "YYYY-MM-DD" strings; they are handled in UTC so the
+// browser's timezone can never move a record into a neighbouring period.
+function mondayOf(fecha: string): string {
+  const date = new Date(`${fecha}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return date.toISOString().slice(0, 10);
+}
+
+export function periodKey(fecha: string, granularity: Granularity): string {
+  switch (granularity) {
+    case "day":
+      return fecha;
+    case "week":
+      return mondayOf(fecha);
+    case "month":
+      return fecha.slice(0, 7);
+  }
+}
+
+function summarize(period: string, group: LiquidationRecord[]): PeriodSummary {
+  const sum = (field: "valorOrigen" | "comisionOrigen" | "liquidoOrigen" | "totalDestino") =>
+    group.reduce<bigint>((total, record) => total + toCents(record[field]), 0n);
+  const liquido = sum("liquidoOrigen");
+  const averageRate = group.reduce((total, record) => total + record.tasa, 0) / group.length;
+  const weightedSum = group.reduce((total, record) => total + record.tasa * record.liquidoOrigen, 0);
+  return {
+    period,
+    count: group.length,
+    valorOrigen: fromCents(sum("valorOrigen")),
+    comisionOrigen: fromCents(sum("comisionOrigen")),
+    liquidoOrigen: fromCents(liquido),
+    totalDestino: fromCents(sum("totalDestino")),
+    averageRate,
+    weightedRate: liquido > 0n ? weightedSum / fromCents(liquido) : averageRate,
+  };
+}
+
+// A voided liquidation was never settled, so it adds no volume nor commission
+const counted = (records: LiquidationRecord[]) => records.filter(record => record.estado !== "anulado");
+
+/**
+ * Per-period totals, oldest period first. Money sums are exact (integer cents).
+ * Voided records are left out.
+ */
+export function summarizeByPeriod(records: LiquidationRecord[], granularity: Granularity): PeriodSummary[] {
+  const groups = new Map<string, LiquidationRecord[]>();
+  for (const record of counted(records)) {
+    const key = periodKey(record.fecha, granularity);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, group]) => summarize(period, group));
+}
+
+// Totals across all the given records but the voided ones, or null when none is left.
+export function summarizeAll(records: LiquidationRecord[]): PeriodSummary | null {
+  const included = counted(records);
+  return included.length > 0 ? summarize("", included) : null;
+}
+
+export function formatPeriod(period: string, granularity: Granularity): string {
+  if (granularity === "month") {
+    const [year, month] = period.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(getLocale(), { month: "long", year: "numeric", timeZone: "UTC" });
+  }
+  const label = new Date(`${period}T00:00:00Z`).toLocaleDateString(getLocale(), { day: "2-digit", month: "short", year: "numeric", timeZone: "UTC" });
+  return granularity === "week" ? t("period.weekOf", { date: label }) : label;
+}
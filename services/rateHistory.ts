@@ -0,0 +1,77 @@
+import { DEFAULT_MARKET } from "./currencyPairs";
+import type { RateQuote } from "./exchangeRateService";
+import { saveRateLogEntries } from "./storageService";
+
+// One fetched exchange-rate quote as kept in the rate log.
+export interface RateLogEntry {
+  id: string;
+  // Absent on entries logged before other markets existed, which are all BRL/COP
+  market?: string;
+  rate: number;
+  provider: string;
+  fetchedAt: string;
+}
+
+export function rateLogMarket(entry: RateLogEntry): string {
+  return entry.market ?? DEFAULT_MARKET;
+}
+
+/**
+ * The entries a quote adds to the log: the quote itself and its cross-check.
+ * Stale quotes are old log entries reused offline, and "Manual" quotes only
+ * repeat the operator's stored fallback, so neither is logged again.
+ */
+export function toRateLogEntries(quote: RateQuote): RateLogEntry[] {
+  if (quote.stale) return [];
+  return [quote, ...(quote.crossCheck ? [quote.crossCheck] : [])]
+    .filter(q => q.provider !== "Manual")
+    .map(({ market, rate, provider, fetchedAt }) => ({ id: `${fetchedAt}-${market}-${provider}`, market, rate, provider, fetchedAt }));
+}
+
+/**
+ * Appends a fetched quote to the rate log and returns the new entries. A failure
+ * to log never blocks the calculator, so errors are only reported to the console.
+ */
+export async function logRateQuote(quote: RateQuote): Promise<RateLogEntry[]> {
+  const entries = toRateLogEntries(quote);
+  if (entries.length === 0) return [];
+  try {
+    await saveRateLogEntries(entries);
+    return entries;
+  } catch (error) {
+    console.error("Error logging exchange rate quote:", error);
+    return [];
+  }
+}
+
+// Calendar day of a quote in the same UTC-based "YYYY-MM-DD" form the date pickers use.
+export function rateLogDate(entry: RateLogEntry): string {
+  return entry.fetchedAt.slice(0, 10);
+}
+
+export interface DateRate {
+  entry: RateLogEntry;
+  // False when no quote was logged that day and the nearest one is proposed
+  exact: boolean;
+}
+
+/**
+ * The rate to propose for a liquidation dated `date`: the last quote of the
+ * market logged that day or, failing that, the quote closest in time to midday
+ * of that date.
+ */
+export function findRateForDate(allEntries: RateLogEntry[], date: string, market: string = DEFAULT_MARKET): DateRate | null {
+  const log = allEntries.filter(entry => rateLogMarket(entry) === market);
+  const sameDay = log.filter(entry => rateLogDate(entry) === date);
+  if (sameDay.length > 0) {
+    const latest = sameDay.reduce((a, b) => (b.fetchedAt > a.fetchedAt ? b : a));
+    return { entry: latest, exact: true };
+  }
+
+  const target = Date.parse(`${date}T12:00:00Z`);
+  if (isNaN(target) || log.length === 0) return null;
+  const nearest = log.reduce((a, b) =>
+    Math.abs(Date.parse(b.fetchedAt) - target) < Math.abs(Date.parse(a.fetchedAt) - target) ? b : a
+  );
+  return { entry: nearest, exact: false };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { RateQuote } from "./exchangeRateService";
+import { DEFAULT_RATE_VALIDATION_CONFIG, isRateInBand, validateManualRate, validateRateQuote } from "./rateValidation";
+
+const config = DEFAULT_RATE_VALIDATION_CONFIG;
+
+const quote = (rate: number, changes: Partial<RateQuote> = {}): RateQuote => ({
+  market: "BRL/COP",
+  rate,
+  provider: "Test",
+  fetchedAt: "2024-03-01T10:00:00.000Z",
+  ...changes,
+});
+
+describe("isRateInBand", () => {
+  it("includes both ends of the configured BRL/COP band", () => {
+    expect(isRateInBand(config.minRate, config)).toBe(true);
+    expect(isRateInBand(config.maxRate, config)).toBe(true);
+    expect(isRateInBand(config.minRate - 0.01, config)).toBe(false);
+    expect(isRateInBand(config.maxRate + 0.01, config)).toBe(false);
+  });
+
+  it("uses the fixed band of other markets", () => {
+    expect(isRateInBand(4000, config, "USD/COP")).toBe(true);
+    expect(isRateInBand(750, config, "USD/COP")).toBe(false);
+  });
+});
+
+describe("validateRateQuote", () => {
+  it("accepts a plausible quote close to the last accepted rate", () => {
+    expect(validateRateQuote(quote(750), 745, config)).toEqual([]);
+  });
+
+  it("rejects a quote outside the band", () => {
+    expect(validateRateQuote(quote(75), null, config)).toHaveLength(1);
+    expect(validateRateQuote(quote(7500), null, config)).toHaveLength(1);
+  });
+
+  it("rejects a jump above the maximum deviation, but not one at it", () => {
+    expect(validateRateQuote(quote(787.5), 750, config)).toEqual([]);
+    expect(validateRateQuote(quote(788), 750, config)).toHaveLength(1);
+    expect(validateRateQuote(quote(712), 750, config)).toHaveLength(1);
+  });
+
+  it("flags stale quotes", () => {
+    expect(validateRateQuote(quote(750, { stale: true }), 750, config)).toHaveLength(1);
+  });
+
+  it("requires a second source within the tolerance when agreement is on", () => {
+    const strict = { ...config, requireAgreement: true };
+    expect(validateRateQuote(quote(750), 750, strict)).toHaveLength(1);
+    expect(validateRateQuote(quote(750, { crossCheck: quote(755) }), 750, strict)).toEqual([]);
+    expect(validateRateQuote(quote(750, { crossCheck: quote(760) }), 750, strict)).toHaveLength(1);
+  });
+});
+
+describe("validateManualRate", () => {
+  it("applies the band and the deviation but never requires agreement", () => {
+    const strict = { ...config, requireAgreement: true };
+    expect(validateManualRate(750, "BRL/COP", 750, strict)).toEqual([]);
+    expect(validateManualRate(75025, "BRL/COP", 750, strict)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { DEFAULT_MARKET } from "./currencyPairs";
+import type { RateQuote } from "./exchangeRateService";
+import { formatDateTime, t } from "./i18n";
+
+export interface RateValidationConfig {
+  // Plausible BRL/COP band; quotes outside it are rejected outright. Other
+  // markets use the fixed bands in MARKET_RATE_BANDS.
+  minRate: number;
+  maxRate: number;
+  // Maximum allowed change, in percent, against the last accepted rate in history.
+  maxDeviationPercent: number;
+  // When true a second provider must confirm the quote within the tolerance.
+  requireAgreement: boolean;
+  agreementTolerancePercent: number;
+}
+
+export const DEFAULT_RATE_VALIDATION_CONFIG: RateValidationConfig = {
+  minRate: 400,
+  maxRate: 2000,
+  maxDeviationPercent: 5,
+  requireAgreement: false,
+  agreementTolerancePercent: 1,
+};
+
+const RATE_VALIDATION_STORAGE_KEY = "rateValidationConfig";
+
+export function loadRateValidationConfig(): RateValidationConfig {
+  try {
+    const stored = localStorage.getItem(RATE_VALIDATION_STORAGE_KEY);
+    return stored ? { ...DEFAULT_RATE_VALIDATION_CONFIG, ...JSON.parse(stored) } : DEFAULT_RATE_VALIDATION_CONFIG;
+  } catch (error) {
+    console.error("Error loading rate validation config:", error);
+    return DEFAULT_RATE_VALIDATION_CONFIG;
+  }
+}
+
+export function saveRateValidationConfig(config: RateValidationConfig): void {
+  localStorage.setItem(RATE_VALIDATION_STORAGE_KEY, JSON.stringify(config));
+}
+
+// COP per dollar has stayed well inside this band for decades; USDT tracks the dollar.
+const MARKET_RATE_BANDS: Record<string, { minRate: number; maxRate: number }> = {
+  "USD/COP": { minRate: 2000, maxRate: 8000 },
+  "USDT/COP": { minRate: 2000, maxRate: 8000 },
+};
+
+export function rateBand(config: RateValidationConfig, market: string = DEFAULT_MARKET): { minRate: number; maxRate: number } {
+  return market === DEFAULT_MARKET ? config : MARKET_RATE_BANDS[market] ?? config;
+}
+
+function percentDifference(a: number, b: number): number {
+  return (Math.abs(a - b) / b) * 100;
+}
+
+export function isRateInBand(rate: number, config: RateValidationConfig, market: string = DEFAULT_MARKET): boolean {
+  const { minRate, maxRate } = rateBand(config, market);
+  return rate >= minRate && rate <= maxRate;
+}
+
+/**
+ * Returns the reasons why a quote should not be used without the operator's
+ * confirmation. An empty list means the quote passed every check.
+ */
+export function validateRateQuote(
+  quote: RateQuote,
+  lastAcceptedRate: number | null,
+  config: RateValidationConfig,
+): string[] {
+  const reasons: string[] = [];
+
+  if (quote.stale) {
+    reasons.push(t("rateCheck.offline", { provider: quote.provider, date: formatDateTime(quote.fetchedAt) }));
+  }
+
+  if (!isRateInBand(quote.rate, config, quote.market)) {
+    const { minRate, maxRate } = rateBand(config, quote.market);
+    reasons.push(t("rateCheck.outOfBand", { market: quote.market, rate: quote.rate, min: minRate, max: maxRate }));
+  }
+
+  if (lastAcceptedRate && lastAcceptedRate > 0) {
+    const deviation = percentDifference(quote.rate, lastAcceptedRate);
+    if (deviation > config.maxDeviationPercent) {
+      reasons.push(t("rateCheck.deviation", { deviation: deviation.toFixed(1), last: lastAcceptedRate, max: config.maxDeviationPercent }));
+    }
+  }
+
+  if (config.requireAgreement) {
+    if (!quote.crossCheck) {
+      reasons.push(t("rateCheck.noSecondSource"));
+    } else {
+      const disagreement = percentDifference(quote.rate, quote.crossCheck.rate);
+      if (disagreement > config.agreementTolerancePercent) {
+        reasons.push(t("rateCheck.disagreement", {
+          provider: quote.provider,
+          rate: quote.rate,
+          otherProvider: quote.crossCheck.provider,
+          otherRate: quote.crossCheck.rate,
+          disagreement: disagreement.toFixed(1),
+          tolerance: config.agreementTolerancePercent,
+        }));
+      }
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * The band and deviation checks of validateRateQuote for a rate typed by the
+ * operator. A manual rate usually replaces a provider quote that looked wrong,
+ * so it is not required to agree with one.
+ */
+export function validateManualRate(
+  rate: number,
+  market: string,
+  lastAcceptedRate: number | null,
+  config: RateValidationConfig,
+): string[] {
+  const quote: RateQuote = { market, rate, provider: t("common.manual"), fetchedAt: new Date().toISOString() };
+  return validateRateQuote(quote, lastAcceptedRate, { ...config, requireAgreement: false });
+}
@@ -0,0 +1,82 @@
+import type { PaymentChannel } from "./channelService";
+import { postToGeminiProxy } from "./geminiProxy";
+import { t } from "./i18n";
+
+// What could be read from a comprobante; fields the reader is unsure about are null.
+export interface ReceiptData {
+  amount: number | null;
+  // "YYYY-MM-DD"
+  date: string | null;
+  // Channel name as printed on the receipt, e.g. "Nequi".
+  channel: string | null;
+  reference: string | null;
+  reader: string;
+}
+
+// A way to read receipts. Readers never persist anything; the operator reviews the result.
+export interface ReceiptReader {
+  name: string;
+  read(file: File): Promise<ReceiptData>;
+}
+
+// --- Gemini reader ---
+
+// Sends the file to Gemini through the server's proxy (see services/geminiProxy.ts)
+export function createGeminiReceiptReader(): ReceiptReader {
+  return {
+    name: "Gemini",
+    async read(file) {
+      const fields = await postToGeminiProxy<Omit<ReceiptData, "reader">>("receipt", file, file.type || "application/octet-stream");
+      if (typeof fields !== "object" || fields === null) {
+        throw new Error(t("receiptReader.unparsable"));
+      }
+      const { amount, date, channel, reference } = fields;
+      return { amount, date, channel, reference, reader: "Gemini" };
+    },
+  };
+}
+
+// --- Offline mock reader ---
+
+/**
+ * Reads the fields from the file name instead of the image, e.g.
+ * "nequi_150000_2024-05-17_REF123.jpg", so the flow can be tested offline.
+ */
+export function createMockReceiptReader(): ReceiptReader {
+  return {
+    name: "Simulado",
+    async read(file) {
+      const name = file.name.replace(/\.[^.]+$/, "");
+      const date = name.match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? null;
+      const withoutDate = date ? name.replace(date, "") : name;
+      const amount = withoutDate.match(/\d{3,}(?:[.,]\d{1,2})?/)?.[0];
+      return {
+        amount: amount ? parseFloat(amount.replace(",", ".")) : null,
+        date,
+        channel: name.match(/nequi|bancolombia|daviplata/i)?.[0] ?? null,
+        reference: name.match(/ref[-_]?([a-z0-9]+)/i)?.[1] ?? null,
+        reader: "Simulado",
+      };
+    },
+  };
+}
+
+export function getDefaultReceiptReader(): ReceiptReader {
+  return process.env.RECEIPT_READER === "mock" ? createMockReceiptReader() : createGeminiReceiptReader();
+}
+
+export async function readReceipt(file: File, reader: ReceiptReader = getDefaultReceiptReader()): Promise<ReceiptData> {
+  try {
+    return await reader.read(file);
+  } catch (error) {
+    console.error(`Error reading receipt with ${reader.name}:`, error);
+    throw new Error(t("receiptReader.failed"));
+  }
+}
+
+// Matches the channel printed on the receipt against the catalog by label.
+export function matchReceiptChannel(channels: PaymentChannel[], channel: string | null): PaymentChannel | undefined {
+  if (!channel) return undefined;
+  const normalized = channel.toLowerCase();
+  return channels.find(c => normalized.includes(c.label.toLowerCase()) || c.label.toLowerCase().includes(normalized));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SORT, EMPTY_FILTERS } from "./historyFilters";
+import { parseRoute, recordUrl, routeUrl } from "./router";
+
+describe("parseRoute", () => {
+  it("reads the simple pages and falls back to the calculator", () => {
+    expect(parseRoute("/ajustes", "")).toEqual({ page: "settings" });
+    expect(parseRoute("/panel/", "")).toEqual({ page: "dashboard" });
+    expect(parseRoute("/desconocida", "")).toEqual({ page: "calculator" });
+  });
+
+  it("reads the history filters and sort from the query string", () => {
+    const route = parseRoute("/historial", "?desde=2024-03-01&orden=totalDestino&dir=asc");
+    expect(route).toEqual({
+      page: "history",
+      filters: { ...EMPTY_FILTERS, startDate: "2024-03-01" },
+      sort: { key: "totalDestino", direction: "asc" },
+    });
+    expect(routeUrl(route)).toBe("/historial?desde=2024-03-01&orden=totalDestino&dir=asc");
+  });
+
+  it("decodes record ids and round-trips them through recordUrl", () => {
+    expect(parseRoute(recordUrl("a b/c", true), "")).toEqual({ page: "record", recordId: "a b/c", editing: true });
+  });
+
+  it("opens the history for a record link with malformed percent-encoding", () => {
+    expect(parseRoute("/historial/%E0", "")).toEqual({ page: "history", filters: EMPTY_FILTERS, sort: DEFAULT_SORT });
+    expect(parseRoute("/historial/%E0/editar", "")).toEqual({ page: "history", filters: EMPTY_FILTERS, sort: DEFAULT_SORT });
+  });
+});
@@ -0,0 +1,116 @@
+import { DEFAULT_SORT, EMPTY_FILTERS, SORT_KEYS, type HistoryFilters, type SortKey, type SortState } from "./historyFilters";
+
+// --- Routes ---
+// Every page has its own URL, so the browser's back/forward buttons, bookmarks
+// and shared links work. Navigation goes through the History API; the server
+// (and the service worker when offline) answers every path with index.html.
+
+export type Route =
+  | { page: "calculator" }
+  | { page: "history"; filters: HistoryFilters; sort: SortState }
+  | { page: "record"; recordId: string; editing: boolean }
+  | { page: "dashboard" }
+  | { page: "rates" }
+  | { page: "settings" }
+  | { page: "clients" };
+
+type SimplePage = Exclude<Route["page"], "history" | "record">;
+
+const PAGE_PATHS: Record<SimplePage, string> = {
+  calculator: "/",
+  dashboard: "/panel",
+  rates: "/tasas",
+  settings: "/ajustes",
+  clients: "/clientes",
+};
+
+const HISTORY_PATH = "/historial";
+
+// Query string keys of the history filters, e.g. /historial?desde=2024-03-01&hasta=2024-03-31
+const FILTER_PARAMS: Record<keyof HistoryFilters, string> = {
+  startDate: "desde",
+  endDate: "hasta",
+  minAmount: "valorMin",
+  maxAmount: "valorMax",
+  minRate: "tasaMin",
+  maxRate: "tasaMax",
+  clientId: "cliente",
+  receiptText: "comprobante",
+  status: "estado",
+  pair: "par",
+};
+
+function parseHistoryQuery(search: string): { filters: HistoryFilters; sort: SortState } {
+  const params = new URLSearchParams(search);
+  const filters = { ...EMPTY_FILTERS };
+  (Object.keys(FILTER_PARAMS) as (keyof HistoryFilters)[]).forEach(field => {
+    filters[field] = params.get(FILTER_PARAMS[field]) ?? "";
+  });
+  const key = params.get("orden");
+  const sort: SortState = SORT_KEYS.includes(key as SortKey)
+    ? { key: key as SortKey, direction: params.get("dir") === "asc" ? "asc" : "desc" }
+    : DEFAULT_SORT;
+  return { filters, sort };
+}
+
+/** The route a URL path and query string point to; unknown paths open the calculator. */
+export function parseRoute(pathname: string, search: string): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  if (path === HISTORY_PATH) {
+    return { page: "history", ...parseHistoryQuery(search) };
+  }
+  const recordMatch = path.match(/^\/historial\/([^/]+)(\/editar)?$/);
+  if (recordMatch) {
+    try {
+      return { page: "record", recordId: decodeURIComponent(recordMatch[1]), editing: Boolean(recordMatch[2]) };
+    } catch {
+      // A mangled link (malformed percent-encoding) names no record; show the whole history instead
+      return { page: "history", filters: { ...EMPTY_FILTERS }, sort: DEFAULT_SORT };
+    }
+  }
+  const page = (Object.keys(PAGE_PATHS) as SimplePage[]).find(p => PAGE_PATHS[p] === path);
+  return { page: page ?? "calculator" } as Route;
+}
+
+export function historyUrl(filters: HistoryFilters = EMPTY_FILTERS, sort: SortState = DEFAULT_SORT): string {
+  const params = new URLSearchParams();
+  (Object.keys(FILTER_PARAMS) as (keyof HistoryFilters)[]).forEach(field => {
+    if (filters[field]) params.set(FILTER_PARAMS[field], filters[field]);
+  });
+  if (sort.key !== DEFAULT_SORT.key || sort.direction !== DEFAULT_SORT.direction) {
+    params.set("orden", sort.key);
+    params.set("dir", sort.direction);
+  }
+  const query = params.toString();
+  return query ? `${HISTORY_PATH}?${query}` : HISTORY_PATH;
+}
+
+export function recordUrl(recordId: string, editing = false): string {
+  return `${HISTORY_PATH}/${encodeURIComponent(recordId)}${editing ? "/editar" : ""}`;
+}
+
+export function routeUrl(route: Route): string {
+  if (route.page === "history") return historyUrl(route.filters, route.sort);
+  if (route.page === "record") return recordUrl(route.recordId, route.editing);
+  return PAGE_PATHS[route.page];
+}
+
+export function currentRoute(): Route {
+  return parseRoute(window.location.pathname, window.location.search);
+}
+
+/**
+ * Moves to `url` without reloading. `replace` rewrites the current history entry
+ * instead of adding one, e.g. while typing in a filter. Listeners of "popstate"
+ * are notified the same way as for the browser's own back/forward.
+ */
+export function navigate(url: string, { replace = false }: { replace?: boolean } = {}): void {
+  if (url === window.location.pathname + window.location.search) return;
+  if (replace) {
+    window.history.replaceState(null, "", url);
+  } else {
+    window.history.pushState(null, "", url);
+    window.scrollTo(0, 0);
+  }
+  window.dispatchEvent(new PopStateEvent("popstate"));
+}
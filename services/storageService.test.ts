@@ -0,0 +1,145 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+// The fake database clones Node's own Blob, not the DOM environment's
+import { Blob } from "node:buffer";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The service caches its connection, so every test loads it afresh against an empty database
+async function loadStorage() {
+  vi.resetModules();
+  return import("./storageService");
+}
+
+// Creates the database at `version` with the given stores, as an older build left it
+function seedDatabase(version: number, stores: Record<string, { keyPath: string; rows: object[] }>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open("liquidacion-brl-cop", version);
+    request.onupgradeneeded = () => {
+      for (const [name, { keyPath, rows }] of Object.entries(stores)) {
+        const store = request.result.createObjectStore(name, { keyPath });
+        rows.forEach(row => store.put(row));
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A record as the first version of the app saved it: hard-coded 10% commission, one receipt
+const recordV1 = {
+  id: "r1",
+  fecha: "2024-03-01T10:00:00.000Z",
+  valorCop: 1_000_000,
+  comisionCop: 100_000,
+  liquidoCop: 900_000,
+  tasaBrlCop: 750,
+  totalBrl: 1200,
+  comprobanteName: "nequi.png",
+  createdAt: 1,
+};
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe("loadHistory migrations", () => {
+  it("upgrades a version 1 database and its records to the current shape", async () => {
+    await seedDatabase(1, {
+      records: { keyPath: "id", rows: [recordV1] },
+      receipts: { keyPath: "recordId", rows: [{ recordId: "r1", name: "nequi.png", blob: new Blob(["png"], { type: "image/png" }) }] },
+    });
+    const { loadHistory, RECORD_SCHEMA_VERSION } = await loadStorage();
+
+    const [record] = await loadHistory();
+
+    expect(record).toMatchObject({
+      id: "r1",
+      monedaOrigen: "COP",
+      monedaDestino: "BRL",
+      direccionTasa: "divide",
+      valorOrigen: 1_000_000,
+      comisionOrigen: 100_000,
+      liquidoOrigen: 900_000,
+      tasa: 750,
+      totalDestino: 1200,
+      montosPorCanal: {},
+      estado: "pendiente",
+      pagos: [],
+      porcentajeComision: 10,
+    });
+    expect(record.reglaComision.percent).toBe(10);
+    // The single receipt moved to the attachments store under the record's id
+    expect(record.comprobantes).toEqual([expect.objectContaining({ id: "r1", name: "nequi.png", type: "image/png", size: 3 })]);
+    expect(record).not.toHaveProperty("valorCop");
+    expect(record).not.toHaveProperty("comprobanteName");
+
+    const { readRecordForSync } = await import("./storageService");
+    const stored = await readRecordForSync("r1");
+    expect(stored?.record.schemaVersion).toBe(RECORD_SCHEMA_VERSION);
+    expect(stored?.files.map(file => file.id)).toEqual(["r1"]);
+  });
+
+  it("migrates each legacy record shape to the current one", async () => {
+    const base = { ...recordV1, comprobanteName: undefined };
+    const recordV3 = { ...base, id: "v3", schemaVersion: 3, reglaComision: { id: "x", name: "x", percent: 10, tiers: [], channelPercents: {}, fixedFee: 0, minimumFee: 0 }, porcentajeComision: 10, montosPorCanal: { nequi: 1_000_000 } };
+    const recordV5 = { ...recordV3, id: "v5", schemaVersion: 5, comprobantes: [], estado: "pagado", pagosBrl: [{ id: "p1", fecha: "2024-03-02", montoBrl: 1200 }] };
+    await seedDatabase(1, { records: { keyPath: "id", rows: [recordV3, recordV5] } });
+    const { loadHistory } = await loadStorage();
+
+    const records = await loadHistory();
+    const byId = new Map(records.map(record => [record.id, record]));
+
+    expect(byId.get("v3")).toMatchObject({ montosPorCanal: { nequi: 1_000_000 }, comprobantes: [], estado: "pendiente", pagos: [], totalDestino: 1200 });
+    expect(byId.get("v5")).toMatchObject({ estado: "pagado", pagos: [{ id: "p1", fecha: "2024-03-02", monto: 1200 }], tasa: 750 });
+  });
+
+  it("leaves records written by a newer build untouched", async () => {
+    const future = { ...recordV1, id: "future", schemaVersion: 99, campoNuevo: "x" };
+    await seedDatabase(1, { records: { keyPath: "id", rows: [future] } });
+    const { loadHistory, readRecordForSync } = await loadStorage();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(await loadHistory()).toEqual([]);
+    expect((await readRecordForSync("future"))?.record).toEqual(future);
+    warn.mockRestore();
+  });
+});
+
+describe("parseSyncedRecord", () => {
+  it("rejects data that is not a record with the id it was pulled under", async () => {
+    const { parseSyncedRecord } = await loadStorage();
+    expect(parseSyncedRecord("r1", { ...recordV1, id: "r2", schemaVersion: 1 })).toBeUndefined();
+    expect(parseSyncedRecord("r1", { id: "r1" })).toBeUndefined();
+    expect(parseSyncedRecord("r1", { id: "r1", schemaVersion: 6, createdAt: 1, comprobantes: "x", pagos: [] })).toBeUndefined();
+  });
+
+  it("upgrades records pushed by an older build and keeps those of a newer one", async () => {
+    const { parseSyncedRecord, RECORD_SCHEMA_VERSION } = await loadStorage();
+    expect(parseSyncedRecord("r1", { ...recordV1, schemaVersion: 1 })).toMatchObject({ schemaVersion: RECORD_SCHEMA_VERSION, monedaOrigen: "COP", pagos: [] });
+    const future = { id: "r1", schemaVersion: 99, createdAt: 1, comprobantes: [], pagos: [], campoNuevo: true };
+    expect(parseSyncedRecord("r1", future)).toEqual(future);
+  });
+});
+
+describe("restoreSnapshot", () => {
+  it("moves the records a replacing restore drops to the trash and queues them for sync", async () => {
+    await seedDatabase(1, {
+      records: { keyPath: "id", rows: [recordV1, { ...recordV1, id: "r2", createdAt: 2 }] },
+      receipts: { keyPath: "recordId", rows: [{ recordId: "r2", name: "nequi.png", blob: new Blob(["png"], { type: "image/png" }) }] },
+    });
+    const { loadHistory, readSnapshot, restoreSnapshot, loadOutbox, readRecordForSync } = await loadStorage();
+    await loadHistory();
+    const snapshot = await readSnapshot();
+
+    const report = await restoreSnapshot({ ...snapshot, records: snapshot.records.filter(record => record.id === "r1") }, "replace");
+
+    expect(report).toMatchObject({ recordsImported: 1, recordsTrashed: 1 });
+    const dropped = await readRecordForSync("r2");
+    expect(dropped?.record.eliminadoEn).toEqual(expect.any(String));
+    expect(dropped?.files.map(file => file.id)).toEqual(["r2"]);
+    expect((await loadOutbox()).map(entry => entry.recordId).sort()).toEqual(["r1", "r2"]);
+  });
+});
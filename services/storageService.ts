@@ -0,0 +1,786 @@
+import type { Attachment, Client, LiquidationRecord, Payment } from "../App";
+import { hashFile, recordAttachments } from "./attachments";
+import { createAuditEntry, diffRecords, type AuditEntry } from "./auditLog";
+import { LEGACY_RULE_SET } from "./commissionService";
+import { t } from "./i18n";
+import type { RateLogEntry } from "./rateHistory";
+import type { SyncConflict } from "./syncService";
+
+// IndexedDB layout. Bump DB_VERSION when object stores or indexes change.
+const DB_NAME = "liquidacion-brl-cop";
+const DB_VERSION = 6;
+const RECORDS_STORE = "records";
+// v1-v2 kept a single receipt per record, keyed by record id; replaced by ATTACHMENTS_STORE in v3
+const LEGACY_RECEIPTS_STORE = "receipts";
+const ATTACHMENTS_STORE = "attachments";
+const CLIENTS_STORE = "clients";
+const RATES_STORE = "rates";
+const AUDIT_STORE = "audit";
+const OUTBOX_STORE = "outbox";
+
+// Shape version of the persisted LiquidationRecord. Bump it and register a
+// migration below whenever LiquidationRecord changes in a non-additive way.
+export const RECORD_SCHEMA_VERSION = 6;
+
+// Attachment metadata lives on the record; the bytes live in ATTACHMENTS_STORE.
+type StoredAttachmentMeta = Omit<Attachment, "url">;
+
+type StoredPayment = Omit<Payment, "comprobante"> & { comprobante?: StoredAttachmentMeta };
+
+type PersistedFields = Omit<LiquidationRecord, "comprobantes" | "pagos"> & {
+  comprobantes: StoredAttachmentMeta[];
+  pagos: StoredPayment[];
+};
+
+export interface StoredRecord extends PersistedFields {
+  schemaVersion: number;
+  createdAt: number;
+  // Version on the sync server this copy is based on; absent until first synced
+  syncVersion?: number;
+}
+
+export interface StoredAttachment {
+  id: string;
+  recordId: string;
+  name: string;
+  blob: Blob;
+}
+
+// --- Legacy record shapes ---
+// What older versions of the app persisted, each described by its difference
+// from the next version.
+
+// v5: COP → BRL only, with the amounts named after the currencies
+type RecordV5 = Omit<StoredRecord, "monedaOrigen" | "monedaDestino" | "direccionTasa" | "valorOrigen" | "comisionOrigen" | "liquidoOrigen" | "tasa" | "totalDestino" | "pagos"> & {
+  valorCop: number;
+  comisionCop: number;
+  liquidoCop: number;
+  tasaBrlCop: number;
+  totalBrl: number;
+  pagosBrl: (Omit<StoredPayment, "monto"> & { montoBrl: number })[];
+};
+
+// v4: no status lifecycle nor payments
+type RecordV4 = Omit<RecordV5, "estado" | "pagosBrl">;
+
+// v3: a single receipt, stored under the record's id
+type RecordV3 = Omit<RecordV4, "comprobantes"> & { comprobanteName?: string };
+
+// v2: no per-channel amounts
+type RecordV2 = Omit<RecordV3, "montosPorCanal">;
+
+// v1: the 10% commission was hard-coded; records from then carry no schemaVersion
+type RecordV1 = Omit<RecordV2, "reglaComision" | "porcentajeComision" | "schemaVersion"> & { schemaVersion?: 1 };
+
+type LegacyRecord = RecordV1 | RecordV2 | RecordV3 | RecordV4 | RecordV5 | StoredRecord;
+
+// Each entry upgrades a stored record from version `key` to `key + 1`.
+interface RecordMigrations {
+  1: (record: RecordV1) => RecordV2;
+  2: (record: RecordV2) => RecordV3;
+  3: (record: RecordV3) => RecordV4;
+  4: (record: RecordV4) => RecordV5;
+  5: (record: RecordV5) => StoredRecord;
+}
+
+const recordMigrations: RecordMigrations = {
+  // v2: records carry the commission rule set they were computed with
+  1: record => ({
+    ...record,
+    schemaVersion: 2,
+    reglaComision: LEGACY_RULE_SET,
+    porcentajeComision: record.valorCop > 0 ? (record.comisionCop / record.valorCop) * 100 : LEGACY_RULE_SET.percent,
+  }),
+  // v3: per-channel amounts; the breakdown of older records is unknown
+  2: record => ({ ...record, montosPorCanal: {} }),
+  // v4: a list of attachments. The single receipt was moved to the attachments
+  // store under the record's id; type and size are read back from the file.
+  3: ({ comprobanteName, ...record }) => ({
+    ...record,
+    comprobantes: comprobanteName ? [{ id: record.id, name: comprobanteName, type: "", size: 0 }] : [],
+  }),
+  // v5: status lifecycle and BRL payments. No payment was tracked before, so
+  // older records start pending with their whole BRL total outstanding.
+  4: record => ({ ...record, estado: "pendiente", pagosBrl: [] }),
+  // v6: currency pairs. Every older record settled COP → BRL at a COP-per-BRL
+  // rate, so the amounts move to the generic fields unchanged.
+  5: ({ valorCop, comisionCop, liquidoCop, tasaBrlCop, totalBrl, pagosBrl, ...record }) => ({
+    ...record,
+    monedaOrigen: "COP",
+    monedaDestino: "BRL",
+    direccionTasa: "divide",
+    valorOrigen: valorCop,
+    comisionOrigen: comisionCop,
+    liquidoOrigen: liquidoCop,
+    tasa: tasaBrlCop,
+    totalDestino: totalBrl,
+    pagos: pagosBrl.map(({ montoBrl, ...payment }) => ({ ...payment, monto: montoBrl })),
+  }),
+};
+
+function migrateRecord(stored: LegacyRecord): StoredRecord {
+  let current = stored;
+  let version: number = current.schemaVersion ?? 1;
+  if (version > RECORD_SCHEMA_VERSION) {
+    throw new Error(`Record schema version ${version} is newer than this build supports (${RECORD_SCHEMA_VERSION}).`);
+  }
+  while (version < RECORD_SCHEMA_VERSION) {
+    // `version` says which legacy shape `current` has, which the types cannot follow
+    const migrate = recordMigrations[version as keyof RecordMigrations] as ((record: LegacyRecord) => LegacyRecord) | undefined;
+    if (!migrate) {
+      throw new Error(`No migration registered for record schema version ${version}.`);
+    }
+    current = migrate(current);
+    version += 1;
+  }
+  return { ...(current as StoredRecord), schemaVersion: RECORD_SCHEMA_VERSION };
+}
+
+/**
+ * Reads a record pulled from the sync server, where any device and any build
+ * may have pushed it, and upgrades older shapes. Undefined when `data` is not
+ * a record with that id. Records of a newer build come back as they are.
+ */
+export function parseSyncedRecord(id: string, data: Record<string, unknown>): StoredRecord | undefined {
+  if (data.id !== id || typeof data.schemaVersion !== "number" || typeof data.createdAt !== "number") {
+    return undefined;
+  }
+  // The schema version says which shape the rest has
+  const stored = data as LegacyRecord;
+  const record = data.schemaVersion < RECORD_SCHEMA_VERSION ? migrateRecord(stored) : (stored as StoredRecord);
+  return Array.isArray(record.comprobantes) && Array.isArray(record.pagos) ? record : undefined;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+          db.createObjectStore(RECORDS_STORE, { keyPath: "id" });
+        }
+        // v2: client directory
+        if (!db.objectStoreNames.contains(CLIENTS_STORE)) {
+          db.createObjectStore(CLIENTS_STORE, { keyPath: "id" });
+        }
+        // v3: several attachments per record
+        if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+          const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: "id" });
+          attachments.createIndex("recordId", "recordId");
+          if (db.objectStoreNames.contains(LEGACY_RECEIPTS_STORE)) {
+            const upgrade = request.transaction!;
+            const legacy = upgrade.objectStore(LEGACY_RECEIPTS_STORE).getAll();
+            legacy.onsuccess = () => {
+              for (const receipt of legacy.result as { recordId: string; name: string; blob: Blob }[]) {
+                attachments.put({ id: receipt.recordId, recordId: receipt.recordId, name: receipt.name, blob: receipt.blob });
+              }
+              db.deleteObjectStore(LEGACY_RECEIPTS_STORE);
+            };
+          }
+        }
+        // v4: log of every fetched exchange rate
+        if (!db.objectStoreNames.contains(RATES_STORE)) {
+          db.createObjectStore(RATES_STORE, { keyPath: "id" });
+        }
+        // v5: append-only audit trail of record changes
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          db.createObjectStore(AUDIT_STORE, { keyPath: "id" }).createIndex("recordId", "recordId");
+        }
+        // v6: records changed on this device and not yet pushed to the sync server
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "recordId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// A record changed locally and waiting to be pushed; a later change of the same record replaces it
+export interface OutboxEntry {
+  recordId: string;
+  // Tells a change apart from one queued while it was being pushed
+  changeId: string;
+  queuedAt: number;
+}
+
+// Writes that go to the sync server call this inside their own transaction, so
+// a change is never stored without being queued
+function queueChange(tx: IDBTransaction, recordId: string): void {
+  const entry: OutboxEntry = { recordId, changeId: `${Date.now()}-${Math.random()}`, queuedAt: Date.now() };
+  tx.objectStore(OUTBOX_STORE).put(entry);
+}
+
+const toAttachmentMeta = ({ url: _url, ...meta }: Attachment): StoredAttachmentMeta => meta;
+
+function toStoredRecord(record: LiquidationRecord, createdAt: number): StoredRecord {
+  return {
+    ...record,
+    comprobantes: record.comprobantes.map(toAttachmentMeta),
+    pagos: record.pagos.map(payment => ({
+      ...payment,
+      comprobante: payment.comprobante && toAttachmentMeta(payment.comprobante),
+    })),
+    schemaVersion: RECORD_SCHEMA_VERSION,
+    createdAt,
+  };
+}
+
+function toLiquidationRecord(stored: StoredRecord, files: Map<string, StoredAttachment>): LiquidationRecord {
+  const { schemaVersion: _version, createdAt: _createdAt, syncVersion: _syncVersion, ...fields } = stored;
+  const withUrl = (meta: StoredAttachmentMeta): Attachment => {
+    const file = files.get(meta.id);
+    return file
+      ? { ...meta, type: file.blob.type || meta.type, size: file.blob.size, url: URL.createObjectURL(file.blob) }
+      : { ...meta, url: "" };
+  };
+  return {
+    ...fields,
+    comprobantes: stored.comprobantes.map(withUrl),
+    pagos: stored.pagos.map(payment => ({ ...payment, comprobante: payment.comprobante && withUrl(payment.comprobante) })),
+  };
+}
+
+/**
+ * Hashes stored files saved before attachments carried a SHA-256, so duplicate
+ * detection also covers older records. Updates `stored` in place.
+ */
+async function backfillAttachmentHashes(db: IDBDatabase, stored: StoredRecord[], files: Map<string, StoredAttachment>): Promise<void> {
+  const updated: StoredRecord[] = [];
+  for (const record of stored) {
+    const missing = record.comprobantes.filter(meta => !meta.sha256 && files.has(meta.id));
+    if (missing.length === 0) continue;
+    for (const meta of missing) {
+      meta.sha256 = await hashFile(files.get(meta.id)!.blob);
+    }
+    if (missing.some(meta => meta.sha256)) {
+      updated.push(record);
+    }
+  }
+  if (updated.length === 0) return;
+
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  updated.forEach(record => tx.objectStore(RECORDS_STORE).put(record));
+  await transactionDone(tx);
+}
+
+/**
+ * Loads every persisted record, newest first, migrating old shapes and
+ * creating fresh object URLs for the stored attachments.
+ */
+export async function loadHistory(): Promise<LiquidationRecord[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE], "readwrite");
+    const recordsStore = tx.objectStore(RECORDS_STORE);
+
+    const rawRecords = await requestToPromise(recordsStore.getAll());
+    const attachments = await requestToPromise<StoredAttachment[]>(tx.objectStore(ATTACHMENTS_STORE).getAll());
+    const attachmentsById = new Map(attachments.map(attachment => [attachment.id, attachment]));
+
+    const stored = rawRecords.flatMap(raw => {
+      if (raw.schemaVersion === RECORD_SCHEMA_VERSION) {
+        return [raw as StoredRecord];
+      }
+      // Written by a newer build (on another device, or restored from its backup): left as
+      // stored, since saving it from here would drop the fields this build does not know
+      if (raw.schemaVersion > RECORD_SCHEMA_VERSION) {
+        console.warn(`Skipping record ${raw.id}: schema version ${raw.schemaVersion} is newer than this build.`);
+        return [];
+      }
+      const migrated = migrateRecord(raw);
+      recordsStore.put(migrated);
+      return [migrated];
+    });
+    await transactionDone(tx);
+    await backfillAttachmentHashes(db, stored, attachmentsById);
+
+    return stored
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(record => toLiquidationRecord(record, attachmentsById));
+  } catch (error) {
+    console.error("Error loading history from IndexedDB:", error);
+    throw new Error(t("storage.loadHistory"));
+  }
+}
+
+// Drops the stored files of attachments `record` no longer lists and stores the new ones
+async function writeAttachments(store: IDBObjectStore, record: LiquidationRecord, files: Record<string, File>): Promise<void> {
+  const keptIds = new Set(recordAttachments(record).map(attachment => attachment.id));
+  const storedIds = await requestToPromise(store.index("recordId").getAllKeys(record.id));
+  for (const id of storedIds) {
+    if (!keptIds.has(String(id))) {
+      store.delete(id);
+    }
+  }
+  for (const [id, file] of Object.entries(files)) {
+    const attachment: StoredAttachment = { id, recordId: record.id, name: file.name, blob: file };
+    store.put(attachment);
+  }
+}
+
+/**
+ * Inserts or updates a record, appends the matching audit entry and queues the
+ * change for the sync server. `files` holds the bytes of newly added
+ * attachments keyed by attachment id; stored files of attachments no longer
+ * listed on the record are deleted.
+ */
+export async function saveRecord(record: LiquidationRecord, files: Record<string, File> = {}, reason?: string): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE, AUDIT_STORE, OUTBOX_STORE], "readwrite");
+    const recordsStore = tx.objectStore(RECORDS_STORE);
+
+    const existing = await requestToPromise<StoredRecord | undefined>(recordsStore.get(record.id));
+    // Sync bookkeeping belongs to the stored copy; the one being edited may predate the last sync
+    const { conflicto: _conflict, ...fields } = record;
+    const stored: StoredRecord = {
+      ...toStoredRecord(fields, existing?.createdAt ?? Date.now()),
+      ...(existing?.syncVersion !== undefined && { syncVersion: existing.syncVersion }),
+      ...(existing?.conflicto && { conflicto: existing.conflicto }),
+    };
+    recordsStore.put(stored);
+    const changes = diffRecords(existing ?? null, stored);
+    if (!existing || changes.length > 0) {
+      tx.objectStore(AUDIT_STORE).add(createAuditEntry(record.id, existing ? "update" : "create", changes, reason));
+    }
+    queueChange(tx, record.id);
+
+    await writeAttachments(tx.objectStore(ATTACHMENTS_STORE), record, files);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error saving record to IndexedDB:", error);
+    throw new Error(t("storage.saveRecord"));
+  }
+}
+
+// Writes the soft-delete mark (or clears it), logs the change and queues it for the sync server
+function putDeletedMark(tx: IDBTransaction, existing: StoredRecord, eliminadoEn: string | undefined, reason?: string): void {
+  const { eliminadoEn: _previous, ...fields } = existing;
+  const updated: StoredRecord = eliminadoEn ? { ...fields, eliminadoEn } : fields;
+  tx.objectStore(RECORDS_STORE).put(updated);
+  tx.objectStore(AUDIT_STORE).add(createAuditEntry(existing.id, eliminadoEn ? "delete" : "restore", diffRecords(existing, updated), reason));
+  queueChange(tx, existing.id);
+}
+
+// Sets or clears the soft-delete mark of a stored record
+async function setDeletedMark(recordId: string, eliminadoEn: string | undefined, reason?: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([RECORDS_STORE, AUDIT_STORE, OUTBOX_STORE], "readwrite");
+  const existing = await requestToPromise<StoredRecord | undefined>(tx.objectStore(RECORDS_STORE).get(recordId));
+  if (!existing) {
+    throw new Error(`Record ${recordId} not found.`);
+  }
+  putDeletedMark(tx, existing, eliminadoEn, reason);
+  await transactionDone(tx);
+}
+
+/**
+ * Moves a record to the trash. Records are never removed: the record, its
+ * attachments and its audit trail stay stored and can be restored.
+ * Resolves to the deletion timestamp.
+ */
+export async function deleteRecord(recordId: string, reason?: string): Promise<string> {
+  try {
+    const eliminadoEn = new Date().toISOString();
+    await setDeletedMark(recordId, eliminadoEn, reason);
+    return eliminadoEn;
+  } catch (error) {
+    console.error("Error deleting record from IndexedDB:", error);
+    throw new Error(t("storage.deleteRecord"));
+  }
+}
+
+/** Takes a record out of the trash. */
+export async function restoreRecord(recordId: string): Promise<void> {
+  try {
+    await setDeletedMark(recordId, undefined);
+  } catch (error) {
+    console.error("Error restoring record in IndexedDB:", error);
+    throw new Error(t("storage.restoreRecord"));
+  }
+}
+
+/** The audit trail, oldest first; only the entries of `recordId` when given. */
+export async function loadAuditLog(recordId?: string): Promise<AuditEntry[]> {
+  try {
+    const db = await openDb();
+    const store = db.transaction(AUDIT_STORE, "readonly").objectStore(AUDIT_STORE);
+    const entries = await requestToPromise<AuditEntry[]>(recordId ? store.index("recordId").getAll(recordId) : store.getAll());
+    return entries.sort((a, b) => a.at.localeCompare(b.at));
+  } catch (error) {
+    console.error("Error loading audit log from IndexedDB:", error);
+    throw new Error(t("storage.loadAudit"));
+  }
+}
+
+export async function loadClients(): Promise<Client[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(CLIENTS_STORE, "readonly");
+    const clients = await requestToPromise<Client[]>(tx.objectStore(CLIENTS_STORE).getAll());
+    return clients.sort((a, b) => a.nombre.localeCompare(b.nombre, "es"));
+  } catch (error) {
+    console.error("Error loading clients from IndexedDB:", error);
+    throw new Error(t("storage.loadClients"));
+  }
+}
+
+export async function saveClient(client: Client): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(CLIENTS_STORE, "readwrite");
+    tx.objectStore(CLIENTS_STORE).put(client);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error saving client to IndexedDB:", error);
+    throw new Error(t("storage.saveClient"));
+  }
+}
+
+export async function deleteClient(clientId: string): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(CLIENTS_STORE, "readwrite");
+    tx.objectStore(CLIENTS_STORE).delete(clientId);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error deleting client from IndexedDB:", error);
+    throw new Error(t("storage.deleteClient"));
+  }
+}
+
+/** Every logged exchange-rate quote, oldest first. */
+export async function loadRateLog(): Promise<RateLogEntry[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RATES_STORE, "readonly");
+    const entries = await requestToPromise<RateLogEntry[]>(tx.objectStore(RATES_STORE).getAll());
+    return entries.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+  } catch (error) {
+    console.error("Error loading rate log from IndexedDB:", error);
+    throw new Error(t("storage.loadRates"));
+  }
+}
+
+export async function saveRateLogEntries(entries: RateLogEntry[]): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RATES_STORE, "readwrite");
+    entries.forEach(entry => tx.objectStore(RATES_STORE).put(entry));
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error saving rate log to IndexedDB:", error);
+    throw new Error(t("storage.saveRate"));
+  }
+}
+
+/**
+ * Saves imported records in a single transaction. Their creation time follows
+ * the liquidation date so they sort behind records registered in the app.
+ */
+export async function importRecords(records: LiquidationRecord[]): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, AUDIT_STORE, OUTBOX_STORE], "readwrite");
+    const recordsStore = tx.objectStore(RECORDS_STORE);
+    const now = Date.now();
+    for (const record of records) {
+      const stored = toStoredRecord(record, Math.min(Date.parse(`${record.fecha}T12:00:00`) || now, now));
+      recordsStore.put(stored);
+      tx.objectStore(AUDIT_STORE).add(createAuditEntry(record.id, "create", diffRecords(null, stored), "Importación"));
+      queueChange(tx, record.id);
+    }
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error importing records into IndexedDB:", error);
+    throw new Error(t("storage.saveImported"));
+  }
+}
+
+/** Changes waiting for the sync server, oldest first. */
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(OUTBOX_STORE, "readonly");
+    const entries = await requestToPromise<OutboxEntry[]>(tx.objectStore(OUTBOX_STORE).getAll());
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+  } catch (error) {
+    console.error("Error loading sync outbox from IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/** Queues every record that never reached the sync server, for a device's first sync. */
+export async function queueUnsyncedRecords(): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, OUTBOX_STORE], "readwrite");
+    const records = await requestToPromise<StoredRecord[]>(tx.objectStore(RECORDS_STORE).getAll());
+    records.filter(record => record.syncVersion === undefined).forEach(record => queueChange(tx, record.id));
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error queueing records for sync in IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/** A stored record and its files, as pushed to the sync server; undefined when the record is gone. */
+export async function readRecordForSync(recordId: string): Promise<{ record: StoredRecord; files: StoredAttachment[] } | undefined> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE], "readonly");
+    const record = await requestToPromise<StoredRecord | undefined>(tx.objectStore(RECORDS_STORE).get(recordId));
+    const files = await requestToPromise<StoredAttachment[]>(tx.objectStore(ATTACHMENTS_STORE).index("recordId").getAll(recordId));
+    return record && { record, files };
+  } catch (error) {
+    console.error("Error reading record for sync from IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/** Where a record stands locally: its synced version, whether a change is queued and which files are stored. */
+export async function readSyncState(recordId: string): Promise<{ syncVersion?: number; queued: boolean; fileIds: string[] }> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE, OUTBOX_STORE], "readonly");
+    const record = await requestToPromise<StoredRecord | undefined>(tx.objectStore(RECORDS_STORE).get(recordId));
+    const queued = await requestToPromise(tx.objectStore(OUTBOX_STORE).count(recordId));
+    const fileIds = await requestToPromise(tx.objectStore(ATTACHMENTS_STORE).index("recordId").getAllKeys(recordId));
+    return { syncVersion: record?.syncVersion, queued: queued > 0, fileIds: fileIds.map(String) };
+  } catch (error) {
+    console.error("Error reading sync state from IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/**
+ * Records the version the sync server gave a pushed record and the conflict it
+ * flagged, if any. Bookkeeping only: no audit entry is logged.
+ */
+export async function setSyncVersion(recordId: string, syncVersion: number, conflicto?: SyncConflict): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RECORDS_STORE, "readwrite");
+    const store = tx.objectStore(RECORDS_STORE);
+    const existing = await requestToPromise<StoredRecord | undefined>(store.get(recordId));
+    if (existing) {
+      const { conflicto: _previous, ...fields } = existing;
+      store.put(conflicto ? { ...fields, syncVersion, conflicto } : { ...fields, syncVersion });
+    }
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error saving sync version to IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/** Takes a pushed change off the outbox, unless the record changed again while it was pushed. */
+export async function dequeueChange(entry: OutboxEntry): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(OUTBOX_STORE, "readwrite");
+    const store = tx.objectStore(OUTBOX_STORE);
+    const current = await requestToPromise<OutboxEntry | undefined>(store.get(entry.recordId));
+    if (current?.changeId === entry.changeId) {
+      store.delete(entry.recordId);
+    }
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("Error updating sync outbox in IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+/**
+ * Stores a record pulled from the sync server, with the files downloaded for
+ * it keyed by attachment id, and logs the change. A record with a queued local
+ * change is left alone: that change is pushed next and wins. Resolves to
+ * whether the record was written.
+ */
+export async function applyRemoteRecord(record: StoredRecord, files: Record<string, File>): Promise<boolean> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE, AUDIT_STORE, OUTBOX_STORE], "readwrite");
+    if ((await requestToPromise(tx.objectStore(OUTBOX_STORE).count(record.id))) > 0) {
+      return false;
+    }
+    const recordsStore = tx.objectStore(RECORDS_STORE);
+    const existing = await requestToPromise<StoredRecord | undefined>(recordsStore.get(record.id));
+    const stored: StoredRecord = { ...record, createdAt: existing?.createdAt ?? record.createdAt };
+    recordsStore.put(stored);
+    const changes = diffRecords(existing ?? null, stored);
+    if (!existing || changes.length > 0) {
+      const action = !existing ? "create" : existing.eliminadoEn === stored.eliminadoEn ? "update" : stored.eliminadoEn ? "delete" : "restore";
+      tx.objectStore(AUDIT_STORE).add(createAuditEntry(record.id, action, changes, "Sincronización"));
+    }
+
+    await writeAttachments(tx.objectStore(ATTACHMENTS_STORE), toLiquidationRecord(stored, new Map()), files);
+    await transactionDone(tx);
+    return true;
+  } catch (error) {
+    console.error("Error saving synced record to IndexedDB:", error);
+    throw new Error(t("sync.storage"));
+  }
+}
+
+// Raw contents of every store, as written to and read from backup archives.
+export interface DatabaseSnapshot {
+  records: StoredRecord[];
+  attachments: StoredAttachment[];
+  clients: Client[];
+  rates: RateLogEntry[];
+  audit: AuditEntry[];
+}
+
+// Reason logged on the audit entries a backup restore adds
+const RESTORE_REASON = "Restauración de respaldo";
+
+export interface RestoreReport {
+  recordsImported: number;
+  recordsSkipped: number;
+  // Records a replacing restore moved to the trash because the archive lacks them
+  recordsTrashed: number;
+  attachmentsImported: number;
+  clientsImported: number;
+  clientsSkipped: number;
+  ratesImported: number;
+  auditImported: number;
+}
+
+export async function readSnapshot(): Promise<DatabaseSnapshot> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE, CLIENTS_STORE, RATES_STORE, AUDIT_STORE], "readonly");
+    const [records, attachments, clients, rates, audit] = await Promise.all([
+      requestToPromise<StoredRecord[]>(tx.objectStore(RECORDS_STORE).getAll()),
+      requestToPromise<StoredAttachment[]>(tx.objectStore(ATTACHMENTS_STORE).getAll()),
+      requestToPromise<Client[]>(tx.objectStore(CLIENTS_STORE).getAll()),
+      requestToPromise<RateLogEntry[]>(tx.objectStore(RATES_STORE).getAll()),
+      requestToPromise<AuditEntry[]>(tx.objectStore(AUDIT_STORE).getAll()),
+    ]);
+    return { records, attachments, clients, rates, audit };
+  } catch (error) {
+    console.error("Error reading IndexedDB snapshot:", error);
+    throw new Error(t("storage.readSnapshot"));
+  }
+}
+
+/**
+ * Writes a snapshot in a single transaction. "merge" keeps existing records and
+ * clients and skips incoming ones with the same id; "replace" overwrites records
+ * with the same id, moves the records the archive lacks to the trash and clears
+ * the clients and rates first. Records are never removed, so the sync server
+ * learns about the dropped ones like any other deletion and the other devices
+ * don't push them back. The audit trail is never cleared: archive entries are
+ * merged by id in both modes, and every record the restore writes or drops gets
+ * an entry of its own. Records keep their schema version and are migrated on
+ * the next load; restored and dropped records are queued for the sync server.
+ */
+export async function restoreSnapshot(snapshot: DatabaseSnapshot, mode: "merge" | "replace"): Promise<RestoreReport> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([RECORDS_STORE, ATTACHMENTS_STORE, CLIENTS_STORE, RATES_STORE, AUDIT_STORE, OUTBOX_STORE], "readwrite");
+    const recordsStore = tx.objectStore(RECORDS_STORE);
+    const attachmentsStore = tx.objectStore(ATTACHMENTS_STORE);
+    const clientsStore = tx.objectStore(CLIENTS_STORE);
+    const ratesStore = tx.objectStore(RATES_STORE);
+    const auditStore = tx.objectStore(AUDIT_STORE);
+
+    const existingRecords = new Map((await requestToPromise<StoredRecord[]>(recordsStore.getAll())).map(record => [record.id, record]));
+    const existingAuditIds = new Set(await requestToPromise(auditStore.getAllKeys()));
+    if (mode === "replace") {
+      clientsStore.clear();
+      ratesStore.clear();
+    }
+    const existingClientIds = new Set(mode === "merge" ? await requestToPromise(clientsStore.getAllKeys()) : []);
+
+    const report: RestoreReport = { recordsImported: 0, recordsSkipped: 0, recordsTrashed: 0, attachmentsImported: 0, clientsImported: 0, clientsSkipped: 0, ratesImported: 0, auditImported: 0 };
+    // Archive entries first, so each record's restore entry comes after its archived history
+    for (const entry of snapshot.audit) {
+      if (!existingAuditIds.has(entry.id)) {
+        auditStore.add(entry);
+        report.auditImported++;
+      }
+    }
+
+    const importedIds = new Set<string>();
+    for (const record of snapshot.records) {
+      const existing = existingRecords.get(record.id);
+      if (mode === "merge" && existing) {
+        report.recordsSkipped++;
+        continue;
+      }
+      recordsStore.put(record);
+      queueChange(tx, record.id);
+      auditStore.add(createAuditEntry(record.id, "restore", diffRecords(existing ?? null, record), RESTORE_REASON));
+      importedIds.add(record.id);
+      report.recordsImported++;
+    }
+    // Records a replacing restore drops go to the trash with their files and history
+    if (mode === "replace") {
+      const eliminadoEn = new Date().toISOString();
+      for (const existing of existingRecords.values()) {
+        if (!importedIds.has(existing.id) && !existing.eliminadoEn) {
+          putDeletedMark(tx, existing, eliminadoEn, RESTORE_REASON);
+          report.recordsTrashed++;
+        }
+      }
+    }
+    // A restored record's files are the archive's; the ones it replaced go with it
+    for (const id of importedIds) {
+      if (existingRecords.has(id)) {
+        for (const fileId of await requestToPromise(attachmentsStore.index("recordId").getAllKeys(id))) {
+          attachmentsStore.delete(fileId);
+        }
+      }
+    }
+    for (const attachment of snapshot.attachments) {
+      if (importedIds.has(attachment.recordId)) {
+        attachmentsStore.put(attachment);
+        report.attachmentsImported++;
+      }
+    }
+    for (const client of snapshot.clients) {
+      if (existingClientIds.has(client.id)) {
+        report.clientsSkipped++;
+        continue;
+      }
+      clientsStore.put(client);
+      report.clientsImported++;
+    }
+    for (const rate of snapshot.rates) {
+      ratesStore.put(rate);
+      report.ratesImported++;
+    }
+
+    await transactionDone(tx);
+    return report;
+  } catch (error) {
+    console.error("Error restoring IndexedDB snapshot:", error);
+    throw new Error(t("storage.restoreBackup"));
+  }
+}
@@ -0,0 +1,354 @@
+import type { LiquidationRecord } from "../App";
+import { withApiToken } from "./apiToken";
+import { diffRecords, type FieldChange } from "./auditLog";
+import { recordAttachments } from "./attachments";
+import { t } from "./i18n";
+import {
+  applyRemoteRecord,
+  deleteRecord as deleteStoredRecord,
+  dequeueChange,
+  importRecords as importStoredRecords,
+  loadOutbox,
+  parseSyncedRecord,
+  queueUnsyncedRecords,
+  readRecordForSync,
+  readSyncState,
+  restoreRecord as restoreStoredRecord,
+  saveRecord as saveStoredRecord,
+  setSyncVersion,
+  type StoredRecord,
+} from "./storageService";
+
+// --- Sync client ---
+// Every local write lands in IndexedDB first and is queued in its outbox (see
+// storageService), so the app works the same offline. When the sync server is
+// reachable the queue is pushed, then the changes of the other devices are
+// pulled. Each record carries the server version its copy is based on; a push
+// based on an older version still wins (last writer wins) but the server flags
+// the record with the copy it replaced.
+
+// Wire types of server/syncStore.ts
+export interface SyncConflict {
+  at: string;
+  // Version and device of the overwritten copy
+  version: number;
+  deviceId: string;
+  data: Record<string, unknown>;
+}
+
+interface RemoteRecord {
+  id: string;
+  version: number;
+  updatedAt: string;
+  deviceId: string;
+  data: Record<string, unknown>;
+  conflicto?: SyncConflict;
+}
+
+interface PushResult {
+  version: number;
+  conflicto?: SyncConflict;
+  missingAttachments: string[];
+}
+
+interface ChangesPage {
+  records: RemoteRecord[];
+  cursor: number;
+  more: boolean;
+}
+
+export type SyncState = "disabled" | "idle" | "syncing" | "offline" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  // Local changes not on the server yet
+  pending: number;
+  lastSyncedAt?: string;
+  error?: string;
+}
+
+// Base URL of the server in server/; sync is off when it is not set
+const SYNC_API_URL = (process.env.SYNC_API_URL ?? "").replace(/\/+$/, "");
+const DEVICE_ID_STORAGE_KEY = "syncDeviceId";
+// Last server change seen; absent until the device's first sync
+const CURSOR_STORAGE_KEY = "syncCursor";
+const SYNC_INTERVAL_MS = 30_000;
+
+export const isSyncEnabled = (): boolean => SYNC_API_URL !== "";
+
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!id) {
+    id = `${Date.now()}-${Math.random()}`;
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+  }
+  return id;
+}
+
+// --- Server calls ---
+
+type OfflineError = Error & { offline: true };
+
+const isOffline = (error: unknown): error is OfflineError => error instanceof Error && "offline" in error;
+
+// Plain header objects, so the access key can be added to them
+type SyncInit = Omit<RequestInit, "headers"> & { headers?: Record<string, string> };
+
+// Resolves to the response whatever its status except 401; fails when the server cannot be reached
+async function send(path: string, init: SyncInit = {}): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${SYNC_API_URL}${path}`, { ...init, headers: withApiToken(init.headers) });
+  } catch (error) {
+    console.error(`Sync server unreachable (${path}):`, error);
+    throw Object.assign(new Error(t("sync.error.unreachable")), { offline: true as const });
+  }
+  if (response.status === 401) {
+    throw new Error(t("sync.error.unauthorized"));
+  }
+  return response;
+}
+
+async function request<T>(path: string, init?: SyncInit): Promise<T> {
+  const response = await send(path, init);
+  if (!response.ok) {
+    throw new Error(t("sync.error.http", { status: response.status }));
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+const jsonInit = (method: string, body: unknown): SyncInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+// Undefined while the device that added the file has not uploaded it yet
+async function downloadAttachment(id: string): Promise<File | undefined> {
+  const response = await send(`/api/attachments/${encodeURIComponent(id)}`);
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    throw new Error(t("sync.error.http", { status: response.status }));
+  }
+  const name = decodeURIComponent(response.headers.get("X-File-Name") ?? id);
+  return new File([await response.blob()], name, { type: response.headers.get("Content-Type") ?? "" });
+}
+
+// --- Push and pull ---
+
+// `onChange` runs when the server flags a conflict on a pushed record
+async function pushChanges(onChange: () => void): Promise<void> {
+  for (const entry of await loadOutbox()) {
+    const local = await readRecordForSync(entry.recordId);
+    if (!local) {
+      await dequeueChange(entry);
+      continue;
+    }
+    const { syncVersion, conflicto: _conflict, ...data } = local.record;
+    const result = await request<PushResult>(
+      `/api/records/${encodeURIComponent(entry.recordId)}`,
+      jsonInit("PUT", { baseVersion: syncVersion ?? 0, deviceId: deviceId(), data })
+    );
+    // Saved before uploading, so a failed upload is retried against the version just written
+    await setSyncVersion(entry.recordId, result.version, result.conflicto);
+    if (result.conflicto && !local.record.conflicto) onChange();
+
+    for (const attachmentId of result.missingAttachments) {
+      // Imported rows list receipts whose files never reached this device
+      const file = local.files.find(f => f.id === attachmentId);
+      if (!file) continue;
+      const response = await send(`/api/attachments/${encodeURIComponent(attachmentId)}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": file.blob.type || "application/octet-stream",
+          "X-Record-Id": encodeURIComponent(entry.recordId),
+          "X-File-Name": encodeURIComponent(file.name),
+        },
+        body: file.blob,
+      });
+      // 409: an earlier try stored the file but its answer was lost
+      if (!response.ok && response.status !== 409) {
+        throw new Error(t("sync.error.http", { status: response.status }));
+      }
+    }
+    await dequeueChange(entry);
+  }
+}
+
+// Resolves to whether the record was written locally
+async function applyRemote(remote: RemoteRecord): Promise<boolean> {
+  const parsed = parseSyncedRecord(remote.id, remote.data);
+  if (!parsed) {
+    console.error(`Skipping record ${remote.id} from the sync server: its data is not a record.`);
+    return false;
+  }
+  const local = await readSyncState(remote.id);
+  if (local.queued) return false;
+  const isNewer = local.syncVersion === undefined || remote.version > local.syncVersion;
+  const record: StoredRecord = { ...parsed, syncVersion: remote.version, conflicto: remote.conflicto };
+
+  const files: Record<string, File> = {};
+  const missing = recordAttachments(record).filter(a => !local.fileIds.includes(a.id));
+  for (const attachment of missing) {
+    const file = await downloadAttachment(attachment.id);
+    if (file) files[attachment.id] = file;
+  }
+  if (!isNewer && Object.keys(files).length === 0) return false;
+  return applyRemoteRecord(record, files);
+}
+
+// `onChange` runs for every record written locally
+async function pullChanges(onChange: () => void): Promise<void> {
+  let cursor = Number(localStorage.getItem(CURSOR_STORAGE_KEY) ?? 0);
+  let page: ChangesPage;
+  do {
+    page = await request<ChangesPage>(`/api/records?since=${cursor}`);
+    for (const remote of page.records) {
+      if (await applyRemote(remote)) onChange();
+    }
+    cursor = page.cursor;
+    localStorage.setItem(CURSOR_STORAGE_KEY, String(cursor));
+  } while (page.more);
+}
+
+// --- Scheduling ---
+
+interface SyncListeners {
+  onStatus: (status: SyncStatus) => void;
+  // The local history changed under the app and should be reloaded
+  onRemoteChange: () => void;
+}
+
+let listeners: SyncListeners | null = null;
+let status: SyncStatus = { state: isSyncEnabled() ? "idle" : "disabled", pending: 0 };
+let running: Promise<void> | null = null;
+let runAgain = false;
+
+function setStatus(next: Partial<SyncStatus>): void {
+  status = { ...status, ...next };
+  listeners?.onStatus(status);
+}
+
+async function syncOnce(): Promise<void> {
+  setStatus({ state: "syncing", error: undefined });
+  // Also set by a sync that fails halfway, so what did change is shown
+  let changed = false;
+  const markChanged = () => {
+    changed = true;
+  };
+  try {
+    if (localStorage.getItem(CURSOR_STORAGE_KEY) === null) {
+      await queueUnsyncedRecords();
+    }
+    await pushChanges(markChanged);
+    await pullChanges(markChanged);
+    setStatus({ state: "idle", lastSyncedAt: new Date().toISOString() });
+  } catch (error) {
+    if (!isOffline(error)) {
+      console.error("Sync failed:", error);
+    }
+    setStatus({ state: isOffline(error) ? "offline" : "error", error: error instanceof Error ? error.message : String(error) });
+  }
+  try {
+    setStatus({ pending: (await loadOutbox()).length });
+  } catch (error) {
+    console.error("Could not count pending sync changes:", error);
+  }
+  if (changed) {
+    listeners?.onRemoteChange();
+  }
+}
+
+/**
+ * Pushes and pulls now, or again right after the sync in progress. Resolves
+ * once done; never rejects, failures show in the status. No-op while sync is stopped.
+ */
+export function requestSync(): Promise<void> {
+  if (!listeners) return Promise.resolve();
+  if (running) {
+    runAgain = true;
+    return running;
+  }
+  running = (async () => {
+    do {
+      runAgain = false;
+      await syncOnce();
+    } while (runAgain && listeners);
+    running = null;
+  })();
+  return running;
+}
+
+/**
+ * Starts syncing: right away, every 30 seconds and whenever the browser gets
+ * its connection back. Returns the function that stops it.
+ */
+export function startSync(onStatus: SyncListeners["onStatus"], onRemoteChange: SyncListeners["onRemoteChange"]): () => void {
+  if (!isSyncEnabled()) {
+    onStatus(status);
+    return () => undefined;
+  }
+  listeners = { onStatus, onRemoteChange };
+  onStatus(status);
+  const handleOnline = () => void requestSync();
+  const interval = window.setInterval(handleOnline, SYNC_INTERVAL_MS);
+  window.addEventListener("online", handleOnline);
+  handleOnline();
+  return () => {
+    listeners = null;
+    window.clearInterval(interval);
+    window.removeEventListener("online", handleOnline);
+  };
+}
+
+// --- Writes ---
+// The app's record writes go through these, so every change is queued and sent.
+
+export async function saveRecord(record: LiquidationRecord, files: Record<string, File> = {}, reason?: string): Promise<void> {
+  await saveStoredRecord(record, files, reason);
+  void requestSync();
+}
+
+export async function deleteRecord(recordId: string, reason?: string): Promise<string> {
+  const eliminadoEn = await deleteStoredRecord(recordId, reason);
+  void requestSync();
+  return eliminadoEn;
+}
+
+export async function restoreRecord(recordId: string): Promise<void> {
+  await restoreStoredRecord(recordId);
+  void requestSync();
+}
+
+export async function importRecords(records: LiquidationRecord[]): Promise<void> {
+  await importStoredRecords(records);
+  void requestSync();
+}
+
+// --- Conflicts ---
+
+// Attachment URLs are local to each device, so they are left out of the comparison
+const withoutUrls = (record: LiquidationRecord): object => JSON.parse(JSON.stringify(record, (key, value) => (key === "url" ? undefined : value)));
+
+/** How the copy replaced in a sync conflict differs from the record as it is now. */
+export function overwrittenChanges(record: LiquidationRecord): FieldChange[] {
+  return record.conflicto ? diffRecords(record.conflicto.data, withoutUrls(record)) : [];
+}
+
+/**
+ * Clears a record's conflict flag on the server and on this device. A pending
+ * change of the record is pushed first, so the flag cleared is the current one.
+ */
+export async function resolveConflict(recordId: string): Promise<void> {
+  try {
+    await requestSync();
+    if ((await readSyncState(recordId)).queued) {
+      throw new Error(status.error ?? t("sync.conflict.resolveFailed"));
+    }
+    const remote = await request<RemoteRecord>(`/api/records/${encodeURIComponent(recordId)}/resolve`, jsonInit("POST", { deviceId: deviceId() }));
+    await setSyncVersion(recordId, remote.version);
+  } catch (error) {
+    console.error("Error resolving sync conflict:", error);
+    throw new Error(isOffline(error) ? error.message : t("sync.conflict.resolveFailed"));
+  }
+}
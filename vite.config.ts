@@ -1,17 +1,39 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { configDefaults } from 'vitest/config';
+
+// The server runs on Node 22 (node:sqlite, behind this flag before 22.13); on
+// older versions only the app's tests run
+const hasSqlite = process.allowedNodeEnvironmentFlags.has('--experimental-sqlite');
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Secrets such as GEMINI_API_KEY stay with server/; only these reach the bundle
+    const apiProxy = {
+      '/api': { target: `http://localhost:${env.SERVER_PORT || 8787}`, xfwd: true },
+    };
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL),
+        'process.env.RATE_API_URL': JSON.stringify(env.RATE_API_URL),
+        'process.env.RATE_API_PATH': JSON.stringify(env.RATE_API_PATH),
+        'process.env.RECEIPT_READER': JSON.stringify(env.RECEIPT_READER),
+        'process.env.SYNC_API_URL': JSON.stringify(env.SYNC_API_URL)
       },
+      // The dev and preview servers forward the Gemini proxy calls to server/
+      server: { proxy: apiProxy },
+      preview: { proxy: apiProxy },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // The services read localStorage and other browser globals; the server tests opt out of the DOM
+      test: {
+        environment: 'happy-dom',
+        exclude: hasSqlite ? configDefaults.exclude : [...configDefaults.exclude, 'server/**'],
+        poolOptions: { forks: { execArgv: hasSqlite ? ['--experimental-sqlite'] : [] } }
       }
     };
 });